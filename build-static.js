@@ -13,6 +13,10 @@ const outputFile = path.join(__dirname, 'src', 'lib', 'static.ts');
 const htmlContent = fs.readFileSync(path.join(staticDir, 'index.html'), 'utf-8');
 const cssContent = fs.readFileSync(path.join(staticDir, 'styles.css'), 'utf-8');
 const jsContent = fs.readFileSync(path.join(staticDir, 'script.js'), 'utf-8');
+const widgetContent = fs.readFileSync(path.join(staticDir, 'widget.js'), 'utf-8');
+const widgetDemoContent = fs.readFileSync(path.join(staticDir, 'widget-demo.html'), 'utf-8');
+const repliesHtmlContent = fs.readFileSync(path.join(staticDir, 'replies.html'), 'utf-8');
+const repliesJsContent = fs.readFileSync(path.join(staticDir, 'replies.js'), 'utf-8');
 
 // Escape template literals
 const escapeTemplate = (str) => str.replace(/`/g, '\\`').replace(/\${/g, '\\${');
@@ -24,6 +28,11 @@ const staticFiles: Record<string, string> = {
   '/index.html': '/index.html',
   '/styles.css': '/styles.css',
   '/script.js': '/script.js',
+  '/widget.js': '/widget.js',
+  '/widget-demo.html': '/widget-demo.html',
+  '/replies': '/replies.html',
+  '/replies.html': '/replies.html',
+  '/replies.js': '/replies.js',
 };
 
 // Embed static assets as strings
@@ -33,6 +42,14 @@ const cssContent = \`${escapeTemplate(cssContent)}\`;
 
 const jsContent = \`${escapeTemplate(jsContent)}\`;
 
+const widgetContent = \`${escapeTemplate(widgetContent)}\`;
+
+const widgetDemoContent = \`${escapeTemplate(widgetDemoContent)}\`;
+
+const repliesHtmlContent = \`${escapeTemplate(repliesHtmlContent)}\`;
+
+const repliesJsContent = \`${escapeTemplate(repliesJsContent)}\`;
+
 export async function handleStaticAssets(request: Request, url: URL, env?: any): Promise<Response> {
   const path = staticFiles[url.pathname] || url.pathname;
   
@@ -68,6 +85,30 @@ export async function handleStaticAssets(request: Request, url: URL, env?: any):
       });
     }
     
+    if (path === '/widget.js') {
+      return new Response(widgetContent, {
+        headers: { 'Content-Type': 'application/javascript; charset=utf-8' },
+      });
+    }
+    
+    if (path === '/widget-demo.html') {
+      return new Response(widgetDemoContent, {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+    
+    if (path === '/replies.html') {
+      return new Response(repliesHtmlContent, {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+    
+    if (path === '/replies.js') {
+      return new Response(repliesJsContent, {
+        headers: { 'Content-Type': 'application/javascript; charset=utf-8' },
+      });
+    }
+    
     return new Response('Not Found', { status: 404 });
     
   } catch (error) {
@@ -0,0 +1,82 @@
+import { Env } from '../types/env';
+import { CommentBox, BoxError, getBox, saveBox, deleteBox, listBoxes } from '../lib/boxes';
+import { getPathParams } from '../lib/path-params';
+
+/**
+ * Admin CRUD for comment boxes:
+ *   GET    /api/admin/boxes       list all boxes
+ *   GET    /api/admin/boxes/:id   full box record including recipient
+ *   PUT    /api/admin/boxes/:id   create or replace a box
+ *   DELETE /api/admin/boxes/:id   delete a box
+ */
+export async function handleAdminBoxes(
+  request: Request,
+  env: Env,
+  _ctx: ExecutionContext
+): Promise<Response> {
+  try {
+    const params = getPathParams(new URL(request.url).pathname, '/api/admin/boxes');
+    if (!params) {
+      return jsonResponse({ error: 'Invalid comment box ID' }, 400);
+    }
+    const [boxId, extra] = params;
+
+    if (extra !== undefined) {
+      return jsonResponse({ error: 'Not found' }, 404);
+    }
+
+    if (!boxId) {
+      if (request.method !== 'GET') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+      return jsonResponse({ boxes: await listBoxes(env) });
+    }
+
+    switch (request.method) {
+      case 'GET': {
+        const box = await getBox(boxId, env);
+        return box ? jsonResponse(box) : jsonResponse({ error: 'Comment box not found' }, 404);
+      }
+
+      case 'PUT': {
+        const body = await request.json() as Partial<CommentBox>;
+        const existing = await getBox(boxId, env);
+        const box: CommentBox = {
+          ...body,
+          id: boxId,
+          createdAt: existing?.createdAt ?? Date.now(),
+        } as CommentBox;
+
+        await saveBox(box, env);
+        return jsonResponse(box, existing ? 200 : 201);
+      }
+
+      case 'DELETE': {
+        await deleteBox(boxId, env);
+        return jsonResponse({ success: true });
+      }
+
+      default:
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+  } catch (error) {
+    if (error instanceof BoxError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Invalid JSON in request body' }, 400);
+    }
+
+    console.error('Admin boxes error:', error);
+    return jsonResponse({ error: 'Failed to process box request' }, 500);
+  }
+}
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
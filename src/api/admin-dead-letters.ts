@@ -0,0 +1,66 @@
+import { Env } from '../types/env';
+import { listDeadLetters, requeueDeadLetter, purgeDeadLetter, purgeDeadLetters } from '../lib/queue';
+import { getPathParams } from '../lib/path-params';
+
+/**
+ * Admin access to messages that exhausted their delivery attempts:
+ *   GET    /api/admin/dead-letters              list dead letters (metadata only, no content)
+ *   POST   /api/admin/dead-letters/:id/requeue  move a dead letter back into the queue
+ *   DELETE /api/admin/dead-letters/:id          permanently delete one dead letter
+ *   DELETE /api/admin/dead-letters              permanently delete all dead letters
+ */
+export async function handleAdminDeadLetters(
+  request: Request,
+  env: Env,
+  _ctx: ExecutionContext
+): Promise<Response> {
+  try {
+    const params = getPathParams(new URL(request.url).pathname, '/api/admin/dead-letters');
+    if (!params) {
+      return jsonResponse({ error: 'Invalid dead letter ID' }, 400);
+    }
+    const [messageId, action] = params;
+
+    if (!messageId) {
+      switch (request.method) {
+        case 'GET':
+          return jsonResponse({ deadLetters: await listDeadLetters(env) });
+        case 'DELETE':
+          return jsonResponse({ success: true, purged: await purgeDeadLetters(env) });
+        default:
+          return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+    }
+
+    if (action === 'requeue') {
+      if (request.method !== 'POST') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+      const requeued = await requeueDeadLetter(messageId, env);
+      return requeued
+        ? jsonResponse({ success: true, id: messageId })
+        : jsonResponse({ error: 'Dead letter not found' }, 404);
+    }
+
+    if (action !== undefined) {
+      return jsonResponse({ error: 'Not found' }, 404);
+    }
+
+    if (request.method !== 'DELETE') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+    await purgeDeadLetter(messageId, env);
+    return jsonResponse({ success: true });
+
+  } catch (error) {
+    console.error('Admin dead letters error:', error);
+    return jsonResponse({ error: 'Failed to process dead letter request' }, 500);
+  }
+}
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
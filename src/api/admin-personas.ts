@@ -0,0 +1,100 @@
+import { Env } from '../types/env';
+import { Persona, PersonaError, getPersona, savePersona, listPersonas } from '../lib/personas';
+import { getPathParams } from '../lib/path-params';
+
+/**
+ * Admin CRUD for the persona registry:
+ *   GET   /api/admin/personas        list all personas, including disabled ones
+ *   GET   /api/admin/personas/:key   full persona record
+ *   PUT   /api/admin/personas/:key   create or replace a persona
+ *   PATCH /api/admin/personas/:key   update some fields, e.g. {"enabled": false} to disable
+ */
+export async function handleAdminPersonas(
+  request: Request,
+  env: Env,
+  _ctx: ExecutionContext
+): Promise<Response> {
+  try {
+    const params = getPathParams(new URL(request.url).pathname, '/api/admin/personas');
+    if (!params) {
+      return jsonResponse({ error: 'Invalid persona key' }, 400);
+    }
+    const [personaKey, extra] = params;
+
+    if (extra !== undefined) {
+      return jsonResponse({ error: 'Not found' }, 404);
+    }
+
+    if (!personaKey) {
+      if (request.method !== 'GET') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+      return jsonResponse({ personas: await listPersonas(env) });
+    }
+
+    switch (request.method) {
+      case 'GET': {
+        const persona = await getPersona(personaKey, env);
+        return persona ? jsonResponse(persona) : jsonResponse({ error: 'Persona not found' }, 404);
+      }
+
+      case 'PUT': {
+        const body = await request.json() as Partial<Persona>;
+        const existing = await getPersona(personaKey, env);
+        const now = Date.now();
+        const persona: Persona = {
+          examples: [],
+          enabled: true,
+          ...body,
+          key: personaKey,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        } as Persona;
+
+        await savePersona(persona, env);
+        return jsonResponse(persona, existing ? 200 : 201);
+      }
+
+      case 'PATCH': {
+        const existing = await getPersona(personaKey, env);
+        if (!existing) {
+          return jsonResponse({ error: 'Persona not found' }, 404);
+        }
+
+        const body = await request.json() as Partial<Persona>;
+        const persona: Persona = {
+          ...existing,
+          ...body,
+          key: personaKey,
+          createdAt: existing.createdAt,
+          updatedAt: Date.now(),
+        };
+
+        await savePersona(persona, env);
+        return jsonResponse(persona);
+      }
+
+      default:
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+  } catch (error) {
+    if (error instanceof PersonaError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Invalid JSON in request body' }, 400);
+    }
+
+    console.error('Admin personas error:', error);
+    return jsonResponse({ error: 'Failed to process persona request' }, 500);
+  }
+}
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
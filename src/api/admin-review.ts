@@ -0,0 +1,89 @@
+import { Env } from '../types/env';
+import {
+  ReviewError,
+  getReviewMessage,
+  listReviewMessages,
+  approveReviewMessage,
+  rejectReviewMessage,
+  editReviewMessage,
+} from '../lib/review';
+import { getPathParams } from '../lib/path-params';
+
+/**
+ * Admin review queue for messages held by REVIEW_MODE or a box's reviewMode:
+ *   GET   /api/admin/review              list held messages, oldest first
+ *   GET   /api/admin/review/:id          one held message
+ *   PATCH /api/admin/review/:id          replace the text: {"message": "..."}
+ *   POST  /api/admin/review/:id/approve  move into the delivery queue with a fresh random delay
+ *   POST  /api/admin/review/:id/reject   discard without delivering
+ */
+export async function handleAdminReview(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  try {
+    const params = getPathParams(new URL(request.url).pathname, '/api/admin/review');
+    if (!params) {
+      return jsonResponse({ error: 'Invalid review message ID' }, 400);
+    }
+    const [reviewId, action] = params;
+
+    if (!reviewId) {
+      if (request.method !== 'GET') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+      return jsonResponse({ messages: await listReviewMessages(env) });
+    }
+
+    if (action === 'approve' || action === 'reject') {
+      if (request.method !== 'POST') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+      if (action === 'approve') {
+        await approveReviewMessage(reviewId, env, ctx);
+      } else {
+        await rejectReviewMessage(reviewId, env);
+      }
+      return jsonResponse({ success: true, id: reviewId });
+    }
+
+    if (action !== undefined) {
+      return jsonResponse({ error: 'Not found' }, 404);
+    }
+
+    switch (request.method) {
+      case 'GET': {
+        const reviewMessage = await getReviewMessage(reviewId, env);
+        return reviewMessage ? jsonResponse(reviewMessage) : jsonResponse({ error: 'Review message not found' }, 404);
+      }
+
+      case 'PATCH': {
+        const body = await request.json() as { message?: unknown };
+        return jsonResponse(await editReviewMessage(reviewId, body?.message, env));
+      }
+
+      default:
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Invalid JSON in request body' }, 400);
+    }
+
+    console.error('Admin review error:', error);
+    return jsonResponse({ error: 'Failed to process review request' }, 500);
+  }
+}
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,47 @@
+import { Env } from '../types/env';
+import { ErrorResponse } from '../types/api';
+import { getBox, toBoxInfo } from '../lib/boxes';
+import { getPathParams } from '../lib/path-params';
+
+/**
+ * Public lookup of a comment box's title and allowed personas (never its recipient)
+ */
+export async function handleGetBox(
+  request: Request,
+  env: Env,
+  _ctx: ExecutionContext
+): Promise<Response> {
+  try {
+    const params = getPathParams(new URL(request.url).pathname, '/api/boxes');
+    if (!params) {
+      const errorResponse: ErrorResponse = { error: 'Invalid comment box ID' };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const box = params.length === 1 ? await getBox(params[0], env) : null;
+    if (!box) {
+      const errorResponse: ErrorResponse = { error: 'Comment box not found' };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(toBoxInfo(box)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Box lookup error:', error);
+
+    const errorResponse: ErrorResponse = { error: 'Failed to load comment box' };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import { Env } from '../types/env';
+import { ChallengeResponse, ErrorResponse } from '../types/api';
+import { createChallengeVerifier } from '../lib/challenge';
+
+/**
+ * The challenge to solve before the next submission, or {mode: "off"} when none is needed
+ */
+export async function handleGetChallenge(
+  _request: Request,
+  env: Env,
+  _ctx: ExecutionContext
+): Promise<Response> {
+  try {
+    const verifier = createChallengeVerifier(env);
+    const challenge: ChallengeResponse = verifier ? await verifier.issue(env) : { mode: 'off' };
+
+    return new Response(JSON.stringify(challenge), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        // Proof-of-work tokens are single use
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('Challenge error:', error);
+
+    const errorResponse: ErrorResponse = { error: 'Failed to create challenge' };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -65,7 +65,7 @@ export async function handleDebugQueueStatus(
           queuedAt: new Date(message.queuedAt).toISOString(),
           scheduledFor: new Date(message.scheduledFor).toISOString(),
           timeUntilDelivery: Math.max(0, message.scheduledFor - Date.now()),
-          messagePreview: message.message.substring(0, 100)
+          encrypted: Boolean(message.encryptedMessage)
         });
       }
     }
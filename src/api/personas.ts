@@ -0,0 +1,49 @@
+import { Env } from '../types/env';
+import { ErrorResponse, PersonaOption } from '../types/api';
+import { listEnabledPersonas, toPersonaOption } from '../lib/personas';
+import { BoxError, requireBox, isPersonaAllowed } from '../lib/boxes';
+
+/**
+ * Public list of enabled personas for the persona picker.
+ * With ?box=<id>, only the personas that box allows are returned.
+ */
+export async function handleGetPersonas(
+  request: Request,
+  env: Env,
+  _ctx: ExecutionContext
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const boxId = url.searchParams.get('box');
+    const box = boxId ? await requireBox(boxId, env) : null;
+
+    const options: PersonaOption[] = (await listEnabledPersonas(env))
+      .filter(persona => !box || isPersonaAllowed(box, persona.key))
+      .map(toPersonaOption);
+
+    return new Response(JSON.stringify(options), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=60',
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof BoxError) {
+      const errorResponse: ErrorResponse = { error: error.message };
+      return new Response(JSON.stringify(errorResponse), {
+        status: error.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.error('Persona list error:', error);
+
+    const errorResponse: ErrorResponse = { error: 'Failed to load personas' };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -1,9 +1,11 @@
 import { Env } from '../types/env';
 import { PreviewRequest, PreviewResponse, ErrorResponse, ValidationLimits } from '../types/api';
-import { RateLimiter, RateLimitError } from '../lib/rate-limiter';
+import { RateLimitError } from '../lib/rate-limiter';
+import { getRateLimitPolicies, getRateLimiter } from '../lib/rate-limit-policies';
+import { rateLimitExceededHeaders, rateLimitHeaders } from '../lib/rate-limit-headers';
 import { PersonaTransformer, AIPersonaTransformerError } from '../lib/ai-persona-transformer';
-
-const rateLimiter = new RateLimiter();
+import { ModerationError } from '../lib/moderation';
+import { BoxError, requireBox, isPersonaAllowed, isValidBoxId } from '../lib/boxes';
 
 export async function handlePreview(
   request: Request,
@@ -19,10 +21,18 @@ export async function handlePreview(
       return createErrorResponse(validationError.error, validationError.status);
     }
 
-    const { message, persona, customPersona } = body;
+    const { message, persona, customPersona, boxId } = body;
+
+    if (boxId !== undefined) {
+      const box = await requireBox(boxId, env);
+      if (!isPersonaAllowed(box, persona, customPersona)) {
+        return createErrorResponse('This persona is not available for this comment box', 400);
+      }
+    }
 
-    // Check rate limiting
-    const rateLimitKey = rateLimiter.generateKey(request);
+    // Check the preview bucket, so trying personas doesn't use up submissions
+    const rateLimiter = getRateLimiter('preview', env);
+    const rateLimitKey = await rateLimiter.generateKey(request, env);
     
     try {
       const rateLimitResult = await rateLimiter.checkLimit(rateLimitKey, env);
@@ -58,7 +68,9 @@ export async function handlePreview(
         rateLimitReset: rateLimitResult.reset,
         fallbackUsed: transformationResult.fallbackUsed,
         error: transformationResult.error,
-        emailPreview: emailPreview
+        emailPreview: emailPreview,
+        redactions: transformationResult.redactions,
+        moderation: transformationResult.moderation
       };
 
       // Log if transformation failed silently
@@ -72,31 +84,44 @@ export async function handlePreview(
 
       return new Response(JSON.stringify(response), {
         status: 200,
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...rateLimitHeaders(rateLimitResult) },
       });
 
     } catch (error) {
       if (error instanceof RateLimitError) {
+        const limit = getRateLimitPolicies(env).preview.maxRequests;
         return createErrorResponse(
           'Rate limit exceeded. Please try again later.',
           429,
           {
             rateLimitRemaining: 0,
             rateLimitReset: error.resetTime,
-            rateLimitLimit: ValidationLimits.RATE_LIMIT_MAX_REQUESTS
-          }
+            rateLimitLimit: limit
+          },
+          rateLimitExceededHeaders(limit, error.resetTime)
         );
       }
       throw error;
     }
 
   } catch (error) {
+    if (error instanceof ModerationError) {
+      return createErrorResponse(error.message, error.status, {
+        code: error.code,
+        details: error.verdict.reasons
+      });
+    }
+
     console.error('Preview error:', error);
     
     if (error instanceof AIPersonaTransformerError) {
       return createErrorResponse(error.message, 400);
     }
 
+    if (error instanceof BoxError) {
+      return createErrorResponse(error.message, error.status);
+    }
+
     if (error instanceof SyntaxError) {
       return createErrorResponse('Invalid JSON in request body', 400);
     }
@@ -130,6 +155,10 @@ function validatePreviewRequest(body: any): { error: string; status: number } |
     return { error: 'Persona must be a string', status: 400 };
   }
 
+  if (body.boxId !== undefined && !isValidBoxId(body.boxId)) {
+    return { error: 'Invalid box ID', status: 400 };
+  }
+
   if (body.customPersona) {
     if (typeof body.customPersona !== 'string') {
       return { error: 'Custom persona must be a string', status: 400 };
@@ -148,7 +177,12 @@ function formatEmailPreview(message: string, env: Env): string {
   return message;
 }
 
-function createErrorResponse(message: string, status: number, additionalData?: any): Response {
+function createErrorResponse(
+  message: string,
+  status: number,
+  additionalData?: any,
+  headers: Record<string, string> = {}
+): Response {
   const errorResponse: ErrorResponse & any = {
     error: message,
     ...additionalData
@@ -156,6 +190,6 @@ function createErrorResponse(message: string, status: number, additionalData?: a
 
   return new Response(JSON.stringify(errorResponse), {
     status,
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...headers },
   });
 }
\ No newline at end of file
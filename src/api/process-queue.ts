@@ -7,8 +7,7 @@ export async function handleProcessQueue(
   ctx: ExecutionContext
 ): Promise<Response> {
   try {
-    // This endpoint should only be called by Cloudflare's scheduled workers
-    // For security, we could add an authorization header check here
+    // Called by the scheduled worker directly; HTTP callers are checked against ADMIN_TOKEN in index.ts
     
     console.log('Processing queued messages...');
     const result = await processQueuedMessages(env);
@@ -1,8 +1,6 @@
 import { Env } from '../types/env';
-import { RateLimitStatus, ErrorResponse } from '../types/api';
-import { RateLimiter } from '../lib/rate-limiter';
-
-const rateLimiter = new RateLimiter();
+import { RateLimitStatus, RateLimitBucketStatus, ErrorResponse } from '../types/api';
+import { getRateLimitPolicies, getRateLimiter, RATE_LIMIT_POLICY_NAMES } from '../lib/rate-limit-policies';
 
 export async function handleRateLimitStatus(
   request: Request,
@@ -10,16 +8,26 @@ export async function handleRateLimitStatus(
   _ctx: ExecutionContext
 ): Promise<Response> {
   try {
-    // Generate rate limit key for the current request
-    const rateLimitKey = rateLimiter.generateKey(request);
-    
-    // Get current rate limit status
-    const status = await rateLimiter.getStatus(rateLimitKey, env);
+    const policies = getRateLimitPolicies(env);
+    const buckets: Record<string, RateLimitBucketStatus> = {};
+
+    // Report every bucket without counting against any of them
+    for (const name of RATE_LIMIT_POLICY_NAMES) {
+      const rateLimiter = getRateLimiter(name, env);
+      const status = await rateLimiter.getStatus(await rateLimiter.generateKey(request, env), env);
+      buckets[name] = {
+        remaining: status.remaining,
+        reset: status.reset,
+        limit: status.limit,
+        windowMs: policies[name].windowMs
+      };
+    }
 
     const response: RateLimitStatus = {
-      remaining: status.remaining,
-      reset: status.reset,
-      limit: status.limit
+      remaining: buckets.preview.remaining,
+      reset: buckets.preview.reset,
+      limit: buckets.preview.limit,
+      buckets
     };
 
     return new Response(JSON.stringify(response), {
@@ -0,0 +1,157 @@
+import { Env } from '../types/env';
+import { ReplyRequest, ReplyThreadResponse, ValidationLimits } from '../types/api';
+import { ReplyError, ReplyThread, addReplyEntry, openReplyThread } from '../lib/replies';
+import { queueMessage } from '../lib/queue';
+import { createReceipt } from '../lib/receipts';
+import { holdForReview, shouldHoldForReview } from '../lib/review';
+import { CommentBox, getBox } from '../lib/boxes';
+import { RateLimitError } from '../lib/rate-limiter';
+import { getRateLimitPolicies, getRateLimiter } from '../lib/rate-limit-policies';
+import { rateLimitExceededHeaders, rateLimitHeaders } from '../lib/rate-limit-headers';
+import { PersonaTransformer, AIPersonaTransformerError } from '../lib/ai-persona-transformer';
+import { ModerationError } from '../lib/moderation';
+import { ChallengeError, createChallengeVerifier } from '../lib/challenge';
+
+/**
+ * Anonymous conversations on messages sent with allowReplies. Either side's token opens the thread:
+ *   GET  /api/replies   the thread, with the token in an X-Reply-Token header
+ *   POST /api/replies   add a message: {"token": "...", "message": "...", "challenge": {...}}
+ *
+ * Recipient replies are stored as written. Sender responses go through the challenge, the thread's
+ * persona, moderation and the delivery queue like any other submission, and join the thread once delivered.
+ */
+export async function handleReplies(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  try {
+    switch (request.method) {
+      case 'GET': {
+        const { thread, role } = await openReplyThread(request.headers.get('X-Reply-Token'), env);
+        const response: ReplyThreadResponse = { role, messages: thread.entries };
+        return jsonResponse(response, 200, { 'Cache-Control': 'no-store' });
+      }
+
+      case 'POST': {
+        const body = await request.json() as Partial<ReplyRequest>;
+        const { thread, role } = await openReplyThread(body?.token, env);
+
+        if (role === 'recipient') {
+          const entry = await addReplyEntry(thread, 'recipient', body.message, env);
+          return jsonResponse({ success: true, entry });
+        }
+        return await handleSenderResponse(request, thread, body, env, ctx);
+      }
+
+      default:
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+  } catch (error) {
+    if (error instanceof ReplyError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Invalid JSON in request body' }, 400);
+    }
+
+    console.error('Replies error:', error);
+    return jsonResponse({ error: 'Failed to process reply' }, 500);
+  }
+}
+
+async function handleSenderResponse(
+  request: Request,
+  thread: ReplyThread,
+  body: Partial<ReplyRequest>,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  const message = typeof body.message === 'string' ? body.message.trim() : '';
+  if (!message) {
+    throw new ReplyError('Message is required');
+  }
+  if (message.length > ValidationLimits.MESSAGE_MAX_LENGTH) {
+    throw new ReplyError(`Message too long (max ${ValidationLimits.MESSAGE_MAX_LENGTH} characters)`);
+  }
+
+  // Keep the response held rather than let it fall back to the default recipient
+  let box: CommentBox | undefined;
+  if (thread.boxId) {
+    box = await getBox(thread.boxId, env) ?? undefined;
+    if (!box) {
+      throw new ReplyError('This comment box no longer exists', 409);
+    }
+  }
+
+  // Responses are submissions too, so they need a solved challenge and share the submit bucket
+  const challengeVerifier = createChallengeVerifier(env);
+  if (challengeVerifier) {
+    try {
+      await challengeVerifier.verify(body.challenge, env);
+    } catch (error) {
+      if (error instanceof ChallengeError) {
+        return jsonResponse({
+          success: false,
+          error: error.message,
+          code: error.code,
+          challenge: await challengeVerifier.issue(env)
+        }, error.status);
+      }
+      throw error;
+    }
+  }
+
+  const rateLimiter = getRateLimiter('submit', env);
+  let rateLimitResult;
+  try {
+    rateLimitResult = await rateLimiter.checkLimit(await rateLimiter.generateKey(request, env), env);
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      return jsonResponse({ success: false, error: 'Rate limit exceeded. Please try again later.' }, 429,
+        rateLimitExceededHeaders(getRateLimitPolicies(env).submit.maxRequests, error.resetTime));
+    }
+    throw error;
+  }
+
+  let transformed;
+  try {
+    transformed = await new PersonaTransformer(env).transformMessage(message, thread.persona || '', thread.customPersona);
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      return jsonResponse({
+        success: false,
+        error: error.message,
+        code: error.code,
+        details: error.verdict.reasons
+      }, error.status);
+    }
+    if (error instanceof AIPersonaTransformerError) {
+      return jsonResponse({ success: false, error: error.message }, 503);
+    }
+    throw error;
+  }
+  // The fallback is the sender's own wording, so it is never delivered
+  if (transformed.fallbackUsed) {
+    return jsonResponse({ success: false, error: 'AI transformation temporarily unavailable. Please try again later.' }, 503);
+  }
+
+  const receipt = await createReceipt();
+  const options = { replyThreadId: thread.id, receiptId: receipt.receiptId };
+  if (shouldHoldForReview(transformed.moderation, env, box)) {
+    await holdForReview(transformed.transformedMessage, transformed.moderation, env, box, options);
+  } else {
+    await queueMessage(transformed.transformedMessage, env, ctx, false, box, options);
+  }
+
+  return jsonResponse({ success: true, receipt: receipt.code }, 200, rateLimitHeaders(rateLimitResult));
+}
+
+function jsonResponse(data: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
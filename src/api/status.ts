@@ -0,0 +1,48 @@
+import { Env } from '../types/env';
+import { ErrorResponse, StatusResponse } from '../types/api';
+import { getReceiptStatus } from '../lib/receipts';
+import { getPathParams } from '../lib/path-params';
+
+/**
+ * Coarse delivery status for a receipt code: queued, delivered, failed or held for review
+ */
+export async function handleGetStatus(
+  request: Request,
+  env: Env,
+  _ctx: ExecutionContext
+): Promise<Response> {
+  try {
+    const params = getPathParams(new URL(request.url).pathname, '/api/status');
+    if (!params) {
+      const errorResponse: ErrorResponse = { error: 'Invalid receipt code' };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const status = params.length === 1 ? await getReceiptStatus(params[0], env) : null;
+    if (!status) {
+      const errorResponse: ErrorResponse = { error: 'Receipt not found' };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const response: StatusResponse = { status };
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    });
+
+  } catch (error) {
+    console.error('Status lookup error:', error);
+
+    const errorResponse: ErrorResponse = { error: 'Failed to load status' };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -1,11 +1,17 @@
 import { Env } from '../types/env';
 // import { transformMessage } from '../lib/ai-transform'; // No longer needed - using PersonaTransformer for all transformations
 import { queueMessage } from '../lib/queue';
-import { SubmitRequest, SubmitResponse, ValidationLimits } from '../types/api';
-import { RateLimiter, RateLimitError } from '../lib/rate-limiter';
+import { SubmitRequest, SubmitResponse, ValidationLimits, ModerationVerdict } from '../types/api';
+import { RateLimitError } from '../lib/rate-limiter';
+import { getRateLimitPolicies, getRateLimiter } from '../lib/rate-limit-policies';
+import { rateLimitExceededHeaders, rateLimitHeaders } from '../lib/rate-limit-headers';
 import { PersonaTransformer, AIPersonaTransformerError } from '../lib/ai-persona-transformer';
-
-const rateLimiter = new RateLimiter();
+import { ModerationError } from '../lib/moderation';
+import { ChallengeError, createChallengeVerifier } from '../lib/challenge';
+import { holdForReview, shouldHoldForReview } from '../lib/review';
+import { createReplyThread } from '../lib/replies';
+import { createReceipt } from '../lib/receipts';
+import { CommentBox, BoxError, requireBox, isPersonaAllowed, isValidBoxId } from '../lib/boxes';
 
 export async function handleSubmission(
   request: Request,
@@ -24,7 +30,7 @@ export async function handleSubmission(
       });
     }
 
-    const { message: rawMessage, persona, customPersona, sessionId } = body;
+    const { message: rawMessage, persona, customPersona, sessionId, boxId, allowReplies } = body;
     const message = rawMessage.trim();
 
     // Validate message length
@@ -50,8 +56,62 @@ export async function handleSubmission(
       });
     }
 
-    // Check rate limit using new rate limiter
-    const rateLimitKey = rateLimiter.generateKey(request);
+    // Resolve the target comment box, if any
+    let box: CommentBox | undefined;
+    if (boxId !== undefined) {
+      if (!isValidBoxId(boxId)) {
+        return new Response(JSON.stringify({ error: 'Invalid box ID' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      try {
+        box = await requireBox(boxId, env);
+      } catch (error) {
+        if (error instanceof BoxError) {
+          return new Response(JSON.stringify({ success: false, error: error.message }), {
+            status: error.status,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        throw error;
+      }
+
+      if (!isPersonaAllowed(box, persona, customPersona)) {
+        return new Response(JSON.stringify({ success: false, error: 'This persona is not available for this comment box' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    // Require a solved challenge, when enabled, before the message counts against any limit
+    const challengeVerifier = createChallengeVerifier(env);
+    if (challengeVerifier) {
+      try {
+        await challengeVerifier.verify(body.challenge, env);
+      } catch (error) {
+        if (error instanceof ChallengeError) {
+          const response: SubmitResponse = {
+            success: false,
+            error: error.message,
+            code: error.code,
+            // A fresh challenge, so the client can solve it and retry without another request
+            challenge: await challengeVerifier.issue(env)
+          };
+          return new Response(JSON.stringify(response), {
+            status: error.status,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        throw error;
+      }
+    }
+
+    // Check the submit bucket, which is separate from previews
+    const rateLimiter = getRateLimiter('submit', env);
+    const rateLimitKey = await rateLimiter.generateKey(request, env);
     let rateLimitResult;
     
     try {
@@ -66,7 +126,10 @@ export async function handleSubmission(
         };
         return new Response(JSON.stringify(response), {
           status: 429,
-          headers: { 'Content-Type': 'application/json' },
+          headers: {
+            'Content-Type': 'application/json',
+            ...rateLimitExceededHeaders(getRateLimitPolicies(env).submit.maxRequests, error.resetTime),
+          },
         });
       }
       throw error;
@@ -74,6 +137,7 @@ export async function handleSubmission(
 
     // Transform message with AI (using new persona system if specified, fallback to old system)
     let transformedMessage: string;
+    let moderation: ModerationVerdict | undefined;
     try {
       // Check if AI service is configured
       let personaTransformer: PersonaTransformer;
@@ -92,26 +156,37 @@ export async function handleSubmission(
         throw error;
       }
       
-      if (persona || customPersona) {
-        // Use new persona transformer
-        const transformationResult = await personaTransformer.transformMessage(
-          message,
-          persona || '',
-          customPersona
-        );
-        transformedMessage = transformationResult.transformedMessage;
-      } else {
-        // Fallback to existing transformation system with random persona
-        const presetPersonas = ['internet-random', 'barely-literate', 'extremely-serious', 'super-nice'];
-        const randomPersona = presetPersonas[Math.floor(Math.random() * presetPersonas.length)];
-        const transformationResult = await personaTransformer.transformMessage(
-          message,
-          randomPersona,
-          undefined
-        );
-        transformedMessage = transformationResult.transformedMessage;
+      // With no persona the transformer anonymizes the message's writing style
+      const transformationResult = await personaTransformer.transformMessage(
+        message,
+        persona || '',
+        customPersona
+      );
+      // The fallback is the sender's own wording, so it is never delivered
+      if (transformationResult.fallbackUsed) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'AI transformation temporarily unavailable. Please try again later.'
+        }), {
+          status: 503,
+          headers: { 'Content-Type': 'application/json' },
+        });
       }
+      transformedMessage = transformationResult.transformedMessage;
+      moderation = transformationResult.moderation;
     } catch (error) {
+      if (error instanceof ModerationError) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.verdict.reasons
+        }), {
+          status: error.status,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
       console.error('AI transformation failed:', error);
       
       if (error instanceof AIPersonaTransformerError) {
@@ -133,19 +208,35 @@ export async function handleSubmission(
       });
     }
 
-    // Queue message with random delay (or immediate if test mode)
-    await queueMessage(transformedMessage, env, ctx, testMode);
+    // The thread holds only a hash of the token, so this response is the sender's only copy
+    const replyThread = allowReplies === true
+      ? await createReplyThread(env, { origin: new URL(request.url).origin, box, persona, customPersona })
+      : undefined;
+
+    // Lets the sender check on delivery without resending
+    const receipt = await createReceipt();
+    const queueOptions = { replyThreadId: replyThread?.threadId, receiptId: receipt.receiptId };
+
+    if (shouldHoldForReview(moderation, env, box)) {
+      // A reviewer approves it into the queue later, with a fresh random delay
+      await holdForReview(transformedMessage, moderation, env, box, queueOptions);
+    } else {
+      // Queue message with random delay (or immediate if test mode)
+      await queueMessage(transformedMessage, env, ctx, testMode, box, queueOptions);
+    }
 
     // Return success response with rate limit info
     const response: SubmitResponse = {
       success: true,
       rateLimitRemaining: rateLimitResult.remaining,
-      rateLimitReset: rateLimitResult.reset
+      rateLimitReset: rateLimitResult.reset,
+      receipt: receipt.code,
+      replyToken: replyThread?.token
     };
 
     return new Response(JSON.stringify(response), {
       status: 200,
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...rateLimitHeaders(rateLimitResult) },
     });
 
   } catch (error) {
@@ -2,8 +2,16 @@ import { Env } from './types/env';
 import { handleSubmission } from './api/submit';
 import { handlePreview } from './api/preview';
 import { handleRateLimitStatus } from './api/rate-limit-status';
+import { handleGetBox } from './api/boxes';
+import { handleGetPersonas } from './api/personas';
+import { handleGetChallenge } from './api/challenge';
+import { handleReplies } from './api/replies';
+import { handleGetStatus } from './api/status';
 import { handleStaticAssets } from './lib/static';
-import { AIClientError } from './lib/ai-client';
+import { AIClientError, createAIClient } from './lib/ai-client';
+import { RateLimitError, RateLimitResult } from './lib/rate-limiter';
+import { getRateLimitPolicies, getRateLimiter } from './lib/rate-limit-policies';
+import { RATE_LIMIT_HEADER_NAMES, rateLimitExceededHeaders, rateLimitHeaders } from './lib/rate-limit-headers';
 import { 
   handleDebugEmailStatus, 
   handleDebugQueueStatus, 
@@ -11,6 +19,15 @@ import {
   handleDebugSendTestEmail 
 } from './api/debug';
 import { handleProcessQueue } from './api/process-queue';
+import { handleAdminBoxes } from './api/admin-boxes';
+import { handleAdminDeadLetters } from './api/admin-dead-letters';
+import { handleAdminPersonas } from './api/admin-personas';
+import { handleAdminReview } from './api/admin-review';
+import { AdminAuthError, authorizeAdmin, isAdminRoute, isDebugRoute } from './lib/admin-auth';
+import { DeliveryQueueMessage, handleDeliveryBatch } from './lib/scheduler';
+
+export { RateLimiterDurableObject } from './lib/rate-limiter-object';
+export { DeliverySchedulerDurableObject } from './lib/delivery-scheduler-object';
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
@@ -31,7 +48,8 @@ export default {
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, X-Session-ID',
+      'Access-Control-Allow-Headers': 'Content-Type, X-Session-ID, X-Reply-Token',
+      'Access-Control-Expose-Headers': RATE_LIMIT_HEADER_NAMES.join(', '),
     };
 
     // Handle CORS preflight
@@ -41,6 +59,33 @@ export default {
     }
 
     try {
+      // Debug-only routes exist only in development, so a deploy without ENVIRONMENT never serves them
+      if (isDebugRoute(url.pathname) && env.ENVIRONMENT !== 'development') {
+        return new Response(JSON.stringify({ error: 'Not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        });
+      }
+
+      // Operational routes require the admin token
+      if (isAdminRoute(url.pathname)) {
+        try {
+          await authorizeAdmin(request, env);
+        } catch (error) {
+          if (error instanceof AdminAuthError) {
+            return new Response(JSON.stringify({ error: error.message }), {
+              status: error.status,
+              headers: {
+                'Content-Type': 'application/json',
+                'WWW-Authenticate': 'Bearer',
+                ...corsHeaders,
+              },
+            });
+          }
+          throw error;
+        }
+      }
+
       // API Routes
       if (url.pathname === '/api/submit' && request.method === 'POST') {
         console.log('🚀 Worker Debug - Matched /api/submit route');
@@ -73,6 +118,50 @@ export default {
         return response;
       }
 
+      // Public comment box info
+      if (url.pathname.startsWith('/api/boxes/') && request.method === 'GET') {
+        const response = await handleGetBox(request, env, ctx);
+        Object.entries(corsHeaders).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+        return response;
+      }
+
+      // Public persona list for the persona picker
+      if (url.pathname === '/api/personas' && request.method === 'GET') {
+        const response = await handleGetPersonas(request, env, ctx);
+        Object.entries(corsHeaders).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+        return response;
+      }
+
+      if (url.pathname === '/api/challenge' && request.method === 'GET') {
+        const response = await handleGetChallenge(request, env, ctx);
+        Object.entries(corsHeaders).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+        return response;
+      }
+
+      // Delivery status for a submission receipt
+      if (url.pathname.startsWith('/api/status/') && request.method === 'GET') {
+        const response = await handleGetStatus(request, env, ctx);
+        Object.entries(corsHeaders).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+        return response;
+      }
+
+      // Anonymous reply threads, opened with the sender's or recipient's token
+      if (url.pathname === '/api/replies') {
+        const response = await handleReplies(request, env, ctx);
+        Object.entries(corsHeaders).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+        return response;
+      }
+
       // Test endpoint for immediate email delivery
       if (url.pathname === '/api/test-submit' && request.method === 'POST') {
         const response = await handleSubmission(request, env, ctx, true); // Enable test mode
@@ -96,48 +185,34 @@ export default {
             });
           }
           
-          // Use the new AI API URL
+          let rateLimitResult: RateLimitResult;
           try {
-            const aiResponse = await fetch('https://ai.emilycogsdill.com/api/chat', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${env.AI_WORKER_API_SECRET_KEY}`,
-              },
-              body: JSON.stringify({
-                messages: [{ role: 'user', content: message }],
-                model: '@cf/meta/llama-3.1-8b-instruct',
-                temperature: 0.7,
-                max_tokens: 100
-              })
-            });
-            
-            if (!aiResponse.ok) {
-              return new Response(JSON.stringify({ 
-                error: `AI worker returned ${aiResponse.status}: ${aiResponse.statusText}`,
-                debug: `Response headers: ${JSON.stringify(Array.from(aiResponse.headers.entries()))}`
-              }), {
-                status: 500,
-                headers: { 'Content-Type': 'application/json', ...corsHeaders },
+            const rateLimiter = getRateLimiter('chat', env);
+            rateLimitResult = await rateLimiter.checkLimit(await rateLimiter.generateKey(request, env), env);
+          } catch (error) {
+            if (error instanceof RateLimitError) {
+              return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }), {
+                status: 429,
+                headers: {
+                  'Content-Type': 'application/json',
+                  ...corsHeaders,
+                  ...rateLimitExceededHeaders(getRateLimitPolicies(env).chat.maxRequests, error.resetTime),
+                },
               });
             }
-            
-            const aiData = await aiResponse.json() as any;
-            const reply = aiData.choices?.[0]?.message?.content || 'No response content';
-            
-            return new Response(JSON.stringify({ response: reply }), {
-              headers: { 'Content-Type': 'application/json', ...corsHeaders },
-            });
-          } catch (fetchError) {
-            console.error('Workers.dev fetch error:', fetchError);
-            return new Response(JSON.stringify({ 
-              error: `Workers.dev fetch error: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`,
-              debug: `Trying to reach ai.emilycogsdill.com`
-            }), {
-              status: 500,
-              headers: { 'Content-Type': 'application/json', ...corsHeaders },
-            });
+            throw error;
           }
+          
+          const completion = await createAIClient(env).chatCompletion({
+            messages: [{ role: 'user', content: message }],
+            temperature: 0.7,
+            max_tokens: 100,
+          });
+          const reply = completion.choices?.[0]?.message?.content || 'No response content';
+          
+          return new Response(JSON.stringify({ response: reply }), {
+            headers: { 'Content-Type': 'application/json', ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+          });
         } catch (error) {
           console.error('Chat API error:', error);
           
@@ -202,6 +277,42 @@ export default {
         return response;
       }
 
+      // Comment box administration
+      if (url.pathname === '/api/admin/boxes' || url.pathname.startsWith('/api/admin/boxes/')) {
+        const response = await handleAdminBoxes(request, env, ctx);
+        Object.entries(corsHeaders).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+        return response;
+      }
+
+      // Persona registry administration
+      if (url.pathname === '/api/admin/personas' || url.pathname.startsWith('/api/admin/personas/')) {
+        const response = await handleAdminPersonas(request, env, ctx);
+        Object.entries(corsHeaders).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+        return response;
+      }
+
+      // Failed delivery administration
+      if (url.pathname === '/api/admin/dead-letters' || url.pathname.startsWith('/api/admin/dead-letters/')) {
+        const response = await handleAdminDeadLetters(request, env, ctx);
+        Object.entries(corsHeaders).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+        return response;
+      }
+
+      // Review queue for held messages
+      if (url.pathname === '/api/admin/review' || url.pathname.startsWith('/api/admin/review/')) {
+        const response = await handleAdminReview(request, env, ctx);
+        Object.entries(corsHeaders).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+        return response;
+      }
+
       // AI test page
       if (url.pathname === '/ai-test') {
         return handleStaticAssets(request, url);
@@ -241,4 +352,9 @@ export default {
       console.error('Scheduled worker error:', error);
     }
   },
+
+  // Consumer for DELIVERY_QUEUE when DELIVERY_SCHEDULER is 'queues'
+  async queue(batch: MessageBatch<DeliveryQueueMessage>, env: Env): Promise<void> {
+    await handleDeliveryBatch(batch, env);
+  },
 };
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { Env } from '../types/env';
+
+export class AdminAuthError extends Error {
+  constructor(message: string, public readonly status: number = 401) {
+    super(message);
+    this.name = 'AdminAuthError';
+  }
+}
+
+// Routes that expose queue contents, credentials or delivery controls
+const ADMIN_ROUTE_PREFIXES = ['/api/debug/', '/api/admin/'];
+const ADMIN_ROUTES = ['/api/process-queue'];
+
+// Routes that only exist when ENVIRONMENT is development
+const DEBUG_ROUTE_PREFIXES = ['/api/debug/'];
+const DEBUG_ROUTES = ['/api/test-submit'];
+
+export function isAdminRoute(pathname: string): boolean {
+  return ADMIN_ROUTES.includes(pathname) ||
+    ADMIN_ROUTE_PREFIXES.some(prefix => pathname.startsWith(prefix));
+}
+
+export function isDebugRoute(pathname: string): boolean {
+  return DEBUG_ROUTES.includes(pathname) ||
+    DEBUG_ROUTE_PREFIXES.some(prefix => pathname.startsWith(prefix));
+}
+
+/**
+ * Verify the request carries `Authorization: Bearer <ADMIN_TOKEN>`
+ */
+export async function authorizeAdmin(request: Request, env: Env): Promise<void> {
+  if (!env.ADMIN_TOKEN) {
+    throw new AdminAuthError('Admin API is not configured', 503);
+  }
+
+  const header = request.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    throw new AdminAuthError('Missing bearer token');
+  }
+
+  if (!(await constantTimeEqual(match[1].trim(), env.ADMIN_TOKEN))) {
+    throw new AdminAuthError('Invalid admin token', 403);
+  }
+}
+
+/**
+ * Compare two secrets without leaking their length or common prefix through timing.
+ * Both sides are hashed first so the byte comparison always runs over 32 bytes.
+ */
+export async function constantTimeEqual(a: string, b: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const [hashA, hashB] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(a)),
+    crypto.subtle.digest('SHA-256', encoder.encode(b)),
+  ]);
+
+  const bytesA = new Uint8Array(hashA);
+  const bytesB = new Uint8Array(hashB);
+  let diff = 0;
+  for (let i = 0; i < bytesA.length; i++) {
+    diff |= bytesA[i] ^ bytesB[i];
+  }
+  return diff === 0;
+}
@@ -52,16 +52,37 @@ export class AIClientError extends Error {
   }
 }
 
-export class AIClient {
+export type AIProviderType = 'ai-worker' | 'openai' | 'workers-ai' | 'echo';
+
+export const AI_PROVIDER_TYPES: AIProviderType[] = ['ai-worker', 'openai', 'workers-ai', 'echo'];
+
+export interface AIProvider {
+  readonly name: AIProviderType;
+  readonly defaultModel: string;
+  chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse>;
+  simpleChat?(message: string, systemPrompt?: string): Promise<string>;
+}
+
+const DEFAULT_AI_WORKER_URL = 'https://ai.emilycogsdill.com';
+const DEFAULT_WORKERS_AI_MODEL = '@cf/meta/llama-3.1-8b-instruct';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * The private AI worker (default). It takes a single user message, so system prompts
+ * are folded into the user content.
+ */
+export class AIWorkerProvider implements AIProvider {
+  readonly name = 'ai-worker' as const;
+  readonly defaultModel = DEFAULT_WORKERS_AI_MODEL;
   private readonly apiUrl: string;
   private readonly apiKey: string;
 
   constructor(env: Env) {
-    this.apiUrl = 'https://ai.emilycogsdill.com';
+    this.apiUrl = trimTrailingSlash(env.AI_BASE_URL || DEFAULT_AI_WORKER_URL);
     this.apiKey = env.AI_WORKER_API_SECRET_KEY;
     console.log('🤖 AI Client Debug - Constructor - API URL:', this.apiUrl);
     console.log('🤖 AI Client Debug - Constructor - API Key present:', !!this.apiKey);
-    console.log('🤖 AI Client Debug - Constructor - Environment keys:', Object.keys(env));
   }
 
   /**
@@ -69,54 +90,150 @@ export class AIClient {
    */
   async chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
     const url = `${this.apiUrl}/api/chat`;
-    
-    try {
-      console.log('🤖 AI Client Debug - Making request to:', url);
-      console.log('🤖 AI Client Debug - API Key present:', !!this.apiKey);
-      console.log('🤖 AI Client Debug - API Key length:', this.apiKey?.length || 0);
-      console.log('🤖 AI Client Debug - Request body:', JSON.stringify(request, null, 2));
-      
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify(request),
-        // Add timeout to prevent hanging
-        signal: AbortSignal.timeout(30000), // 30 second timeout
-      });
-
-      console.log('🤖 AI Client Debug - Response status:', response.status);
-      console.log('🤖 AI Client Debug - Response headers:', Object.fromEntries(response.headers.entries()));
-
-      if (!response.ok) {
-        console.log('🤖 AI Client Debug - Response not OK, handling error...');
-        await this.handleApiError(response);
-      }
+    const body: ChatCompletionRequest = { ...request, messages: foldSystemPrompt(request.messages) };
+
+    console.log('🤖 AI Client Debug - Making request to:', url);
+    console.log('🤖 AI Client Debug - Request body:', JSON.stringify(body, null, 2));
+
+    const data = await postJson<ChatCompletionResponse>(url, body, this.apiKey);
+    console.log('🤖 AI Client Debug - Response data:', JSON.stringify(data, null, 2));
+    return data;
+  }
 
-      const data = await response.json() as ChatCompletionResponse;
-      console.log('🤖 AI Client Debug - Response data:', JSON.stringify(data, null, 2));
-      return data;
+  /**
+   * Simple chat endpoint for basic completions
+   */
+  async simpleChat(message: string, systemPrompt?: string): Promise<string> {
+    const url = `${this.apiUrl}/api/v1/chat`;
+    console.log('🤖 AI Client Debug - Simple chat request to:', url);
+
+    const data = await postJson<{ response: string; error?: string }>(url, { message, systemPrompt }, this.apiKey);
+    if (data.error) {
+      throw new AIClientError(data.error, undefined, 'simple_chat_error', 'api_error');
+    }
+    return data.response;
+  }
+}
+
+/**
+ * Any OpenAI-compatible `/v1/chat/completions` endpoint (OpenAI, OpenRouter, Ollama, vLLM, ...)
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai' as const;
+  readonly defaultModel = DEFAULT_OPENAI_MODEL;
+  private readonly apiUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(env: Env) {
+    if (!env.AI_BASE_URL) {
+      throw new AIClientError('AI_BASE_URL is required for the openai provider', undefined, 'missing_base_url', 'configuration_error');
+    }
+    // Accept both https://host and https://host/v1
+    this.apiUrl = trimTrailingSlash(env.AI_BASE_URL).replace(/\/v1$/, '');
+    this.apiKey = env.AI_API_KEY;
+  }
+
+  async chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    return postJson<ChatCompletionResponse>(`${this.apiUrl}/v1/chat/completions`, request, this.apiKey);
+  }
+}
+
+/**
+ * The Cloudflare Workers AI binding (`[ai] binding = "AI"` in wrangler.toml)
+ */
+export class WorkersAIProvider implements AIProvider {
+  readonly name = 'workers-ai' as const;
+  readonly defaultModel = DEFAULT_WORKERS_AI_MODEL;
+
+  constructor(private env: Env) {
+    if (!env.AI) {
+      throw new AIClientError('The AI binding is required for the workers-ai provider', undefined, 'missing_binding', 'configuration_error');
+    }
+  }
+
+  async chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    const model = request.model || this.defaultModel;
+    let result: { response?: string };
+    try {
+      result = await this.env.AI!.run(model, {
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.max_tokens,
+      }) as { response?: string };
     } catch (error) {
-      console.log('🤖 AI Client Debug - Caught error:', error);
-      console.log('🤖 AI Client Debug - Error type:', error instanceof Error ? error.constructor.name : typeof error);
-      
-      if (error instanceof AIClientError) {
-        console.log('🤖 AI Client Debug - Re-throwing AIClientError');
-        throw error;
-      }
-      
-      // Handle network errors or other fetch errors
-      const errorMessage = `Failed to connect to AI worker API: ${error instanceof Error ? error.message : String(error)}`;
-      console.log('🤖 AI Client Debug - Creating new AIClientError:', errorMessage);
       throw new AIClientError(
-        errorMessage,
+        `Workers AI request failed: ${error instanceof Error ? error.message : String(error)}`,
         undefined,
-        'connection_error',
-        'network_error'
+        'workers_ai_error',
+        'api_error'
       );
     }
+
+    return toChatCompletionResponse(`workers-ai-${crypto.randomUUID()}`, model, result.response ?? '');
+  }
+}
+
+/**
+ * Deterministic offline provider for local development and tests. It returns the user's
+ * input with whitespace, capitalisation and final punctuation tidied, so previews work
+ * without any AI backend.
+ */
+export class EchoProvider implements AIProvider {
+  readonly name = 'echo' as const;
+  readonly defaultModel = 'echo';
+
+  async chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    const userMessages = request.messages.filter(message => message.role === 'user');
+    const input = extractUserInput(userMessages[userMessages.length - 1]?.content ?? '');
+    return toChatCompletionResponse('echo', this.defaultModel, applyEchoRules(input));
+  }
+}
+
+/**
+ * Resolve the provider from AI_PROVIDER (default `ai-worker`)
+ */
+export function getAIProviderType(env: Env): AIProviderType {
+  const provider = env.AI_PROVIDER || 'ai-worker';
+  if (!AI_PROVIDER_TYPES.includes(provider)) {
+    throw new AIClientError(
+      `Unknown AI provider: ${provider}. Expected one of: ${AI_PROVIDER_TYPES.join(', ')}`,
+      undefined,
+      'unknown_provider',
+      'configuration_error'
+    );
+  }
+  return provider;
+}
+
+export function createAIProvider(env: Env): AIProvider {
+  switch (getAIProviderType(env)) {
+    case 'openai':
+      return new OpenAICompatibleProvider(env);
+    case 'workers-ai':
+      return new WorkersAIProvider(env);
+    case 'echo':
+      return new EchoProvider();
+    case 'ai-worker':
+      return new AIWorkerProvider(env);
+  }
+}
+
+export class AIClient {
+  private readonly model: string;
+
+  constructor(env: Env, private readonly provider: AIProvider = createAIProvider(env)) {
+    this.model = env.AI_MODEL || provider.defaultModel;
+  }
+
+  get providerName(): AIProviderType {
+    return this.provider.name;
+  }
+
+  /**
+   * Make a chat completion request through the configured provider
+   */
+  async chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    return this.provider.chatCompletion({ ...request, model: request.model ?? this.model });
   }
 
   /**
@@ -132,32 +249,25 @@ export class AIClient {
       useSimpleEndpoint?: boolean;
     } = {}
   ): Promise<string> {
-    // For simple use cases, use the simpler /api/v1/chat endpoint
-    if (options.useSimpleEndpoint !== false && options.systemPrompt && !options.model) {
+    // For simple use cases, use the provider's simpler endpoint if it has one
+    if (this.provider.simpleChat && options.useSimpleEndpoint !== false && options.systemPrompt && !options.model) {
       try {
-        return await this.simpleChat(message, options.systemPrompt);
+        return await this.provider.simpleChat(message, options.systemPrompt);
       } catch (error) {
         console.log('🤖 AI Client Debug - Simple chat failed, falling back to full endpoint:', error);
         // Fall through to use the full chat completion endpoint
       }
     }
 
-    // Combine system prompt and user message into single user message for full endpoint
-    let combinedMessage = message;
-    if (options.systemPrompt) {
-      combinedMessage = `${options.systemPrompt}\n\nUser input: ${message}`;
-    }
+    const messages: ChatMessage[] = options.systemPrompt
+      ? [{ role: 'system', content: options.systemPrompt }, { role: 'user', content: message }]
+      : [{ role: 'user', content: message }];
 
     const request: ChatCompletionRequest = {
-      messages: [
-        {
-          role: 'user',
-          content: combinedMessage,
-        },
-      ],
+      messages,
       temperature: options.temperature ?? 0.7,
       max_tokens: options.max_tokens ?? 1024,
-      model: options.model ?? '@cf/meta/llama-3.1-8b-instruct',
+      model: options.model ?? this.model,
     };
 
     const response = await this.chatCompletion(request);
@@ -185,111 +295,136 @@ export class AIClient {
   }
 
   /**
-   * Handle API error responses
+   * Health check method to verify API connectivity
    */
-  private async handleApiError(response: Response): Promise<never> {
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    let errorCode = 'http_error';
-    let errorType = 'api_error';
-
-    // Handle specific error cases
-    if (response.status === 401) {
-      errorMessage = 'Authentication failed. Please check your API key.';
-      errorCode = 'invalid_api_key';
-      errorType = 'authentication_error';
-    } else if (response.status === 429) {
-      errorMessage = 'Rate limit exceeded. Please try again later.';
-      errorCode = 'rate_limit_exceeded';
-      errorType = 'rate_limit_error';
-      
-      // Check for Retry-After header
-      const retryAfter = response.headers.get('Retry-After');
-      if (retryAfter) {
-        errorMessage += ` Retry after ${retryAfter} seconds.`;
-      }
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await this.complete('Hello', { systemPrompt: 'Respond with a simple greeting.' });
+      return response.length > 0;
+    } catch (error) {
+      console.error('AI client health check failed:', error);
+      return false;
     }
+  }
+}
 
-    try {
-      const errorData = await response.json() as ApiError;
-      if (errorData.error) {
-        errorMessage = errorData.error.message || errorMessage;
-        errorCode = errorData.error.code || errorCode;
-        errorType = errorData.error.type || errorType;
-      }
-    } catch {
-      // If we can't parse the error response, use the default HTTP error message
+/**
+ * POST JSON to an AI endpoint, mapping HTTP and network failures to AIClientError
+ */
+async function postJson<T>(url: string, body: unknown, apiKey?: string): Promise<T> {
+  try {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
     }
 
-    throw new AIClientError(errorMessage, response.status, errorCode, errorType);
-  }
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      // Add timeout to prevent hanging
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
 
-  /**
-   * Simple chat endpoint for basic completions
-   */
-  async simpleChat(message: string, systemPrompt?: string): Promise<string> {
-    const url = `${this.apiUrl}/api/v1/chat`;
-    
-    try {
-      console.log('🤖 AI Client Debug - Simple chat request to:', url);
-      
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          message,
-          systemPrompt,
-        }),
-        signal: AbortSignal.timeout(30000), // 30 second timeout
-      });
-
-      console.log('🤖 AI Client Debug - Simple chat response status:', response.status);
-
-      if (!response.ok) {
-        await this.handleApiError(response);
-      }
+    if (!response.ok) {
+      await handleApiError(response);
+    }
 
-      const data = await response.json() as { response: string; error?: string };
-      
-      if (data.error) {
-        throw new AIClientError(
-          data.error,
-          response.status,
-          'simple_chat_error',
-          'api_error'
-        );
-      }
+    return await response.json() as T;
+  } catch (error) {
+    if (error instanceof AIClientError) {
+      throw error;
+    }
 
-      return data.response;
-    } catch (error) {
-      if (error instanceof AIClientError) {
-        throw error;
-      }
-      
-      const errorMessage = `Failed to connect to AI worker API: ${error instanceof Error ? error.message : String(error)}`;
-      throw new AIClientError(
-        errorMessage,
-        undefined,
-        'connection_error',
-        'network_error'
-      );
+    // Handle network errors or other fetch errors
+    throw new AIClientError(
+      `Failed to connect to AI API: ${error instanceof Error ? error.message : String(error)}`,
+      undefined,
+      'connection_error',
+      'network_error'
+    );
+  }
+}
+
+/**
+ * Handle API error responses
+ */
+async function handleApiError(response: Response): Promise<never> {
+  let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+  let errorCode = 'http_error';
+  let errorType = 'api_error';
+
+  // Handle specific error cases
+  if (response.status === 401) {
+    errorMessage = 'Authentication failed. Please check your API key.';
+    errorCode = 'invalid_api_key';
+    errorType = 'authentication_error';
+  } else if (response.status === 429) {
+    errorMessage = 'Rate limit exceeded. Please try again later.';
+    errorCode = 'rate_limit_exceeded';
+    errorType = 'rate_limit_error';
+    
+    // Check for Retry-After header
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+      errorMessage += ` Retry after ${retryAfter} seconds.`;
     }
   }
 
-  /**
-   * Health check method to verify API connectivity
-   */
-  async healthCheck(): Promise<boolean> {
-    try {
-      const response = await this.simpleChat('Hello', 'Respond with a simple greeting.');
-      return response.length > 0;
-    } catch (error) {
-      console.error('AI client health check failed:', error);
-      return false;
+  try {
+    const errorData = await response.json() as ApiError;
+    if (errorData.error) {
+      errorMessage = errorData.error.message || errorMessage;
+      errorCode = errorData.error.code || errorCode;
+      errorType = errorData.error.type || errorType;
     }
+  } catch {
+    // If we can't parse the error response, use the default HTTP error message
   }
+
+  throw new AIClientError(errorMessage, response.status, errorCode, errorType);
+}
+
+/**
+ * Fold system messages into the first user message for endpoints without a system role
+ */
+function foldSystemPrompt(messages: ChatMessage[]): ChatMessage[] {
+  const systemPrompt = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const rest = messages.filter(m => m.role !== 'system');
+  if (!systemPrompt || rest.length === 0 || rest[0].role !== 'user') {
+    return rest.length > 0 ? rest : messages;
+  }
+  return [{ role: 'user', content: `${systemPrompt}\n\nUser input: ${rest[0].content}` }, ...rest.slice(1)];
+}
+
+function toChatCompletionResponse(id: string, model: string, content: string): ChatCompletionResponse {
+  return {
+    id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  };
+}
+
+function extractUserInput(content: string): string {
+  const marker = 'User input: ';
+  const markerIndex = content.lastIndexOf(marker);
+  const input = markerIndex >= 0 ? content.slice(markerIndex + marker.length) : content;
+  return input.replace(/^Transform:\s*/, '');
+}
+
+function applyEchoRules(input: string): string {
+  const text = input.replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return text;
+  }
+  const capitalised = text.charAt(0).toUpperCase() + text.slice(1);
+  return /[.!?]$/.test(capitalised) ? capitalised : `${capitalised}.`;
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
 }
 
 /**
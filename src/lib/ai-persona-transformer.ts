@@ -1,82 +1,71 @@
 import { Env } from '../types/env';
-import { ValidationLimits } from '../types/api';
-import { createAIClient, AIClient, AIClientError } from './ai-client';
-import { truncateToWords, exceedsWordLimit } from './text-utils';
+import { ValidationLimits, Redaction, ModerationVerdict } from '../types/api';
+import { createAIClient, getAIProviderType, AIClient, AIClientError, ChatMessage } from './ai-client';
+import { truncateToWords, exceedsWordLimit, normalizeWritingStyle } from './text-utils';
+import { ModerationConfig, ModerationError, getModerationConfig, moderateContent } from './moderation';
+import { getRedactionPatterns, mergeRedactions, redactPII } from './redaction';
+import { DEFAULT_PERSONAS, DEFAULT_MAX_EXAMPLES, PersonaError, requirePersona } from './personas';
 
 export interface PersonaConfig {
   systemPrompt: string;
   examples: Array<{input: string; output: string}>;
   temperature: number;
+  maxExamples?: number;
 }
 
 export interface TransformationResult {
   transformedMessage: string;
   originalMessage: string;
   persona: string;
+  redactions: Redaction[];   // Personal details removed from the input or the AI output
+  moderation?: ModerationVerdict; // Verdict for the input; 'flag' reasons are passed on, 'block' throws
   fallbackUsed?: boolean;
   error?: string;
 }
 
-// Preset personas as specified in the PRD
-export const PRESET_PERSONAS: Record<string, PersonaConfig> = {
-  'internet-random': {
-    systemPrompt: 'Transform to casual internet slang with abbreviations, mild typos, and meme references. Output only the transformed message with no additional text or commentary.',
-    temperature: 0.8,
-    examples: [
-      {
-        input: 'I think this is a great idea and we should implement it.',
-        output: 'ngl this idea slaps 💯 we should def implement this fr fr'
-      },
-      {
-        input: 'This feature is broken and needs to be fixed.',
-        output: 'yo this feature is busted rn, needs fixing asap ngl'
-      }
-    ]
-  },
-  'barely-literate': {
-    systemPrompt: 'Transform to poor grammar, simple vocabulary, and informal structure. Use run-on sentences, missing punctuation, and basic words. Output only the transformed message with no additional text or commentary.',
-    temperature: 0.7,
-    examples: [
-      {
-        input: 'I disagree with this decision because it seems poorly thought out.',
-        output: 'i dont like this thing cuz it dont make sense to me and stuff'
-      },
-      {
-        input: 'The application performance is significantly degraded.',
-        output: 'the app is really slow and not working good at all'
-      }
-    ]
-  },
-  'extremely-serious': {
-    systemPrompt: 'Transform to formal, academic language with professional vocabulary and structure. Use complex sentence structures, formal tone, and precise terminology. Output only the transformed message with no additional text or commentary.',
-    temperature: 0.3,
-    examples: [
-      {
-        input: 'This is really bad and needs to be fixed.',
-        output: 'This matter requires immediate attention and systematic remediation to address the identified deficiencies.'
-      },
-      {
-        input: 'I like this idea a lot.',
-        output: 'I find this proposal to be exceptionally meritorious and worthy of serious consideration for implementation.'
-      }
-    ]
-  },
-  'super-nice': {
-    systemPrompt: 'Transform to overly polite, encouraging, and positive language. Add pleasantries, expressions of gratitude, and positive framing. Output only the transformed message with no additional text or commentary.',
-    temperature: 0.6,
-    examples: [
-      {
-        input: 'This feature is broken and frustrating.',
-        output: 'I hope this feedback is helpful! The feature might benefit from some adjustments as it seems to present challenges for users. Thank you for considering improvements! 😊'
-      },
-      {
-        input: 'I disagree with this approach.',
-        output: 'Thank you for sharing this approach! I was wondering if we might consider some alternative perspectives that could be equally valuable. I really appreciate the opportunity to discuss this! 💕'
-      }
-    ]
-  }
+// Built-in presets as PersonaConfig; the live set (including admin-added personas) is in the KV registry
+export const PRESET_PERSONAS: Record<string, PersonaConfig> = Object.fromEntries(
+  DEFAULT_PERSONAS.map(({ key, systemPrompt, examples, temperature, maxExamples }) => [
+    key,
+    { systemPrompt, examples, temperature, maxExamples },
+  ])
+);
+
+export const ANONYMIZE_PERSONA_KEY = 'anonymize';
+
+// Applied when no persona is chosen: removes the sender's writing fingerprint without adding a voice
+export const ANONYMIZE_PERSONA: PersonaConfig = {
+  systemPrompt: 'Rewrite the message in plain, neutral standard English so its author cannot be identified from their writing style. Use common vocabulary instead of distinctive words, slang or catchphrases. Use standard capitalization and punctuation with no emoji, emoticons or repeated punctuation. Use medium-length sentences, splitting very long ones and joining very short ones. Do not add humour, personality or a new tone. Keep every point, request and piece of information, and keep names and facts unchanged. Output only the rewritten message with no additional text or commentary.',
+  temperature: 0.3,
+  examples: [
+    {
+      input: 'honestly??? the new on-call rota is a JOKE lol. nobody asked us. again. 🙄',
+      output: 'The new on-call rota is not working well. The team was not consulted about it, and this has happened before.'
+    },
+    {
+      input: 'I would respectfully submit that the quarterly planning process, whilst well-intentioned, consistently fails to account for the considerable maintenance burden that our team carries, which in turn leads to deadlines that are, frankly, unachievable.',
+      output: 'The quarterly planning process does not account for the maintenance work our team does. As a result, the deadlines are not achievable.'
+    }
+  ]
 };
 
+/**
+ * Build the chat for a transformation: the system prompt, then up to `maxExamples`
+ * examples as user/assistant turns, then the message to transform
+ */
+export function buildPersonaMessages(config: PersonaConfig, message: string): ChatMessage[] {
+  const examples = config.examples.slice(0, config.maxExamples ?? DEFAULT_MAX_EXAMPLES);
+
+  return [
+    { role: 'system', content: config.systemPrompt },
+    ...examples.flatMap((example): ChatMessage[] => [
+      { role: 'user', content: example.input },
+      { role: 'assistant', content: example.output },
+    ]),
+    { role: 'user', content: message },
+  ];
+}
+
 export class AIPersonaTransformerError extends Error {
   constructor(message: string, public readonly cause?: Error) {
     super(message);
@@ -87,8 +76,8 @@ export class AIPersonaTransformerError extends Error {
 export class PersonaTransformer {
   private aiClient: AIClient;
 
-  constructor(env: Env) {
-    if (!env.AI_WORKER_API_SECRET_KEY) {
+  constructor(private env: Env) {
+    if (getAIProviderType(env) === 'ai-worker' && !env.AI_WORKER_API_SECRET_KEY) {
       throw new AIPersonaTransformerError('AI_WORKER_API_SECRET_KEY not configured. In development, create a .dev.vars file with your API key.');
     }
     
@@ -103,6 +92,16 @@ export class PersonaTransformer {
     persona: string,
     customPersona?: string
   ): Promise<TransformationResult> {
+    // With no persona, the message is anonymized rather than sent in the sender's own style
+    const anonymize = !persona && !customPersona;
+
+    // Redact before anything reaches the AI provider, so even the fallbacks below never see the raw text
+    const redactionPatterns = getRedactionPatterns(this.env);
+    const redacted = redactPII(typeof message === 'string' ? message : '', redactionPatterns);
+    const input = anonymize ? normalizeWritingStyle(redacted.text) : redacted.text;
+    const moderationConfig = getModerationConfig(this.env);
+    let moderation: ModerationVerdict | undefined;
+
     try {
       // Validate input
       if (!message || typeof message !== 'string') {
@@ -113,33 +112,28 @@ export class PersonaTransformer {
         throw new AIPersonaTransformerError(`Message too long (max ${ValidationLimits.MESSAGE_MAX_WORDS} words)`);
       }
 
-      // Apply content filtering
-      if (this.containsProblematicContent(message)) {
-        throw new AIPersonaTransformerError('Message contains inappropriate content');
-      }
-
-      // If no persona is specified, return original message
-      if (!persona && !customPersona) {
-        return {
-          transformedMessage: message,
-          originalMessage: message,
-          persona: 'none'
-        };
+      // Apply content moderation
+      moderation = await this.moderate(input, moderationConfig, 'message_blocked', 'Message contains inappropriate content');
+      if (customPersona) {
+        await this.moderate(customPersona, moderationConfig, 'custom_persona_blocked', 'Custom persona contains inappropriate content');
       }
 
-      const transformedMessage = await this.performTransformation(message, persona, customPersona);
+      const transformedMessage = await this.performTransformation(input, persona, customPersona);
       
-      // Validate and sanitize transformation result
-      const sanitizedResult = this.sanitizeTransformation(message, transformedMessage);
+      // Validate and sanitize transformation result, then redact anything the AI reintroduced
+      const sanitizedResult = await this.sanitizeTransformation(transformedMessage, moderationConfig);
+      const output = redactPII(sanitizedResult, redactionPatterns);
 
       return {
-        transformedMessage: sanitizedResult,
+        transformedMessage: output.text,
         originalMessage: message,
-        persona: customPersona ? 'custom' : persona
+        persona: this.resultPersona(persona, customPersona),
+        redactions: mergeRedactions(redacted.redactions, output.redactions),
+        moderation
       };
 
     } catch (error) {
-      if (error instanceof AIPersonaTransformerError) {
+      if (error instanceof AIPersonaTransformerError || error instanceof ModerationError) {
         throw error;
       }
 
@@ -152,9 +146,12 @@ export class PersonaTransformer {
       });
       
       return {
-        transformedMessage: message,
+        // Without the AI, anonymized messages still get the mechanical clean-up
+        transformedMessage: input,
         originalMessage: message,
-        persona: customPersona ? 'custom' : persona,
+        persona: this.resultPersona(persona, customPersona),
+        redactions: redacted.redactions,
+        moderation,
         fallbackUsed: true,
         error: 'AI transformation temporarily unavailable'
       };
@@ -169,26 +166,22 @@ export class PersonaTransformer {
     persona: string,
     customPersona?: string
   ): Promise<string> {
-    let systemPrompt: string;
-    let temperature: number;
-
+    let config: PersonaConfig;
     if (customPersona) {
-      systemPrompt = this.buildCustomPersonaPrompt(customPersona);
-      temperature = 0.7;
-    } else if (PRESET_PERSONAS[persona]) {
-      systemPrompt = PRESET_PERSONAS[persona].systemPrompt;
-      temperature = PRESET_PERSONAS[persona].temperature;
+      config = { systemPrompt: this.buildCustomPersonaPrompt(customPersona), examples: [], temperature: 0.7 };
+    } else if (!persona) {
+      config = ANONYMIZE_PERSONA;
     } else {
-      throw new AIPersonaTransformerError(`Unknown persona: ${persona}`);
+      config = await this.loadPersona(persona);
     }
 
     try {
-      const transformedMessage = await this.aiClient.complete(message, {
-        systemPrompt,
-        temperature,
-        max_tokens: 500,
-        model: '@cf/meta/llama-3.1-8b-instruct'
+      const response = await this.aiClient.chatCompletion({
+        messages: buildPersonaMessages(config, message),
+        temperature: config.temperature,
+        max_tokens: 500
       });
+      const transformedMessage = response.choices?.[0]?.message?.content;
 
       if (!transformedMessage || !transformedMessage.trim()) {
         throw new AIPersonaTransformerError('AI service returned empty response');
@@ -203,6 +196,28 @@ export class PersonaTransformer {
     }
   }
 
+  private resultPersona(persona: string, customPersona?: string): string {
+    if (customPersona) {
+      return 'custom';
+    }
+    return persona || ANONYMIZE_PERSONA_KEY;
+  }
+
+  /**
+   * Look up an enabled persona in the registry
+   */
+  private async loadPersona(persona: string): Promise<PersonaConfig> {
+    try {
+      return await requirePersona(persona, this.env);
+    } catch (error) {
+      if (error instanceof PersonaError) {
+        throw new AIPersonaTransformerError(error.message);
+      }
+      // Fail rather than fall back to the untransformed message
+      throw new AIPersonaTransformerError('Failed to load persona', error instanceof Error ? error : undefined);
+    }
+  }
+
   /**
    * Build system prompt for custom persona
    */
@@ -212,10 +227,6 @@ export class PersonaTransformer {
       throw new AIPersonaTransformerError('Custom persona description too long (max 500 characters)');
     }
 
-    if (this.containsProblematicContent(customPersona)) {
-      throw new AIPersonaTransformerError('Custom persona contains inappropriate content');
-    }
-
     return `Transform messages using this persona: "${customPersona}". Output only the transformed message with no additional text, explanations, or commentary.
 
 Rules:
@@ -227,27 +238,31 @@ Rules:
   }
 
   /**
-   * Check for problematic content (basic implementation)
+   * Run the moderation pipeline, throwing a ModerationError if the text is blocked
    */
-  private containsProblematicContent(text: string): boolean {
-    const problematicPatterns = [
-      /\b(hate|kill|die|murder)\b/i,
-      /\b(nazi|hitler|genocide)\b/i,
-      /\b(bomb|explosion|terrorist)\b/i,
-      // Add more patterns as needed
-    ];
-
-    return problematicPatterns.some(pattern => pattern.test(text));
+  private async moderate(
+    text: string,
+    config: ModerationConfig,
+    code: string,
+    message: string
+  ): Promise<ModerationVerdict> {
+    const verdict = await moderateContent(text, config, this.aiClient);
+    if (verdict.action === 'block') {
+      throw new ModerationError(message, code, verdict);
+    }
+    return verdict;
   }
 
   /**
    * Sanitize transformation result
    */
-  private sanitizeTransformation(original: string, transformed: string): string {
-    // If transformation is problematic, return original
-    if (this.containsProblematicContent(transformed)) {
-      console.warn('Transformation contained problematic content, returning original');
-      return original;
+  private async sanitizeTransformation(transformed: string, config: ModerationConfig): Promise<string> {
+    // If the AI turned the message into something we would block, treat it as an AI failure:
+    // the caller falls back, and submissions refuse to deliver the sender's own wording.
+    // The classifier is skipped here; it already judged the input.
+    const verdict = await moderateContent(transformed, { ...config, classifier: false });
+    if (verdict.action === 'block') {
+      throw new Error('Transformation contained blocked content');
     }
 
     // Ensure transformation isn't too long
@@ -263,27 +278,6 @@ Rules:
    * Get available preset personas
    */
   static getPresetPersonas(): Array<{key: string; name: string; description: string}> {
-    return [
-      {
-        key: 'internet-random',
-        name: 'Internet Random',
-        description: 'Casual internet slang with abbreviations, mild typos, and meme references'
-      },
-      {
-        key: 'barely-literate',
-        name: 'Barely Literate',
-        description: 'Poor grammar, simple vocabulary, and informal structure'
-      },
-      {
-        key: 'extremely-serious',
-        name: 'Extremely Serious',
-        description: 'Formal, academic language with professional vocabulary'
-      },
-      {
-        key: 'super-nice',
-        name: 'Super Nice',
-        description: 'Overly polite, encouraging, and positive language'
-      }
-    ];
+    return DEFAULT_PERSONAS.map(({ key, name, description }) => ({ key, name, description }));
   }
 }
\ No newline at end of file
@@ -1,58 +1,6 @@
 import { Env } from '../types/env';
 import { createAIClient, AIClientError } from './ai-client';
-
-// AI personas for message transformation (PRD-specified personas)
-const PRESET_PERSONAS: Record<string, {
-  name: string;
-  style: string;
-  temperature: number;
-  examples: Array<{ input: string; output: string }>;
-}> = {
-  'internet-random': {
-    name: 'Internet Random',
-    style: 'Transform the message to sound like casual internet slang with abbreviations, mild typos, and meme references. Keep the core message intact.',
-    temperature: 0.8,
-    examples: [
-      {
-        input: 'I think this is a great idea and we should implement it.',
-        output: 'ngl this idea slaps 💯 we should def implement this fr fr'
-      }
-    ]
-  },
-  'barely-literate': {
-    name: 'Barely Literate',
-    style: 'Rewrite with poor grammar, simple vocabulary, and informal structure while preserving the original meaning.',
-    temperature: 0.7,
-    examples: [
-      {
-        input: 'I disagree with this decision because it seems poorly thought out.',
-        output: 'i dont like this thing cuz it dont make sense to me and stuff'
-      }
-    ]
-  },
-  'extremely-serious': {
-    name: 'Extremely Serious',
-    style: 'Transform to formal, academic language with professional vocabulary and structure.',
-    temperature: 0.3,
-    examples: [
-      {
-        input: 'This is really bad and needs to be fixed.',
-        output: 'This matter requires immediate attention and systematic remediation to address the identified deficiencies.'
-      }
-    ]
-  },
-  'super-nice': {
-    name: 'Super Nice',
-    style: 'Rewrite with overly polite, encouraging, and positive language while maintaining the core message.',
-    temperature: 0.6,
-    examples: [
-      {
-        input: 'This feature is broken and frustrating.',
-        output: 'I hope this feedback is helpful! The feature might benefit from some adjustments as it seems to present challenges for users. Thank you for considering improvements! 😊'
-      }
-    ]
-  }
-};
+import { DEFAULT_PERSONAS, getPersona } from './personas';
 
 // Legacy random personas for backward compatibility
 const legacyPersonas = [
@@ -103,14 +51,18 @@ export async function transformMessageWithPersona(
   let systemPrompt: string;
   let temperature: number;
 
+  // Without an env there is no registry, so only the built-in presets are available
+  const presetPersona = !persona ? null
+    : env ? await getPersona(persona, env)
+    : DEFAULT_PERSONAS.find(preset => preset.key === persona) ?? null;
+
   if (customPersona) {
     // Use custom persona description
     systemPrompt = customPersona;
     temperature = 0.7;
-  } else if (persona && PRESET_PERSONAS[persona]) {
-    // Use preset persona
-    const presetPersona = PRESET_PERSONAS[persona];
-    systemPrompt = presetPersona.style;
+  } else if (presetPersona?.enabled) {
+    // Use registered persona
+    systemPrompt = presetPersona.systemPrompt;
     temperature = presetPersona.temperature;
   } else {
     // No transformation - return original message
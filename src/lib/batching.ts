@@ -0,0 +1,117 @@
+import { Env } from '../types/env';
+import { CommentBox } from './boxes';
+import { TIME_OF_DAY_PATTERN, getZonedParts, isValidTimeZone, zonedTimeToUtc } from './time-zones';
+
+/**
+ * Batched delivery: messages wait for a fixed release window and go out together, in random
+ * order, once enough of them are waiting. Recipients then can't tell senders apart by the
+ * time a message arrived.
+ */
+export interface BatchingConfig {
+  windows: string[];      // Release times as "HH:MM" in timeZone
+  timeZone: string;       // IANA time zone of the recipient, e.g. "Europe/London"
+  minBatchSize: number;   // Release a batch only once this many messages are waiting...
+  maxHoldHours: number;   // ...or its oldest message has waited this long
+}
+
+export const DEFAULT_BATCHING_CONFIG: BatchingConfig = {
+  windows: ['09:00', '16:00'],
+  timeZone: 'UTC',
+  minBatchSize: 3,
+  maxHoldHours: 72,
+};
+
+// Batch for messages sent without a box
+export const DEFAULT_BATCH = 'default';
+
+/**
+ * Batching for a message, or null to use the delay instead. A box's `batching` is applied
+ * over DELIVERY_BATCHING (or the defaults), so a box can batch on its own; otherwise the box
+ * follows DELIVERY_BATCHING, a JSON object such as {"windows": ["09:00"], "minBatchSize": 5}.
+ */
+export function getBatchingConfig(env: Env, box?: CommentBox): BatchingConfig | null {
+  let deployment: BatchingConfig | null = null;
+  if (env.DELIVERY_BATCHING) {
+    let custom: unknown;
+    try {
+      custom = JSON.parse(env.DELIVERY_BATCHING);
+    } catch {
+      throw new Error('Invalid DELIVERY_BATCHING: not valid JSON');
+    }
+    const error = validateBatchingConfig(custom);
+    if (error) {
+      throw new Error(`Invalid DELIVERY_BATCHING: ${error}`);
+    }
+    deployment = { ...DEFAULT_BATCHING_CONFIG, ...(custom as Partial<BatchingConfig>) };
+  }
+
+  if (box?.batching) {
+    return { ...(deployment ?? DEFAULT_BATCHING_CONFIG), ...box.batching };
+  }
+  return deployment;
+}
+
+/**
+ * Check a full or partial batching config, returning an error message or null
+ */
+export function validateBatchingConfig(config: unknown): string | null {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'expected an object';
+  }
+  const { windows, timeZone, minBatchSize, maxHoldHours } = config as Partial<BatchingConfig>;
+
+  if (windows !== undefined &&
+      (!Array.isArray(windows) || windows.length === 0 || windows.some(w => typeof w !== 'string' || !TIME_OF_DAY_PATTERN.test(w)))) {
+    return 'windows must be a non-empty array of "HH:MM" times';
+  }
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    return 'timeZone must be an IANA time zone such as "Europe/London"';
+  }
+  if (minBatchSize !== undefined && (!Number.isInteger(minBatchSize) || minBatchSize < 1)) {
+    return 'minBatchSize must be a whole number of at least 1';
+  }
+  if (maxHoldHours !== undefined && (typeof maxHoldHours !== 'number' || !(maxHoldHours > 0))) {
+    return 'maxHoldHours must be a positive number';
+  }
+  return null;
+}
+
+/**
+ * The first release window after `now`, as a Unix timestamp (ms)
+ */
+export function getNextWindow(config: BatchingConfig, now: number): number {
+  const today = getZonedParts(now, config.timeZone);
+  let next = Infinity;
+
+  // Tomorrow's windows cover a `now` after today's last one
+  for (let dayOffset = 0; dayOffset <= 1; dayOffset++) {
+    for (const window of config.windows) {
+      const [hour, minute] = window.split(':').map(Number);
+      const time = zonedTimeToUtc(today.year, today.month, today.day + dayOffset, hour, minute, config.timeZone);
+      if (time > now && time < next) {
+        next = time;
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Whether a batch goes out at this window: enough messages are waiting, or the oldest has been held long enough
+ */
+export function shouldReleaseBatch(config: BatchingConfig, queuedAt: number[], now: number): boolean {
+  return queuedAt.length >= config.minBatchSize ||
+    Math.min(...queuedAt) <= now - config.maxHoldHours * 60 * 60 * 1000;
+}
+
+/**
+ * Fisher-Yates shuffle with crypto randomness, so delivery order says nothing about submission order
+ */
+export function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = crypto.getRandomValues(new Uint32Array(1))[0] % (i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
@@ -0,0 +1,178 @@
+import { Env } from '../types/env';
+import { DeliveryConfig, validateDeliveryConfig } from './delivery';
+import { BatchingConfig, validateBatchingConfig } from './batching';
+import { DigestConfig, validateDigestConfig } from './digest';
+
+export interface CommentBox {
+  id: string;
+  owner: string;              // Team or person responsible for the box
+  recipientEmail?: string;    // Where messages for this box are emailed (required unless `delivery` is set)
+  title: string;
+  allowedPersonas?: string[]; // Persona keys allowed for this box ('custom' enables custom personas); unset allows all
+  deliveryDelaySeconds?: number; // Overrides QUEUE_DELAY_SECONDS / random delay for this box
+  delivery?: DeliveryConfig;  // Deliver to Slack, Discord, Teams or a webhook instead of email
+  reviewMode?: 'off' | 'flagged' | 'all'; // Hold messages for admin review; overrides REVIEW_MODE
+  batching?: Partial<BatchingConfig>; // Release messages in batches at fixed windows; applied over DELIVERY_BATCHING
+  digest?: Partial<DigestConfig>;     // Deliver one digest per period instead of each message; applied over DELIVERY_DIGEST
+  createdAt: number;
+}
+
+// Public view of a box, safe to return to anonymous senders
+export interface CommentBoxInfo {
+  id: string;
+  title: string;
+  allowedPersonas?: string[];
+}
+
+export class BoxError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'BoxError';
+  }
+}
+
+export const BOX_KEY_PREFIX = 'box_';
+
+const BOX_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidBoxId(boxId: unknown): boxId is string {
+  return typeof boxId === 'string' && BOX_ID_PATTERN.test(boxId);
+}
+
+/**
+ * Load a box by ID, or null if it does not exist
+ */
+export async function getBox(boxId: string, env: Env): Promise<CommentBox | null> {
+  if (!isValidBoxId(boxId)) {
+    return null;
+  }
+
+  const data = await env.MESSAGE_QUEUE.get(`${BOX_KEY_PREFIX}${boxId}`);
+  return data ? JSON.parse(data) as CommentBox : null;
+}
+
+/**
+ * Load a box by ID, throwing a BoxError (404) if it does not exist
+ */
+export async function requireBox(boxId: string, env: Env): Promise<CommentBox> {
+  const box = await getBox(boxId, env);
+  if (!box) {
+    throw new BoxError(`Unknown comment box: ${boxId}`, 404);
+  }
+  return box;
+}
+
+/**
+ * Validate and persist a box
+ */
+export async function saveBox(box: CommentBox, env: Env): Promise<void> {
+  const error = validateBox(box);
+  if (error) {
+    throw new BoxError(error);
+  }
+
+  await env.MESSAGE_QUEUE.put(`${BOX_KEY_PREFIX}${box.id}`, JSON.stringify(box));
+}
+
+export async function deleteBox(boxId: string, env: Env): Promise<void> {
+  await env.MESSAGE_QUEUE.delete(`${BOX_KEY_PREFIX}${boxId}`);
+}
+
+export async function listBoxes(env: Env): Promise<CommentBox[]> {
+  const boxes: CommentBox[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await env.MESSAGE_QUEUE.list({ prefix: BOX_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      const data = await env.MESSAGE_QUEUE.get(key.name);
+      if (data) {
+        boxes.push(JSON.parse(data));
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return boxes;
+}
+
+/**
+ * Check whether a persona (or custom persona) may be used with a box
+ */
+export function isPersonaAllowed(box: CommentBox, persona?: string, customPersona?: string): boolean {
+  if (!box.allowedPersonas) {
+    return true;
+  }
+  if (customPersona) {
+    return box.allowedPersonas.includes('custom');
+  }
+  if (!persona) {
+    return true;
+  }
+  return box.allowedPersonas.includes(persona);
+}
+
+export function toBoxInfo(box: CommentBox): CommentBoxInfo {
+  return {
+    id: box.id,
+    title: box.title,
+    allowedPersonas: box.allowedPersonas,
+  };
+}
+
+/**
+ * Delivery config for a box: its own channel if set, otherwise email to its recipient
+ */
+export function getBoxDeliveryConfig(box: CommentBox): DeliveryConfig {
+  if (box.delivery) {
+    return { ...box.delivery, recipientEmail: box.delivery.recipientEmail ?? box.recipientEmail };
+  }
+  return { channel: 'gmail', recipientEmail: box.recipientEmail };
+}
+
+function validateBox(box: CommentBox): string | null {
+  if (!isValidBoxId(box.id)) {
+    return 'Box ID must be 2-63 lowercase letters, digits or dashes';
+  }
+  if (!box.owner || typeof box.owner !== 'string') {
+    return 'Box owner is required';
+  }
+  if (box.recipientEmail !== undefined && !EMAIL_PATTERN.test(box.recipientEmail)) {
+    return 'Box recipient must be a valid email address';
+  }
+  if (box.delivery !== undefined && (typeof box.delivery !== 'object' || box.delivery === null)) {
+    return 'Box delivery must be an object';
+  }
+  if (!box.title || typeof box.title !== 'string') {
+    return 'Box title is required';
+  }
+  if (box.allowedPersonas !== undefined &&
+      (!Array.isArray(box.allowedPersonas) || box.allowedPersonas.some(p => typeof p !== 'string'))) {
+    return 'Allowed personas must be an array of persona keys';
+  }
+  if (box.deliveryDelaySeconds !== undefined &&
+      (!Number.isInteger(box.deliveryDelaySeconds) || box.deliveryDelaySeconds < 0)) {
+    return 'Delivery delay must be a non-negative number of seconds';
+  }
+  if (box.reviewMode !== undefined && !['off', 'flagged', 'all'].includes(box.reviewMode)) {
+    return 'Review mode must be off, flagged or all';
+  }
+  if (box.batching !== undefined) {
+    const batchingError = validateBatchingConfig(box.batching);
+    if (batchingError) {
+      return `Box batching: ${batchingError}`;
+    }
+  }
+  if (box.digest !== undefined) {
+    const digestError = validateDigestConfig(box.digest);
+    if (digestError) {
+      return `Box digest: ${digestError}`;
+    }
+  }
+  const deliveryError = validateDeliveryConfig(getBoxDeliveryConfig(box));
+  if (deliveryError) {
+    return `Box delivery: ${deliveryError}`;
+  }
+  return null;
+}
@@ -0,0 +1,201 @@
+import { Env } from '../types/env';
+import { ChallengeMode, ChallengeResponse, ChallengeSolution } from '../types/api';
+import { getServerSecret, hmacSha256, timingSafeEqual, toHex } from './hmac';
+
+export class ChallengeError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'challenge_required' | 'challenge_failed',
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = 'ChallengeError';
+  }
+}
+
+/**
+ * Proves a submission came from a client that did some work or passed a bot check.
+ * verify() throws a ChallengeError when the solution is missing or wrong.
+ */
+export interface ChallengeVerifier {
+  readonly mode: Exclude<ChallengeMode, 'off'>;
+  issue(env: Env): Promise<ChallengeResponse>;
+  verify(solution: ChallengeSolution | undefined, env: Env): Promise<void>;
+}
+
+export const CHALLENGE_MODES: ChallengeMode[] = ['off', 'pow', 'turnstile'];
+
+const CHALLENGE_USED_PREFIX = 'challenge_used_';
+const CHALLENGE_VOLUME_PREFIX = 'challenge_volume_';
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Each extra bit doubles the expected work: about 65k hashes at 16 bits, 4M at 22
+export const DEFAULT_POW_DIFFICULTY = 16;
+const MAX_POW_DIFFICULTY = 22;
+// One extra bit each time the past hour's submissions double beyond this
+const POW_VOLUME_STEP = 20;
+
+const TURNSTILE_VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+
+/**
+ * Verifier for CHALLENGE_MODE, or null when challenges are off (the default)
+ */
+export function createChallengeVerifier(env: Env): ChallengeVerifier | null {
+  const mode = env.CHALLENGE_MODE ?? 'off';
+  if (!CHALLENGE_MODES.includes(mode)) {
+    throw new Error(`Invalid CHALLENGE_MODE: expected one of ${CHALLENGE_MODES.join(', ')}`);
+  }
+
+  switch (mode) {
+    case 'off':
+      return null;
+    case 'pow':
+      return new ProofOfWorkVerifier();
+    case 'turnstile':
+      if (!env.TURNSTILE_SITE_KEY || !env.TURNSTILE_SECRET_KEY) {
+        throw new Error('CHALLENGE_MODE is "turnstile" but TURNSTILE_SITE_KEY or TURNSTILE_SECRET_KEY is missing');
+      }
+      return new TurnstileVerifier(env.TURNSTILE_SITE_KEY, env.TURNSTILE_SECRET_KEY);
+  }
+}
+
+/**
+ * Hashcash-style proof of work. The token is signed, so no state is kept until it is
+ * spent; spent tokens are remembered until they expire so each one is good for one message.
+ */
+export class ProofOfWorkVerifier implements ChallengeVerifier {
+  readonly mode = 'pow' as const;
+
+  async issue(env: Env): Promise<ChallengeResponse> {
+    const issuedAt = Date.now();
+    const difficulty = await getPowDifficulty(env, issuedAt);
+    const payload = `${issuedAt}.${difficulty}.${crypto.randomUUID()}`;
+    const signature = toHex(await hmacSha256(getServerSecret(env), `challenge:${payload}`));
+
+    return {
+      mode: this.mode,
+      token: `${payload}.${signature}`,
+      difficulty,
+      expiresAt: issuedAt + CHALLENGE_TTL_MS,
+    };
+  }
+
+  async verify(solution: ChallengeSolution | undefined, env: Env): Promise<void> {
+    if (!solution?.token || typeof solution.token !== 'string' || typeof solution.nonce !== 'string') {
+      throw new ChallengeError('A proof-of-work solution is required', 'challenge_required');
+    }
+
+    const parts = solution.token.split('.');
+    if (parts.length !== 4 || solution.nonce.length > 64) {
+      throw new ChallengeError('Invalid challenge', 'challenge_failed');
+    }
+    const [issuedAtText, difficultyText, id, signature] = parts;
+    const expected = toHex(await hmacSha256(getServerSecret(env), `challenge:${issuedAtText}.${difficultyText}.${id}`));
+    if (!timingSafeEqual(signature, expected)) {
+      throw new ChallengeError('Invalid challenge', 'challenge_failed');
+    }
+
+    const expiresAt = Number(issuedAtText) + CHALLENGE_TTL_MS;
+    if (!(expiresAt > Date.now())) {
+      throw new ChallengeError('Challenge expired', 'challenge_required');
+    }
+
+    const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${solution.token}:${solution.nonce}`));
+    if (leadingZeroBits(new Uint8Array(hash)) < Number(difficultyText)) {
+      throw new ChallengeError('Proof of work does not meet the difficulty', 'challenge_failed');
+    }
+
+    // Best-effort replay protection: KV has no compare-and-set, so requests racing the same token
+    // can all pass the get before any put lands. Rate limiting still caps what a replay buys.
+    const usedKey = `${CHALLENGE_USED_PREFIX}${id}`;
+    if (await env.MESSAGE_QUEUE.get(usedKey)) {
+      throw new ChallengeError('Challenge already used', 'challenge_required');
+    }
+    await env.MESSAGE_QUEUE.put(usedKey, '1', {
+      // KV needs at least 60 seconds
+      expirationTtl: Math.max(60, Math.ceil((expiresAt - Date.now()) / 1000)),
+    });
+    await recordSubmission(env);
+  }
+}
+
+/**
+ * Cloudflare Turnstile. Cloudflare's test keys (e.g. secret 1x0000000000000000000000000000000AA,
+ * which always passes) let it run locally without a real widget.
+ */
+export class TurnstileVerifier implements ChallengeVerifier {
+  readonly mode = 'turnstile' as const;
+
+  constructor(private readonly siteKey: string, private readonly secretKey: string) {}
+
+  async issue(): Promise<ChallengeResponse> {
+    return { mode: this.mode, siteKey: this.siteKey };
+  }
+
+  async verify(solution: ChallengeSolution | undefined): Promise<void> {
+    if (!solution?.token || typeof solution.token !== 'string') {
+      throw new ChallengeError('A Turnstile token is required', 'challenge_required');
+    }
+
+    // The client IP is deliberately not sent
+    const body = new FormData();
+    body.append('secret', this.secretKey);
+    body.append('response', solution.token);
+
+    const response = await fetch(TURNSTILE_VERIFY_URL, { method: 'POST', body });
+    if (!response.ok) {
+      throw new Error(`Turnstile verification returned ${response.status}`);
+    }
+    const result = await response.json() as { success?: boolean; 'error-codes'?: string[] };
+    if (!result.success) {
+      console.warn('Turnstile verification failed:', result['error-codes']);
+      throw new ChallengeError('Bot check failed, please try again', 'challenge_failed');
+    }
+  }
+}
+
+/**
+ * Base difficulty (CHALLENGE_DIFFICULTY, default 16 bits) plus one bit each time the past
+ * hour's submissions double beyond 20, up to 22 bits
+ */
+export async function getPowDifficulty(env: Env, now: number = Date.now()): Promise<number> {
+  const base = env.CHALLENGE_DIFFICULTY ? parseInt(env.CHALLENGE_DIFFICULTY, 10) : DEFAULT_POW_DIFFICULTY;
+  if (!Number.isInteger(base) || base < 1 || base > MAX_POW_DIFFICULTY) {
+    throw new Error(`Invalid CHALLENGE_DIFFICULTY: expected a whole number of bits between 1 and ${MAX_POW_DIFFICULTY}`);
+  }
+
+  const volume = await getRecentVolume(env, now);
+  const extra = volume >= POW_VOLUME_STEP ? Math.floor(Math.log2(volume / POW_VOLUME_STEP)) + 1 : 0;
+  return Math.min(MAX_POW_DIFFICULTY, base + extra);
+}
+
+// Submissions this hour plus last hour's, weighted by how much of it is still within 60 minutes
+async function getRecentVolume(env: Env, now: number): Promise<number> {
+  const hour = Math.floor(now / HOUR_MS);
+  const [current, previous] = await Promise.all([
+    env.MESSAGE_QUEUE.get(`${CHALLENGE_VOLUME_PREFIX}${hour}`),
+    env.MESSAGE_QUEUE.get(`${CHALLENGE_VOLUME_PREFIX}${hour - 1}`),
+  ]);
+  const elapsed = (now % HOUR_MS) / HOUR_MS;
+  return (parseInt(current ?? '0') || 0) + (parseInt(previous ?? '0') || 0) * (1 - elapsed);
+}
+
+// An approximate count is enough to scale the difficulty, so the KV read-then-write is fine here
+async function recordSubmission(env: Env, now: number = Date.now()): Promise<void> {
+  const key = `${CHALLENGE_VOLUME_PREFIX}${Math.floor(now / HOUR_MS)}`;
+  const count = parseInt(await env.MESSAGE_QUEUE.get(key) ?? '0') || 0;
+  await env.MESSAGE_QUEUE.put(key, String(count + 1), { expirationTtl: 2 * 60 * 60 });
+}
+
+function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
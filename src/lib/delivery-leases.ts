@@ -0,0 +1,73 @@
+import { Env } from '../types/env';
+import { toHex } from './hmac';
+
+export const DELIVERY_LEASE_KEY_PREFIX = 'lease_';
+export const DELIVERED_KEY_PREFIX = 'delivered_';
+
+const LEASE_TTL_SECONDS = 5 * 60; // Longest a send may take before another worker can claim the message
+const DELIVERED_TTL_SECONDS = 2 * 24 * 60 * 60; // Outlives the 24 hour queue record it guards
+
+interface DeliveryLease {
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * Claim a message for delivery. Returns a lease token, or null with the time the current
+ * holder's lease runs out. The lease is written and read back, so of two workers that race
+ * only the last writer proceeds; KV is not a lock, and the delivered record and the channel's
+ * idempotency key cover what slips through.
+ */
+export async function claimDelivery(
+  messageId: string,
+  env: Env
+): Promise<{ token: string } | { token: null; expiresAt: number }> {
+  const key = `${DELIVERY_LEASE_KEY_PREFIX}${messageId}`;
+  const now = Date.now();
+
+  const current = await readLease(key, env);
+  if (current && current.expiresAt > now) {
+    return { token: null, expiresAt: current.expiresAt };
+  }
+
+  const lease: DeliveryLease = {
+    token: toHex(crypto.getRandomValues(new Uint8Array(16))),
+    expiresAt: now + LEASE_TTL_SECONDS * 1000,
+  };
+  await env.MESSAGE_QUEUE.put(key, JSON.stringify(lease), { expirationTtl: LEASE_TTL_SECONDS });
+
+  const stored = await readLease(key, env);
+  if (stored?.token !== lease.token) {
+    return { token: null, expiresAt: stored?.expiresAt ?? lease.expiresAt };
+  }
+  return { token: lease.token };
+}
+
+/**
+ * Give up a lease, unless it has already passed to another worker
+ */
+export async function releaseDelivery(messageId: string, token: string, env: Env): Promise<void> {
+  const key = `${DELIVERY_LEASE_KEY_PREFIX}${messageId}`;
+  const current = await readLease(key, env);
+  if (current?.token === token) {
+    await env.MESSAGE_QUEUE.delete(key);
+  }
+}
+
+/**
+ * Record that a message reached its channel, so no later attempt sends it again
+ */
+export async function markDelivered(messageId: string, env: Env): Promise<void> {
+  await env.MESSAGE_QUEUE.put(`${DELIVERED_KEY_PREFIX}${messageId}`, '1', {
+    expirationTtl: DELIVERED_TTL_SECONDS,
+  });
+}
+
+export async function isDelivered(messageId: string, env: Env): Promise<boolean> {
+  return await env.MESSAGE_QUEUE.get(`${DELIVERED_KEY_PREFIX}${messageId}`) !== null;
+}
+
+async function readLease(key: string, env: Env): Promise<DeliveryLease | null> {
+  const data = await env.MESSAGE_QUEUE.get(key);
+  return data ? JSON.parse(data) as DeliveryLease : null;
+}
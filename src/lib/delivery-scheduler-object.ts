@@ -0,0 +1,42 @@
+import { Env } from '../types/env';
+import { deliverQueuedMessage } from './queue';
+import { DeliverySchedulerObjectRequest } from './scheduler';
+
+const MESSAGE_ID_KEY = 'messageId';
+
+/**
+ * Durable Object that delivers one queued message when its alarm fires. A failed attempt
+ * moves the alarm to the retry time; once the message is delivered or dead-lettered the
+ * object clears its storage. An alarm handler that throws is retried by the runtime.
+ */
+export class DeliverySchedulerDurableObject {
+  constructor(
+    private readonly state: DurableObjectState,
+    private readonly env: Env
+  ) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { messageId, deliverAt } = await request.json() as DeliverySchedulerObjectRequest;
+    if (typeof messageId !== 'string' || !messageId || !Number.isFinite(deliverAt)) {
+      return new Response('messageId and deliverAt are required', { status: 400 });
+    }
+
+    await this.state.storage.put(MESSAGE_ID_KEY, messageId);
+    await this.state.storage.setAlarm(deliverAt);
+    return new Response(null, { status: 204 });
+  }
+
+  async alarm(): Promise<void> {
+    const messageId = await this.state.storage.get<string>(MESSAGE_ID_KEY);
+    if (!messageId) {
+      return;
+    }
+
+    const outcome = await deliverQueuedMessage(messageId, this.env);
+    if ('dueAt' in outcome) {
+      await this.state.storage.setAlarm(outcome.dueAt);
+      return;
+    }
+    await this.state.storage.deleteAll();
+  }
+}
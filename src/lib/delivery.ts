@@ -0,0 +1,264 @@
+import { Env } from '../types/env';
+import { GmailAuth } from './gmail-auth';
+
+export type DeliveryChannelType = 'gmail' | 'webhook' | 'slack' | 'discord' | 'teams';
+
+export const DELIVERY_CHANNEL_TYPES: DeliveryChannelType[] = ['gmail', 'webhook', 'slack', 'discord', 'teams'];
+
+// Where and how a message is delivered; set per deployment via env or per box
+export interface DeliveryConfig {
+  channel: DeliveryChannelType;
+  recipientEmail?: string;  // gmail
+  webhookUrl?: string;      // webhook, slack, discord, teams
+  webhookSecret?: string;   // webhook: HMAC-SHA256 signing secret
+}
+
+export interface DeliveryMessage {
+  id: string;               // Same on every attempt, so channels that support one use it as an idempotency key
+  message: string;
+  boxId?: string;
+  title?: string;           // Box title, used as a heading where the channel supports one
+  replyUrl?: string;        // Where the recipient can answer the sender anonymously
+  digest?: Digest;          // Set when several messages are delivered together; `message` is then the formatted digest
+}
+
+export interface Digest {
+  summary?: string;         // AI summary of the themes
+  entries: DigestEntry[];
+}
+
+export interface DigestEntry {
+  message: string;
+  replyUrl?: string;
+}
+
+export interface DeliveryChannel {
+  readonly type: DeliveryChannelType;
+  deliver(message: DeliveryMessage): Promise<void>;
+}
+
+const DEFAULT_TITLE = 'Anonymous Feedback';
+const DISCORD_MAX_CONTENT_LENGTH = 2000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class GmailChannel implements DeliveryChannel {
+  readonly type = 'gmail' as const;
+
+  constructor(private env: Env, private recipient: string) {}
+
+  async deliver(message: DeliveryMessage): Promise<void> {
+    const gmailAuth = new GmailAuth(this.env);
+    // Gmail drops a second copy with the same Message-ID from the mailbox
+    await gmailAuth.sendEmail(withReplyLink(message), this.recipient, {
+      messageId: `<${message.id}@anonymous-comment-box>`,
+      subject: message.digest ? `${DEFAULT_TITLE} Digest` : undefined,
+    });
+  }
+}
+
+/**
+ * Generic JSON webhook. Each request is signed so receivers can verify it came from us:
+ *   X-Signature-Timestamp: <unix seconds>
+ *   X-Signature-256: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ * Idempotency-Key carries the message ID, which is the same on every retry.
+ */
+export class WebhookChannel implements DeliveryChannel {
+  readonly type = 'webhook' as const;
+
+  constructor(private url: string, private secret: string) {}
+
+  async deliver(message: DeliveryMessage): Promise<void> {
+    const body = JSON.stringify({
+      id: message.id,
+      boxId: message.boxId ?? null,
+      title: message.title ?? DEFAULT_TITLE,
+      message: message.message,
+      replyUrl: message.replyUrl,
+      digest: message.digest,
+    });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = await signWebhookPayload(body, timestamp, this.secret);
+
+    await postJson(this.url, body, 'Webhook', {
+      'Idempotency-Key': message.id,
+      'X-Signature-Timestamp': timestamp,
+      'X-Signature-256': `sha256=${signature}`,
+    });
+  }
+}
+
+export class SlackChannel implements DeliveryChannel {
+  readonly type = 'slack' as const;
+
+  constructor(private url: string) {}
+
+  async deliver(message: DeliveryMessage): Promise<void> {
+    const title = escapeSlack(message.title ?? DEFAULT_TITLE);
+    // Escaping also neutralises <!channel>-style mentions in the message
+    const body = JSON.stringify({
+      text: `*${title}*\n${escapeSlack(withReplyLink(message))}`,
+    });
+
+    await postJson(this.url, body, 'Slack webhook');
+  }
+}
+
+export class DiscordChannel implements DeliveryChannel {
+  readonly type = 'discord' as const;
+
+  constructor(private url: string) {}
+
+  async deliver(message: DeliveryMessage): Promise<void> {
+    const title = `**${message.title ?? DEFAULT_TITLE}**`;
+    const content = `${title}\n${withReplyLink(message)}`;
+    const allowedMentions = { parse: [] }; // Never let a message ping @everyone or users
+
+    if (content.length <= DISCORD_MAX_CONTENT_LENGTH) {
+      await postJson(this.url, JSON.stringify({ content, allowed_mentions: allowedMentions }), 'Discord webhook');
+      return;
+    }
+
+    // Discord rejects content over 2000 characters. Several posts could not be retried as one,
+    // so a long message goes out as a single post with the full text attached.
+    const form = new FormData();
+    form.append('payload_json', JSON.stringify({
+      content: `${title}\nThe message is too long for Discord and is attached in full.`,
+      allowed_mentions: allowedMentions,
+    }));
+    form.append('files[0]', new Blob([withReplyLink(message)], { type: 'text/plain' }), 'message.txt');
+    await post(this.url, { body: form }, 'Discord webhook');
+  }
+}
+
+export class TeamsChannel implements DeliveryChannel {
+  readonly type = 'teams' as const;
+
+  constructor(private url: string) {}
+
+  async deliver(message: DeliveryMessage): Promise<void> {
+    const title = message.title ?? DEFAULT_TITLE;
+    const body = JSON.stringify({
+      '@type': 'MessageCard',
+      '@context': 'https://schema.org/extensions',
+      summary: title,
+      title,
+      text: withReplyLink(message),
+    });
+
+    await postJson(this.url, body, 'Teams webhook');
+  }
+}
+
+/**
+ * Deployment-wide delivery config from DELIVERY_CHANNEL / DELIVERY_WEBHOOK_* (defaults to Gmail)
+ */
+export function getDefaultDeliveryConfig(env: Env): DeliveryConfig {
+  const channel = env.DELIVERY_CHANNEL || 'gmail';
+  if (channel === 'gmail') {
+    return { channel, recipientEmail: env.RECIPIENT_EMAIL };
+  }
+  return {
+    channel,
+    webhookUrl: env.DELIVERY_WEBHOOK_URL,
+    webhookSecret: env.DELIVERY_WEBHOOK_SECRET,
+  };
+}
+
+/**
+ * Build the channel for a delivery config, throwing if the config is incomplete
+ */
+export function createDeliveryChannel(config: DeliveryConfig, env: Env): DeliveryChannel {
+  const error = validateDeliveryConfig(config);
+  if (error) {
+    throw new Error(`Invalid ${config.channel} delivery config: ${error}`);
+  }
+
+  switch (config.channel) {
+    case 'gmail':
+      return new GmailChannel(env, config.recipientEmail!);
+    case 'webhook':
+      return new WebhookChannel(config.webhookUrl!, config.webhookSecret!);
+    case 'slack':
+      return new SlackChannel(config.webhookUrl!);
+    case 'discord':
+      return new DiscordChannel(config.webhookUrl!);
+    case 'teams':
+      return new TeamsChannel(config.webhookUrl!);
+  }
+}
+
+/**
+ * Return an error message for an unusable delivery config, or null if it is valid
+ */
+export function validateDeliveryConfig(config: DeliveryConfig): string | null {
+  if (!DELIVERY_CHANNEL_TYPES.includes(config.channel)) {
+    return `Delivery channel must be one of: ${DELIVERY_CHANNEL_TYPES.join(', ')}`;
+  }
+  if (config.channel === 'gmail') {
+    return config.recipientEmail && EMAIL_PATTERN.test(config.recipientEmail)
+      ? null
+      : 'Recipient must be a valid email address';
+  }
+  if (!isHttpsUrl(config.webhookUrl)) {
+    return 'Webhook URL must be an https:// URL';
+  }
+  if (config.channel === 'webhook' && !config.webhookSecret) {
+    return 'Webhook secret is required for signed webhooks';
+  }
+  return null;
+}
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<body>", as sent in X-Signature-256
+ */
+export async function signWebhookPayload(body: string, timestamp: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function postJson(
+  url: string,
+  body: string,
+  label: string,
+  headers: Record<string, string> = {}
+): Promise<void> {
+  await post(url, { headers: { 'Content-Type': 'application/json', ...headers }, body }, label);
+}
+
+async function post(url: string, init: RequestInit, label: string): Promise<void> {
+  const response = await fetch(url, { method: 'POST', ...init });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${label} error: ${response.status} - ${errorText}`);
+  }
+}
+
+function isHttpsUrl(value: string | undefined): boolean {
+  if (!value) {
+    return false;
+  }
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function withReplyLink(message: DeliveryMessage): string {
+  return message.replyUrl ? `${message.message}\n\nReply anonymously: ${message.replyUrl}` : message.message;
+}
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
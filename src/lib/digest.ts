@@ -0,0 +1,154 @@
+import { Env } from '../types/env';
+import { CommentBox } from './boxes';
+import { DigestEntry } from './delivery';
+import { createAIClient } from './ai-client';
+import { toHex } from './hmac';
+import { TIME_OF_DAY_PATTERN, getZonedParts, isValidTimeZone, zonedTimeToUtc } from './time-zones';
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+export const DIGEST_PERIODS: DigestPeriod[] = ['daily', 'weekly'];
+
+/**
+ * Digest delivery: instead of one delivery per message, everything due for a recipient goes
+ * out once per period as a single numbered email or channel post.
+ */
+export interface DigestConfig {
+  period: DigestPeriod;
+  time: string;           // Send time as "HH:MM" in timeZone
+  dayOfWeek: number;      // Weekly digests: 0 = Sunday ... 6 = Saturday
+  timeZone: string;       // IANA time zone of the recipient, e.g. "Europe/London"
+  summary: boolean;       // Open with an AI summary of the themes
+}
+
+export const DEFAULT_DIGEST_CONFIG: DigestConfig = {
+  period: 'daily',
+  time: '09:00',
+  dayOfWeek: 1,
+  timeZone: 'UTC',
+  summary: false,
+};
+
+// Digest for messages sent without a box
+export const DEFAULT_DIGEST = 'default';
+
+const SUMMARY_SYSTEM_PROMPT = 'You summarize anonymous workplace feedback for the person who receives it. ' +
+  'List the main themes across the numbered messages below as 2-5 short bullet points. ' +
+  'Do not quote messages, guess who wrote them, or add advice.';
+
+/**
+ * Digest settings for a message, or null to deliver it on its own. A box's `digest` is applied
+ * over DELIVERY_DIGEST (or the defaults), so a box can use a digest on its own; otherwise the box
+ * follows DELIVERY_DIGEST, a JSON object such as {"period": "weekly", "time": "08:30"}.
+ */
+export function getDigestConfig(env: Env, box?: CommentBox): DigestConfig | null {
+  let deployment: DigestConfig | null = null;
+  if (env.DELIVERY_DIGEST) {
+    let custom: unknown;
+    try {
+      custom = JSON.parse(env.DELIVERY_DIGEST);
+    } catch {
+      throw new Error('Invalid DELIVERY_DIGEST: not valid JSON');
+    }
+    const error = validateDigestConfig(custom);
+    if (error) {
+      throw new Error(`Invalid DELIVERY_DIGEST: ${error}`);
+    }
+    deployment = { ...DEFAULT_DIGEST_CONFIG, ...(custom as Partial<DigestConfig>) };
+  }
+
+  if (box?.digest) {
+    return { ...(deployment ?? DEFAULT_DIGEST_CONFIG), ...box.digest };
+  }
+  return deployment;
+}
+
+/**
+ * Check a full or partial digest config, returning an error message or null
+ */
+export function validateDigestConfig(config: unknown): string | null {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'expected an object';
+  }
+  const { period, time, dayOfWeek, timeZone, summary } = config as Partial<DigestConfig>;
+
+  if (period !== undefined && !DIGEST_PERIODS.includes(period)) {
+    return `period must be one of: ${DIGEST_PERIODS.join(', ')}`;
+  }
+  if (time !== undefined && (typeof time !== 'string' || !TIME_OF_DAY_PATTERN.test(time))) {
+    return 'time must be an "HH:MM" time';
+  }
+  if (dayOfWeek !== undefined && (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6)) {
+    return 'dayOfWeek must be 0 (Sunday) to 6 (Saturday)';
+  }
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    return 'timeZone must be an IANA time zone such as "Europe/London"';
+  }
+  if (summary !== undefined && typeof summary !== 'boolean') {
+    return 'summary must be true or false';
+  }
+  return null;
+}
+
+/**
+ * The first send time after `now`, as a Unix timestamp (ms)
+ */
+export function getNextDigestTime(config: DigestConfig, now: number): number {
+  const today = getZonedParts(now, config.timeZone);
+  const [hour, minute] = config.time.split(':').map(Number);
+
+  // A week ahead covers a weekly digest whose send time today has just passed
+  for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+    const weekday = new Date(Date.UTC(today.year, today.month - 1, today.day + dayOffset)).getUTCDay();
+    if (config.period === 'weekly' && weekday !== config.dayOfWeek) {
+      continue;
+    }
+    const time = zonedTimeToUtc(today.year, today.month, today.day + dayOffset, hour, minute, config.timeZone);
+    if (time > now) {
+      return time;
+    }
+  }
+  throw new Error('No digest time in the coming week');
+}
+
+/**
+ * Stable ID for a digest of these messages, so a retry of the same digest reuses its idempotency key
+ */
+export async function getDigestId(messageIds: string[]): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode([...messageIds].sort().join(',')));
+  return `digest-${toHex(digest).slice(0, 32)}`;
+}
+
+/**
+ * Plain-text digest: the summary if there is one, then the messages numbered in order
+ */
+export function formatDigest(entries: DigestEntry[], summary?: string): string {
+  const sections = [`${entries.length} anonymous ${entries.length === 1 ? 'message' : 'messages'}`];
+  if (summary) {
+    sections.push(`Themes:\n${summary}`);
+  }
+  entries.forEach((entry, index) => {
+    const reply = entry.replyUrl ? `\nReply anonymously: ${entry.replyUrl}` : '';
+    sections.push(`${index + 1}. ${entry.message}${reply}`);
+  });
+  return sections.join('\n\n');
+}
+
+/**
+ * AI summary of the themes across a digest's messages, or undefined if the AI call fails.
+ * A missing summary never holds the digest back.
+ */
+export async function summarizeThemes(entries: DigestEntry[], env: Env): Promise<string | undefined> {
+  const numbered = entries.map((entry, index) => `${index + 1}. ${entry.message}`).join('\n\n');
+  try {
+    const summary = await createAIClient(env).complete(numbered, {
+      systemPrompt: SUMMARY_SYSTEM_PROMPT,
+      temperature: 0.3,
+      max_tokens: 300,
+    });
+    return summary.trim() || undefined;
+  } catch (error) {
+    console.error('Failed to summarize digest themes:', error);
+    return undefined;
+  }
+}
@@ -65,15 +65,20 @@ export class GmailAuth {
     return tokenData.access_token;
   }
 
-  async sendEmail(message: string): Promise<void> {
+  async sendEmail(
+    message: string,
+    recipient: string = this.env.RECIPIENT_EMAIL,
+    options: { messageId?: string; subject?: string } = {}
+  ): Promise<void> {
     const accessToken = await this.getValidAccessToken();
     
-    console.log('Sending email to:', this.env.RECIPIENT_EMAIL);
+    console.log('Sending email to:', recipient);
     
     // Create RFC 2822 compliant email message
     const emailContent = [
-      `To: ${this.env.RECIPIENT_EMAIL}`,
-      `Subject: Anonymous Feedback`,
+      `To: ${recipient}`,
+      `Subject: ${options.subject ?? 'Anonymous Feedback'}`,
+      ...(options.messageId ? [`Message-ID: ${options.messageId}`] : []),
       `Content-Type: text/plain; charset=utf-8`,
       ``,
       message
@@ -107,7 +112,7 @@ export class GmailAuth {
       if (response.status === 401) {
         console.log('Access token expired, clearing cache and retrying...');
         this.tokenCache = null;
-        return this.sendEmail(message); // Recursive retry
+        return this.sendEmail(message, recipient, options); // Recursive retry
       }
       
       throw new Error(`Gmail API error: ${response.status} - ${errorText}`);
@@ -0,0 +1,46 @@
+import { Env } from '../types/env';
+
+// Lets development and tests run without a secret; every other environment refuses to use it
+const DEVELOPMENT_SECRET = 'development-only-rate-limit-secret';
+const DEVELOPMENT_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * RATE_LIMIT_SECRET, which keys rate limit hashes and signs challenges and reply links.
+ * When it is unset a fixed development secret is used, but only if ENVIRONMENT is explicitly
+ * development or test: anyone could forge tokens signed with it.
+ */
+export function getServerSecret(env: Env): string {
+  if (env.RATE_LIMIT_SECRET) {
+    return env.RATE_LIMIT_SECRET;
+  }
+  if (!DEVELOPMENT_ENVIRONMENTS.includes(env.ENVIRONMENT)) {
+    throw new Error('RATE_LIMIT_SECRET is required unless ENVIRONMENT is development or test');
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+export async function hmacSha256(key: string | ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+  const rawKey = typeof key === 'string' ? new TextEncoder().encode(key) : key;
+  const cryptoKey = await crypto.subtle.importKey('raw', rawKey, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+}
+
+export function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Compare two strings without returning early on the first difference
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
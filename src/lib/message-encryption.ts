@@ -0,0 +1,159 @@
+import { Env } from '../types/env';
+
+// Lets development and tests run without configured keys; every other environment refuses to use it
+const DEVELOPMENT_KEY_ID = 'development';
+const DEVELOPMENT_KEY_SEED = 'development-only-message-encryption-key';
+
+const DEVELOPMENT_ENVIRONMENTS = ['development', 'test'];
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * A message body encrypted under its own data key, which is in turn encrypted under the
+ * key-encryption key named by keyId. Both are AES-256-GCM, and the message ID is bound in
+ * as additional data so a ciphertext can't be moved to another record.
+ */
+export interface EncryptedMessage {
+  keyId: string;
+  wrappedKey: string;   // Base64 IV + encrypted data key
+  ciphertext: string;   // Base64 IV + encrypted message
+}
+
+export class MessageEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MessageEncryptionError';
+  }
+}
+
+export async function encryptMessage(plaintext: string, messageId: string, env: Env): Promise<EncryptedMessage> {
+  const { keyId, key: keyEncryptionKey } = await getCurrentKey(env);
+  const dataKeyBytes = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+  const dataKey = await importKey(dataKeyBytes);
+
+  return {
+    keyId,
+    wrappedKey: await seal(keyEncryptionKey, dataKeyBytes, messageId),
+    ciphertext: await seal(dataKey, new TextEncoder().encode(plaintext), messageId),
+  };
+}
+
+export async function decryptMessage(encrypted: EncryptedMessage, messageId: string, env: Env): Promise<string> {
+  const keyEncryptionKey = await getKey(encrypted.keyId, env);
+  const dataKey = await importKey(await open(keyEncryptionKey, encrypted.wrappedKey, messageId));
+  return new TextDecoder().decode(await open(dataKey, encrypted.ciphertext, messageId));
+}
+
+/**
+ * Key-encryption keys from MESSAGE_ENCRYPTION_KEYS, a JSON object of key ID to base64 256-bit
+ * key. When it is unset a fixed development key is used, but only if ENVIRONMENT is explicitly
+ * development or test: a deploy without ENVIRONMENT must not encrypt with a public key.
+ */
+function getKeyring(env: Env): Record<string, string> {
+  if (!env.MESSAGE_ENCRYPTION_KEYS) {
+    if (!DEVELOPMENT_ENVIRONMENTS.includes(env.ENVIRONMENT)) {
+      throw new MessageEncryptionError('MESSAGE_ENCRYPTION_KEYS is required unless ENVIRONMENT is development or test');
+    }
+    return {};
+  }
+
+  let keyring: unknown;
+  try {
+    keyring = JSON.parse(env.MESSAGE_ENCRYPTION_KEYS);
+  } catch {
+    throw new MessageEncryptionError('Invalid MESSAGE_ENCRYPTION_KEYS: expected a JSON object of key ID to base64 key');
+  }
+  if (!keyring || typeof keyring !== 'object' || Array.isArray(keyring) || Object.keys(keyring).length === 0) {
+    throw new MessageEncryptionError('Invalid MESSAGE_ENCRYPTION_KEYS: expected a JSON object of key ID to base64 key');
+  }
+  return keyring as Record<string, string>;
+}
+
+/**
+ * The key new messages are encrypted with: MESSAGE_ENCRYPTION_KEY_ID, or the only key in the keyring
+ */
+async function getCurrentKey(env: Env): Promise<{ keyId: string; key: CryptoKey }> {
+  const keyIds = Object.keys(getKeyring(env));
+  if (keyIds.length === 0) {
+    return { keyId: DEVELOPMENT_KEY_ID, key: await getKey(DEVELOPMENT_KEY_ID, env) };
+  }
+
+  const keyId = env.MESSAGE_ENCRYPTION_KEY_ID ?? (keyIds.length === 1 ? keyIds[0] : undefined);
+  if (!keyId) {
+    throw new MessageEncryptionError('MESSAGE_ENCRYPTION_KEY_ID is required when MESSAGE_ENCRYPTION_KEYS has more than one key');
+  }
+  return { keyId, key: await getKey(keyId, env) };
+}
+
+async function getKey(keyId: string, env: Env): Promise<CryptoKey> {
+  const keyring = getKeyring(env);
+
+  if (Object.keys(keyring).length === 0 && keyId === DEVELOPMENT_KEY_ID) {
+    const seed = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(DEVELOPMENT_KEY_SEED));
+    return importKey(new Uint8Array(seed));
+  }
+
+  const encoded = Object.prototype.hasOwnProperty.call(keyring, keyId) ? keyring[keyId] : undefined;
+  if (typeof encoded !== 'string') {
+    throw new MessageEncryptionError(`Unknown message encryption key: ${keyId}`);
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64(encoded);
+  } catch {
+    bytes = new Uint8Array();
+  }
+  if (bytes.length !== KEY_BYTES) {
+    throw new MessageEncryptionError(`Message encryption key ${keyId} must be 32 bytes of base64`);
+  }
+  return importKey(bytes);
+}
+
+function importKey(bytes: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', bytes, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+async function seal(key: CryptoKey, data: Uint8Array, messageId: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(messageId) },
+    key,
+    data
+  );
+  const combined = new Uint8Array(IV_BYTES + sealed.byteLength);
+  combined.set(iv);
+  combined.set(new Uint8Array(sealed), IV_BYTES);
+  return toBase64(combined);
+}
+
+async function open(key: CryptoKey, encoded: string, messageId: string): Promise<Uint8Array> {
+  const combined = fromBase64(encoded);
+  try {
+    const opened = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: combined.slice(0, IV_BYTES), additionalData: new TextEncoder().encode(messageId) },
+      key,
+      combined.slice(IV_BYTES)
+    );
+    return new Uint8Array(opened);
+  } catch {
+    throw new MessageEncryptionError(`Message ${messageId} could not be decrypted`);
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(encoded: string): Uint8Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,176 @@
+import { Env } from '../types/env';
+import { ModerationAction, ModerationReason, ModerationVerdict } from '../types/api';
+import { AIClient } from './ai-client';
+
+export class ModerationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly verdict: ModerationVerdict,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+export interface ModerationTerm {
+  term: string;              // Word or phrase; a trailing * matches any ending ("threat*")
+  action: Exclude<ModerationAction, 'allow'>;
+}
+
+export interface ModerationConfig {
+  terms: ModerationTerm[];
+  allowlist: string[];       // Phrases that never trigger a flag, e.g. "kill the team" as hyperbole
+  classifier: boolean;       // Ask the AI provider for a verdict after the word lists
+}
+
+// Only explicit threats are blocked by default. Single words like "kill" are flagged, since
+// they are common in legitimate feedback ("this deadline will kill the team").
+const DEFAULT_TERMS: ModerationTerm[] = [
+  ...[
+    'i will kill', 'i\'ll kill', 'i am going to kill', 'i\'m going to kill', 'i\'m gonna kill',
+    'i will shoot', 'i\'m going to shoot', 'shoot up the', 'bomb the office', 'heil hitler',
+  ].map(term => ({ term, action: 'block' as const })),
+  ...[
+    'kill', 'die', 'murder*', 'hate', 'nazi*', 'hitler', 'genocide', 'bomb', 'explosion', 'terrorist*',
+  ].map(term => ({ term, action: 'flag' as const })),
+];
+
+const DEFAULT_ALLOWLIST = [
+  'kill the team', 'killing the team', 'killing me', 'killing us', 'kill the project', 'kill the feature',
+  'kill two birds', 'killer feature', 'dead on arrival', 'die down', 'hate to say', 'hate to be',
+  'bomb the demo', 'da bomb', 'going to die on this hill', 'die on this hill',
+];
+
+const CLASSIFIER_PROMPT = 'You are a content moderator for an anonymous workplace feedback form. Harsh, negative or rude feedback is allowed. Reply with only a JSON object {"action": "allow" | "flag" | "block", "reason": "<short reason>"}. Use "block" only for threats of violence, hate speech, harassment of a named person, or sexual content; use "flag" for content a human should double-check.';
+
+const ACTION_ORDER: ModerationAction[] = ['allow', 'flag', 'block'];
+
+/**
+ * Moderation settings: the defaults plus MODERATION_TERMS (JSON object with "block" and
+ * "flag" arrays), MODERATION_ALLOWLIST (JSON array of phrases) and MODERATION_CLASSIFIER=ai
+ */
+export function getModerationConfig(env: Env): ModerationConfig {
+  const custom = parseJsonSetting<{ block?: unknown; flag?: unknown }>(env.MODERATION_TERMS, 'MODERATION_TERMS');
+  const customTerms: ModerationTerm[] = [];
+  if (custom !== undefined) {
+    if (!custom || typeof custom !== 'object' || Array.isArray(custom)) {
+      throw new Error('Invalid MODERATION_TERMS: expected a JSON object with "block" and "flag" arrays');
+    }
+    for (const action of ['block', 'flag'] as const) {
+      customTerms.push(...toStringList(custom[action], `MODERATION_TERMS.${action}`).map(term => ({ term, action })));
+    }
+  }
+
+  const allowlist = toStringList(parseJsonSetting(env.MODERATION_ALLOWLIST, 'MODERATION_ALLOWLIST'), 'MODERATION_ALLOWLIST');
+
+  return {
+    terms: [...customTerms, ...DEFAULT_TERMS],
+    allowlist: [...allowlist, ...DEFAULT_ALLOWLIST],
+    classifier: env.MODERATION_CLASSIFIER === 'ai',
+  };
+}
+
+/**
+ * Run the checks in order: block terms match the full text, the allowlist masks harmless
+ * phrases before flag terms are matched, and the optional AI classifier runs only if nothing
+ * was blocked. The verdict's action is the most severe action of any check.
+ */
+export async function moderateContent(
+  text: string,
+  config: ModerationConfig,
+  aiClient?: AIClient
+): Promise<ModerationVerdict> {
+  // An allowlisted phrase must not hide a threat around it ("I will kill the team lead")
+  const reasons = [
+    ...checkTerms(text, config.terms.filter(term => term.action === 'block')),
+    ...checkTerms(maskAllowlisted(text, config.allowlist), config.terms.filter(term => term.action === 'flag')),
+  ];
+
+  if (config.classifier && aiClient && !reasons.some(reason => reason.action === 'block')) {
+    const reason = await classifyWithAI(text, aiClient);
+    if (reason) {
+      reasons.push(reason);
+    }
+  }
+
+  return { action: mostSevere(reasons.map(reason => reason.action)), reasons };
+}
+
+function checkTerms(text: string, terms: ModerationTerm[]): ModerationReason[] {
+  const reasons: ModerationReason[] = [];
+  for (const { term, action } of terms) {
+    const match = text.match(termPattern(term));
+    if (match) {
+      reasons.push({ check: 'terms', action, code: action === 'block' ? 'blocked_term' : 'flagged_term', match: match[0] });
+    }
+  }
+  return reasons;
+}
+
+async function classifyWithAI(text: string, aiClient: AIClient): Promise<ModerationReason | null> {
+  try {
+    const response = await aiClient.chatCompletion({
+      messages: [
+        { role: 'system', content: CLASSIFIER_PROMPT },
+        { role: 'user', content: text },
+      ],
+      temperature: 0,
+      max_tokens: 100,
+    });
+    const content = response.choices?.[0]?.message?.content ?? '';
+    const json = content.match(/\{[\s\S]*\}/);
+    const result = json ? JSON.parse(json[0]) as { action?: string; reason?: string } : null;
+
+    if (result?.action === 'flag' || result?.action === 'block') {
+      return { check: 'classifier', action: result.action, code: 'classifier', match: String(result.reason ?? '') };
+    }
+    return null;
+  } catch (error) {
+    // The classifier is an extra check; the word lists have already run
+    console.warn('Moderation classifier failed, using word lists only:', error);
+    return null;
+  }
+}
+
+function maskAllowlisted(text: string, allowlist: string[]): string {
+  return allowlist.reduce((masked, phrase) => masked.replace(termPattern(phrase, 'gi'), ' '), text);
+}
+
+function termPattern(term: string, flags: string = 'i'): RegExp {
+  const prefix = term.endsWith('*');
+  const escaped = (prefix ? term.slice(0, -1) : term)
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\s+/g, '\\s+');
+  return new RegExp(`\\b${escaped}${prefix ? '\\w*' : '\\b'}`, flags);
+}
+
+function mostSevere(actions: ModerationAction[]): ModerationAction {
+  return actions.reduce<ModerationAction>(
+    (worst, action) => ACTION_ORDER.indexOf(action) > ACTION_ORDER.indexOf(worst) ? action : worst,
+    'allow'
+  );
+}
+
+function parseJsonSetting<T>(value: string | undefined, name: string): T | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new Error(`Invalid ${name}: not valid JSON`);
+  }
+}
+
+function toStringList(value: unknown, name: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+    throw new Error(`Invalid ${name}: expected an array of non-empty strings`);
+  }
+  return value;
+}
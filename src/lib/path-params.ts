@@ -0,0 +1,16 @@
+/**
+ * The percent-decoded path segments after `prefix`, e.g. ["abc", "approve"] for
+ * "/api/admin/review/abc/approve" under "/api/admin/review". Returns [] when nothing follows
+ * the prefix, and null when a segment is malformed ("%E0"), which callers answer with a 400.
+ */
+export function getPathParams(pathname: string, prefix: string): string[] | null {
+  const path = pathname.slice(prefix.length).replace(/^\/+|\/+$/g, '');
+  if (!path) {
+    return [];
+  }
+  try {
+    return path.split('/').map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,249 @@
+import { Env } from '../types/env';
+import { PersonaOption } from '../types/api';
+
+export interface PersonaExample {
+  input: string;
+  output: string;
+}
+
+export interface Persona {
+  key: string;
+  name: string;
+  description: string;       // Shown to senders when picking a persona
+  systemPrompt: string;
+  temperature: number;       // 0-1
+  examples: PersonaExample[];
+  maxExamples?: number;      // Few-shot examples sent with each prompt (default DEFAULT_MAX_EXAMPLES)
+  enabled: boolean;          // Disabled personas are hidden and rejected
+  createdAt: number;
+  updatedAt: number;
+}
+
+export class PersonaError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'PersonaError';
+  }
+}
+
+export const PERSONA_KEY_PREFIX = 'persona_';
+
+// Set once the presets have been written to KV, so later edits and disables stick
+const SEEDED_MARKER_KEY = 'personas_seeded';
+
+// Examples cost prompt tokens on every request, so only the first few are sent by default
+export const DEFAULT_MAX_EXAMPLES = 3;
+const MAX_EXAMPLES_LIMIT = 10;
+
+const PERSONA_KEY_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+// 'custom', 'none' and 'anonymize' have special meaning in persona selection and transformation results
+const RESERVED_PERSONA_KEYS = ['custom', 'none', 'anonymize'];
+
+// Presets written to the registry the first time it is read
+export const DEFAULT_PERSONAS: Array<Omit<Persona, 'createdAt' | 'updatedAt'>> = [
+  {
+    key: 'internet-random',
+    name: 'Internet Random',
+    description: 'Casual internet slang with abbreviations, mild typos, and meme references',
+    systemPrompt: 'Transform to casual internet slang with abbreviations, mild typos, and meme references. Output only the transformed message with no additional text or commentary.',
+    temperature: 0.8,
+    enabled: true,
+    examples: [
+      {
+        input: 'I think this is a great idea and we should implement it.',
+        output: 'ngl this idea slaps 💯 we should def implement this fr fr'
+      },
+      {
+        input: 'This feature is broken and needs to be fixed.',
+        output: 'yo this feature is busted rn, needs fixing asap ngl'
+      }
+    ]
+  },
+  {
+    key: 'barely-literate',
+    name: 'Barely Literate',
+    description: 'Poor grammar, simple vocabulary, and informal structure',
+    systemPrompt: 'Transform to poor grammar, simple vocabulary, and informal structure. Use run-on sentences, missing punctuation, and basic words. Output only the transformed message with no additional text or commentary.',
+    temperature: 0.7,
+    enabled: true,
+    examples: [
+      {
+        input: 'I disagree with this decision because it seems poorly thought out.',
+        output: 'i dont like this thing cuz it dont make sense to me and stuff'
+      },
+      {
+        input: 'The application performance is significantly degraded.',
+        output: 'the app is really slow and not working good at all'
+      }
+    ]
+  },
+  {
+    key: 'extremely-serious',
+    name: 'Extremely Serious',
+    description: 'Formal, academic language with professional vocabulary',
+    systemPrompt: 'Transform to formal, academic language with professional vocabulary and structure. Use complex sentence structures, formal tone, and precise terminology. Output only the transformed message with no additional text or commentary.',
+    temperature: 0.3,
+    enabled: true,
+    examples: [
+      {
+        input: 'This is really bad and needs to be fixed.',
+        output: 'This matter requires immediate attention and systematic remediation to address the identified deficiencies.'
+      },
+      {
+        input: 'I like this idea a lot.',
+        output: 'I find this proposal to be exceptionally meritorious and worthy of serious consideration for implementation.'
+      }
+    ]
+  },
+  {
+    key: 'super-nice',
+    name: 'Super Nice',
+    description: 'Overly polite, encouraging, and positive language',
+    systemPrompt: 'Transform to overly polite, encouraging, and positive language. Add pleasantries, expressions of gratitude, and positive framing. Output only the transformed message with no additional text or commentary.',
+    temperature: 0.6,
+    enabled: true,
+    examples: [
+      {
+        input: 'This feature is broken and frustrating.',
+        output: 'I hope this feedback is helpful! The feature might benefit from some adjustments as it seems to present challenges for users. Thank you for considering improvements! 😊'
+      },
+      {
+        input: 'I disagree with this approach.',
+        output: 'Thank you for sharing this approach! I was wondering if we might consider some alternative perspectives that could be equally valuable. I really appreciate the opportunity to discuss this! 💕'
+      }
+    ]
+  }
+];
+
+export function isValidPersonaKey(key: unknown): key is string {
+  return typeof key === 'string' && PERSONA_KEY_PATTERN.test(key) && !RESERVED_PERSONA_KEYS.includes(key);
+}
+
+/**
+ * Load a persona by key (enabled or not), or null if it does not exist
+ */
+export async function getPersona(key: string, env: Env): Promise<Persona | null> {
+  if (!isValidPersonaKey(key)) {
+    return null;
+  }
+
+  await seedPersonas(env);
+  const data = await env.MESSAGE_QUEUE.get(`${PERSONA_KEY_PREFIX}${key}`);
+  return data ? JSON.parse(data) as Persona : null;
+}
+
+/**
+ * Load an enabled persona, throwing a PersonaError if it is unknown or disabled
+ */
+export async function requirePersona(key: string, env: Env): Promise<Persona> {
+  const persona = await getPersona(key, env);
+  if (!persona || !persona.enabled) {
+    throw new PersonaError(`Unknown persona: ${key}`);
+  }
+  return persona;
+}
+
+/**
+ * Validate and persist a persona
+ */
+export async function savePersona(persona: Persona, env: Env): Promise<void> {
+  const error = validatePersona(persona);
+  if (error) {
+    throw new PersonaError(error);
+  }
+
+  await seedPersonas(env);
+  await env.MESSAGE_QUEUE.put(`${PERSONA_KEY_PREFIX}${persona.key}`, JSON.stringify(persona));
+}
+
+/**
+ * List all personas, including disabled ones, in creation order
+ */
+export async function listPersonas(env: Env): Promise<Persona[]> {
+  await seedPersonas(env);
+
+  const personas: Persona[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await env.MESSAGE_QUEUE.list({ prefix: PERSONA_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      const data = await env.MESSAGE_QUEUE.get(key.name);
+      if (data) {
+        personas.push(JSON.parse(data));
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return personas.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function listEnabledPersonas(env: Env): Promise<Persona[]> {
+  return (await listPersonas(env)).filter(persona => persona.enabled);
+}
+
+/**
+ * Write the default personas to KV the first time the registry is used.
+ * Existing records are never overwritten.
+ */
+export async function seedPersonas(env: Env): Promise<void> {
+  if (await env.MESSAGE_QUEUE.get(SEEDED_MARKER_KEY)) {
+    return;
+  }
+
+  const now = Date.now();
+  for (const [index, preset] of DEFAULT_PERSONAS.entries()) {
+    const key = `${PERSONA_KEY_PREFIX}${preset.key}`;
+    if (!(await env.MESSAGE_QUEUE.get(key))) {
+      // Backdate by position so the presets keep their order ahead of anything created later
+      const createdAt = now - (DEFAULT_PERSONAS.length - index);
+      const persona: Persona = { ...preset, createdAt, updatedAt: createdAt };
+      await env.MESSAGE_QUEUE.put(key, JSON.stringify(persona));
+    }
+  }
+  await env.MESSAGE_QUEUE.put(SEEDED_MARKER_KEY, String(now));
+}
+
+/**
+ * Public view of a persona for the picker, without its prompt
+ */
+export function toPersonaOption(persona: Persona): PersonaOption {
+  const [example] = persona.examples;
+  return {
+    key: persona.key,
+    name: persona.name,
+    description: persona.description,
+    example: example ? `Original: "${example.input}" → "${example.output}"` : undefined,
+  };
+}
+
+function validatePersona(persona: Persona): string | null {
+  if (!isValidPersonaKey(persona.key)) {
+    return 'Persona key must be 2-63 lowercase letters, digits or dashes, and not "custom", "none" or "anonymize"';
+  }
+  if (!persona.name || typeof persona.name !== 'string') {
+    return 'Persona name is required';
+  }
+  if (!persona.description || typeof persona.description !== 'string') {
+    return 'Persona description is required';
+  }
+  if (!persona.systemPrompt || typeof persona.systemPrompt !== 'string') {
+    return 'Persona system prompt is required';
+  }
+  if (typeof persona.temperature !== 'number' || persona.temperature < 0 || persona.temperature > 1) {
+    return 'Persona temperature must be a number between 0 and 1';
+  }
+  if (!Array.isArray(persona.examples) ||
+      persona.examples.some(example => !example || typeof example.input !== 'string' || typeof example.output !== 'string')) {
+    return 'Persona examples must be an array of {input, output} strings';
+  }
+  if (persona.maxExamples !== undefined &&
+      (!Number.isInteger(persona.maxExamples) || persona.maxExamples < 0 || persona.maxExamples > MAX_EXAMPLES_LIMIT)) {
+    return `Persona maxExamples must be a whole number between 0 and ${MAX_EXAMPLES_LIMIT}`;
+  }
+  if (typeof persona.enabled !== 'boolean') {
+    return 'Persona enabled flag must be a boolean';
+  }
+  return null;
+}
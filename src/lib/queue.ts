@@ -1,29 +1,109 @@
 import { Env } from '../types/env';
-import { GmailAuth } from './gmail-auth';
+import { createDeliveryChannel, getDefaultDeliveryConfig, DeliveryChannel, DeliveryMessage, DigestEntry } from './delivery';
+import { CommentBox, getBox, getBoxDeliveryConfig } from './boxes';
+import { addReplyEntry, getReplyThread, getReplyUrl } from './replies';
+import { setReceiptStatus } from './receipts';
+import { createDeliveryScheduler } from './scheduler';
+import { claimDelivery, isDelivered, markDelivered, releaseDelivery } from './delivery-leases';
+import { EncryptedMessage, decryptMessage, encryptMessage } from './message-encryption';
+import { BatchingConfig, DEFAULT_BATCH, getBatchingConfig, getNextWindow, shouldReleaseBatch, shuffle } from './batching';
+import { DEFAULT_DIGEST, formatDigest, getDigestConfig, getDigestId, getNextDigestTime, summarizeThemes } from './digest';
 
-interface QueuedMessage {
+export interface QueuedMessage {
   id: string;
-  message: string;
+  encryptedMessage?: EncryptedMessage; // Message body, decrypted only for delivery
+  message?: string;         // Plaintext body of records queued before encryption
   queuedAt: number;
   scheduledFor: number;
+  boxId?: string;           // Box the message was sent to; unset means the default recipient
+  attempts?: number;        // Failed delivery attempts so far
+  lastError?: string;       // Error from the most recent failed attempt
+  nextAttemptAt?: number;   // Earliest time of the next retry (Unix ms)
+  replyThreadId?: string;   // Reply thread to link in the delivery and record the message in
+  receiptId?: string;       // Receipt whose status follows this message
+  batch?: string;           // Batch it is released with (box ID or 'default'); unset when not batched
+  digest?: string;          // Digest it is delivered in (box ID or 'default'); unset when delivered on its own
 }
 
+// What else a queued message is tied to
+export interface QueueMessageOptions {
+  replyThreadId?: string;
+  receiptId?: string;
+}
+
+// What a delivery attempt did, so the scheduler knows whether to run it again and when
+export type DeliveryOutcome =
+  | { status: 'delivered' }
+  | { status: 'missing' }                                   // Already delivered, dead-lettered or expired
+  | { status: 'not-due'; dueAt: number }
+  | { status: 'leased'; dueAt: number }                   // Another worker is sending it; dueAt is when its lease runs out
+  | { status: 'retry'; dueAt: number; error: string }
+  | { status: 'dead-letter'; error: string };
+
+// Stored as KV metadata on msg_ keys so the cron sweep can skip messages that are not due without reading them
+interface QueueKeyMetadata {
+  dueAt: number;
+  batch?: string;
+  digest?: string;
+}
+
+// A message read by the cron sweep, with the key it was read from
+interface SweptMessage {
+  key: string;
+  queuedMessage: QueuedMessage;
+}
+
+export interface DeadLetter extends QueuedMessage {
+  failedAt: number;
+}
+
+// Summary of a dead letter that omits the message body
+export interface DeadLetterSummary {
+  id: string;
+  boxId?: string;
+  queuedAt: number;
+  failedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+export const QUEUE_KEY_PREFIX = 'msg_';
+export const DEAD_LETTER_KEY_PREFIX = 'dlq_';
+
+const QUEUE_TTL_SECONDS = 24 * 60 * 60; // 24 hours TTL as safety measure, refreshed on each retry
+const DEAD_LETTER_TTL_SECONDS = 30 * 24 * 60 * 60; // Keep failed messages for 30 days
+const DEFAULT_MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 10 * 60 * 1000; // Matches the cron interval
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const MISSED_DELIVERY_GRACE_MS = 30 * 60 * 1000; // How late a scheduler may be before the cron sweep steps in
+
 export async function queueMessage(
   message: string,
   env: Env,
   ctx: ExecutionContext,
-  testMode: boolean = false
+  testMode: boolean = false,
+  box?: CommentBox,
+  options: QueueMessageOptions = {}
 ): Promise<void> {
   // Generate unique ID
   const messageId = crypto.randomUUID();
   
-  // Calculate delay based on mode and configuration
+  // Calculate delay based on mode and configuration; a digest already groups messages, so it replaces batching
+  const digest = testMode ? null : getDigestConfig(env, box);
+  const batching = testMode || digest ? null : getBatchingConfig(env, box);
   let scheduledFor: number;
   if (testMode) {
     scheduledFor = Date.now(); // Send immediately
+  } else if (digest) {
+    // Delivered with everything else for its recipient at the next digest time
+    scheduledFor = getNextDigestTime(digest, Date.now());
+  } else if (batching) {
+    // Released with the rest of its batch at a window instead of after a delay
+    scheduledFor = getNextWindow(batching, Date.now());
   } else {
-    // Check for parameterized delay
-    const customDelaySeconds = env.QUEUE_DELAY_SECONDS ? parseInt(env.QUEUE_DELAY_SECONDS) : null;
+    // Check for parameterized delay (a box's own delay takes precedence)
+    const customDelaySeconds = box?.deliveryDelaySeconds ??
+      (env.QUEUE_DELAY_SECONDS ? parseInt(env.QUEUE_DELAY_SECONDS) : null);
     
     if (customDelaySeconds !== null) {
       // Use custom delay (in seconds)
@@ -37,70 +117,221 @@ export async function queueMessage(
   
   const queuedMessage: QueuedMessage = {
     id: messageId,
-    message,
+    encryptedMessage: await encryptMessage(message, messageId, env),
     queuedAt: Date.now(),
     scheduledFor,
+    boxId: box?.id,
+    replyThreadId: options.replyThreadId,
+    receiptId: options.receiptId,
+    batch: batching ? (box?.id ?? DEFAULT_BATCH) : undefined,
+    digest: digest ? (box?.id ?? DEFAULT_DIGEST) : undefined,
   };
   
-  // Store in KV with TTL
-  const key = `msg_${messageId}`;
-  await env.MESSAGE_QUEUE.put(key, JSON.stringify(queuedMessage), {
-    expirationTtl: 24 * 60 * 60, // 24 hours TTL as safety measure
-  });
-  
-  // Schedule processing (in production, use Durable Objects or scheduled workers)
-  // For now, we'll use waitUntil to simulate delayed processing
-  ctx.waitUntil(
-    scheduleMessageDelivery(messageId, scheduledFor, env)
-  );
-}
+  await putQueuedMessage(queuedMessage, env);
+  await setReceiptStatus(options.receiptId, 'queued', env);
 
-async function scheduleMessageDelivery(
-  messageId: string,
-  scheduledFor: number,
-  env: Env
-): Promise<void> {
-  // Calculate delay
-  const delay = scheduledFor - Date.now();
-  
-  if (delay > 0) {
-    // For Cloudflare Workers, setTimeout doesn't work reliably for long delays
-    // Instead, we rely on external scheduled workers or cron jobs to process queued messages
-    // For now, log that the message is scheduled and return - scheduled worker will handle it
-    console.log(`Message ${messageId} scheduled for delivery in ${Math.round(delay / 1000 / 60)} minutes`);
-    return;
+  // Batches and digests are sent by the cron sweep, which sees every message in them
+  if (!queuedMessage.batch && !queuedMessage.digest) {
+    ctx.waitUntil(
+      createDeliveryScheduler(env).schedule(messageId, scheduledFor)
+    );
   }
-  
-  // If delay is 0 or negative, send immediately
-  await processQueuedMessage(messageId, env);
 }
 
-async function processQueuedMessage(messageId: string, env: Env): Promise<void> {
-  // Retrieve and send the message
-  const key = `msg_${messageId}`;
+/**
+ * Deliver one queued message if it is due. Called by whichever scheduler is configured;
+ * the outcome tells it whether to run again and when.
+ */
+export async function deliverQueuedMessage(messageId: string, env: Env): Promise<DeliveryOutcome> {
+  const key = `${QUEUE_KEY_PREFIX}${messageId}`;
   const messageData = await env.MESSAGE_QUEUE.get(key);
-  
-  if (messageData) {
-    const queuedMessage: QueuedMessage = JSON.parse(messageData);
-    
-    // Send via email service
-    await sendEmail(queuedMessage.message, env);
-    
-    // Delete from queue
+  if (!messageData) {
+    return { status: 'missing' };
+  }
+
+  const queuedMessage: QueuedMessage = JSON.parse(messageData);
+  const dueAt = getDueTime(queuedMessage);
+  if (dueAt > Date.now()) {
+    return { status: 'not-due', dueAt };
+  }
+  return attemptDelivery(key, queuedMessage, env);
+}
+
+async function attemptDelivery(key: string, queuedMessage: QueuedMessage, env: Env): Promise<DeliveryOutcome> {
+  const lease = await claimDelivery(queuedMessage.id, env);
+  if (lease.token === null) {
+    return { status: 'leased', dueAt: lease.expiresAt };
+  }
+
+  try {
+    if (await isDelivered(queuedMessage.id, env)) {
+      // Sent by an earlier attempt that stopped before removing it from the queue
+      await setReceiptStatus(queuedMessage.receiptId, 'delivered', env);
+      await env.MESSAGE_QUEUE.delete(key);
+      console.log(`Message ${queuedMessage.id} was already sent; removed from queue`);
+      return { status: 'delivered' };
+    }
+
+    try {
+      // Send via the configured delivery channel
+      await deliverMessage(queuedMessage, env);
+    } catch (error) {
+      return await recordDeliveryFailure(key, queuedMessage, error, env);
+    }
+
     await env.MESSAGE_QUEUE.delete(key);
-    
-    console.log(`Message ${messageId} sent and removed from queue`);
+    console.log(`Message ${queuedMessage.id} sent and removed from queue`);
+    return { status: 'delivered' };
+  } finally {
+    await releaseDelivery(queuedMessage.id, lease.token, env);
+  }
+}
+
+async function putQueuedMessage(queuedMessage: QueuedMessage, env: Env): Promise<void> {
+  const dueAt = getDueTime(queuedMessage);
+  const metadata: QueueKeyMetadata = { dueAt, batch: queuedMessage.batch, digest: queuedMessage.digest };
+  // A batched or digest message can wait longer than the TTL for its window
+  const waitSeconds = queuedMessage.batch || queuedMessage.digest ? Math.max(0, Math.ceil((dueAt - Date.now()) / 1000)) : 0;
+  await env.MESSAGE_QUEUE.put(`${QUEUE_KEY_PREFIX}${queuedMessage.id}`, JSON.stringify(queuedMessage), {
+    expirationTtl: QUEUE_TTL_SECONDS + waitSeconds,
+    metadata,
+  });
+}
+
+// Retries wait for their backoff
+function getDueTime(queuedMessage: QueuedMessage): number {
+  return queuedMessage.nextAttemptAt ?? queuedMessage.scheduledFor;
+}
+
+/**
+ * Record a failed attempt: schedule a retry with exponential backoff,
+ * or move the message to the dead-letter store once attempts are exhausted.
+ */
+async function recordDeliveryFailure(
+  key: string,
+  queuedMessage: QueuedMessage,
+  error: unknown,
+  env: Env
+): Promise<DeliveryOutcome> {
+  const now = Date.now();
+  const attempts = (queuedMessage.attempts ?? 0) + 1;
+  const lastError = error instanceof Error ? error.message : String(error);
+
+  if (attempts >= getMaxAttempts(env)) {
+    const deadLetter: DeadLetter = {
+      ...queuedMessage,
+      attempts,
+      lastError,
+      nextAttemptAt: undefined,
+      failedAt: now,
+    };
+    await env.MESSAGE_QUEUE.put(`${DEAD_LETTER_KEY_PREFIX}${queuedMessage.id}`, JSON.stringify(deadLetter), {
+      expirationTtl: DEAD_LETTER_TTL_SECONDS,
+    });
+    await env.MESSAGE_QUEUE.delete(key);
+    await setReceiptStatus(queuedMessage.receiptId, 'failed', env);
+    console.error(`Message ${queuedMessage.id} moved to dead-letter store after ${attempts} attempts: ${lastError}`);
+    return { status: 'dead-letter', error: lastError };
   }
+
+  // The batch it was part of has been released, so the retry goes out on its own
+  const updated: QueuedMessage = {
+    ...queuedMessage,
+    batch: undefined,
+    attempts,
+    lastError,
+    nextAttemptAt: now + getRetryDelay(attempts),
+  };
+  await putQueuedMessage(updated, env);
+  return { status: 'retry', dueAt: updated.nextAttemptAt!, error: lastError };
 }
 
-async function sendEmail(message: string, env: Env): Promise<void> {
+/**
+ * Backoff before the next attempt: 10 min, 20 min, 40 min, ... capped at 6 hours
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+}
+
+function getMaxAttempts(env: Env): number {
+  const configured = env.QUEUE_MAX_ATTEMPTS ? parseInt(env.QUEUE_MAX_ATTEMPTS) : NaN;
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_ATTEMPTS;
+}
+
+async function deliverMessage(queuedMessage: QueuedMessage, env: Env): Promise<void> {
+  let text: string;
   try {
-    const gmailAuth = new GmailAuth(env);
-    await gmailAuth.sendEmail(message);
+    text = await readMessageText(queuedMessage, env);
+    const { channel, message } = await resolveDelivery(queuedMessage, text, env);
+    await channel.deliver(message);
   } catch (error) {
-    console.error('Failed to send email:', error);
+    console.error('Failed to deliver message:', error);
     throw error;
   }
+
+  await recordDelivery(queuedMessage, text, env);
+}
+
+async function readMessageText(queuedMessage: QueuedMessage, env: Env): Promise<string> {
+  if (queuedMessage.encryptedMessage) {
+    return decryptMessage(queuedMessage.encryptedMessage, queuedMessage.id, env);
+  }
+  if (typeof queuedMessage.message === 'string') {
+    return queuedMessage.message;
+  }
+  throw new Error(`Message ${queuedMessage.id} has no body`);
+}
+
+// Failing here must not fail the delivery, or the retry would send the message twice
+async function recordDelivery(queuedMessage: QueuedMessage, text: string, env: Env): Promise<void> {
+  try {
+    await markDelivered(queuedMessage.id, env);
+  } catch (error) {
+    console.error(`Failed to mark message ${queuedMessage.id} as delivered:`, error);
+  }
+
+  try {
+    await setReceiptStatus(queuedMessage.receiptId, 'delivered', env);
+  } catch (error) {
+    console.error(`Failed to update the receipt for message ${queuedMessage.id}:`, error);
+  }
+
+  if (!queuedMessage.replyThreadId) {
+    return;
+  }
+  try {
+    const thread = await getReplyThread(queuedMessage.replyThreadId, env);
+    if (thread) {
+      await addReplyEntry(thread, 'sender', text, env);
+    }
+  } catch (error) {
+    console.error(`Failed to record message in reply thread ${queuedMessage.replyThreadId}:`, error);
+  }
+}
+
+async function resolveDelivery(
+  queuedMessage: QueuedMessage,
+  text: string,
+  env: Env
+): Promise<{ channel: DeliveryChannel; message: DeliveryMessage }> {
+  const message: DeliveryMessage = { id: queuedMessage.id, message: text };
+  if (queuedMessage.replyThreadId) {
+    message.replyUrl = await getReplyUrl(queuedMessage.replyThreadId, env) ?? undefined;
+  }
+
+  if (!queuedMessage.boxId) {
+    return { channel: createDeliveryChannel(getDefaultDeliveryConfig(env), env), message };
+  }
+
+  // Never fall back to the default channel: a message for a deleted box must not leak elsewhere
+  const box = await getBox(queuedMessage.boxId, env);
+  if (!box) {
+    throw new Error(`Comment box ${queuedMessage.boxId} no longer exists`);
+  }
+  return {
+    channel: createDeliveryChannel(getBoxDeliveryConfig(box), env),
+    message: { ...message, boxId: box.id, title: box.title },
+  };
 }
 
 function getRandomDelayForEnvironment(environment: string): number {
@@ -128,35 +359,78 @@ function getRandomDelayForEnvironment(environment: string): number {
   }
 }
 
-// Function to process all queued messages that are ready to be sent
+/**
+ * Cron sweep: deliver every queued message that is due, reading only those whose key metadata
+ * says they are due. With a Durable Object or Queues scheduler the sweep only picks up messages
+ * that are overdue by MISSED_DELIVERY_GRACE_MS, so it does not race the scheduler. Batched
+ * messages are only released here: each batch that has reached its window goes out together.
+ * Digest messages are too: everything due for a digest is sent as one delivery.
+ */
 export async function processQueuedMessages(env: Env): Promise<{processed: number, errors: string[]}> {
-  const currentTime = Date.now();
   const result = {processed: 0, errors: [] as string[]};
   
   try {
-    // List all queued messages
-    const messagesList = await env.MESSAGE_QUEUE.list({ prefix: 'msg_' });
-    
-    for (const key of messagesList.keys) {
-      try {
-        const messageData = await env.MESSAGE_QUEUE.get(key.name);
-        if (messageData) {
-          const queuedMessage: QueuedMessage = JSON.parse(messageData);
-          
-          // Check if the message is ready to be sent
-          if (queuedMessage.scheduledFor <= currentTime) {
-            // Send the message
-            await sendEmail(queuedMessage.message, env);
-            
-            // Delete from queue
-            await env.MESSAGE_QUEUE.delete(key.name);
-            
-            result.processed++;
-            console.log(`Processed queued message ${queuedMessage.id}`);
+    const now = Date.now();
+    const graceMs = createDeliveryScheduler(env).name === 'kv' ? 0 : MISSED_DELIVERY_GRACE_MS;
+    const cutoff = now - graceMs;
+    const batches = new Map<string, SweptMessage[]>();
+    const digests = new Map<string, SweptMessage[]>();
+    let cursor: string | undefined;
+
+    do {
+      const page = await env.MESSAGE_QUEUE.list<QueueKeyMetadata>({ prefix: QUEUE_KEY_PREFIX, cursor });
+      for (const key of page.keys) {
+        // Records written before due times were kept in metadata have to be read
+        if (key.metadata && key.metadata.dueAt > (key.metadata.batch || key.metadata.digest ? now : cutoff)) {
+          continue;
+        }
+
+        try {
+          const messageData = await env.MESSAGE_QUEUE.get(key.name);
+          if (!messageData) {
+            continue;
+          }
+          const queuedMessage = JSON.parse(messageData) as QueuedMessage;
+
+          if (queuedMessage.digest) {
+            if (getDueTime(queuedMessage) <= now) {
+              const digest = digests.get(queuedMessage.digest) ?? [];
+              digest.push({ key: key.name, queuedMessage });
+              digests.set(queuedMessage.digest, digest);
+            }
+          } else if (queuedMessage.batch) {
+            if (getDueTime(queuedMessage) <= now) {
+              const batch = batches.get(queuedMessage.batch) ?? [];
+              batch.push({ key: key.name, queuedMessage });
+              batches.set(queuedMessage.batch, batch);
+            }
+          } else if (getDueTime(queuedMessage) <= cutoff) {
+            await sweepMessage(key.name, queuedMessage, env, result);
           }
+        } catch (error) {
+          const errorMsg = `Error processing message ${key.name}: ${error instanceof Error ? error.message : String(error)}`;
+          result.errors.push(errorMsg);
+          console.error(errorMsg);
         }
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    for (const [batch, entries] of batches) {
+      try {
+        await releaseBatch(batch, entries, now, env, result);
+      } catch (error) {
+        const errorMsg = `Error releasing batch ${batch}: ${error instanceof Error ? error.message : String(error)}`;
+        result.errors.push(errorMsg);
+        console.error(errorMsg);
+      }
+    }
+
+    for (const [digest, entries] of digests) {
+      try {
+        await sendDigest(digest, entries, env, result);
       } catch (error) {
-        const errorMsg = `Error processing message ${key.name}: ${error instanceof Error ? error.message : String(error)}`;
+        const errorMsg = `Error sending digest ${digest}: ${error instanceof Error ? error.message : String(error)}`;
         result.errors.push(errorMsg);
         console.error(errorMsg);
       }
@@ -168,4 +442,221 @@ export async function processQueuedMessages(env: Env): Promise<{processed: numbe
   }
   
   return result;
-}
\ No newline at end of file
+}
+
+async function sweepMessage(
+  key: string,
+  queuedMessage: QueuedMessage,
+  env: Env,
+  result: { processed: number; errors: string[] }
+): Promise<void> {
+  const outcome = await attemptDelivery(key, queuedMessage, env);
+  if (outcome.status === 'delivered') {
+    result.processed++;
+    console.log(`Processed queued message ${queuedMessage.id}`);
+  } else if (outcome.status === 'retry' || outcome.status === 'dead-letter') {
+    const errorMsg = `Error processing message ${key}: ${outcome.error}`;
+    result.errors.push(errorMsg);
+    console.error(errorMsg);
+  }
+}
+
+/**
+ * Deliver a batch that has reached its window, in random order, if it is big enough or its
+ * oldest message has been held long enough. Otherwise every message waits for the next window.
+ */
+async function releaseBatch(
+  batch: string,
+  entries: SweptMessage[],
+  now: number,
+  env: Env,
+  result: { processed: number; errors: string[] }
+): Promise<void> {
+  let config: BatchingConfig | null;
+  if (batch === DEFAULT_BATCH) {
+    config = getBatchingConfig(env);
+  } else {
+    // A deleted box's messages are released so they fail and dead-letter instead of waiting forever
+    const box = await getBox(batch, env);
+    config = box ? getBatchingConfig(env, box) : null;
+  }
+
+  if (config && !shouldReleaseBatch(config, entries.map(({ queuedMessage }) => queuedMessage.queuedAt), now)) {
+    const nextWindow = getNextWindow(config, now);
+    for (const { queuedMessage } of entries) {
+      await putQueuedMessage({ ...queuedMessage, scheduledFor: nextWindow }, env);
+    }
+    console.log(`Holding ${entries.length} message(s) in batch ${batch} until the next window`);
+    return;
+  }
+
+  for (const { key, queuedMessage } of shuffle(entries)) {
+    try {
+      await sweepMessage(key, queuedMessage, env, result);
+    } catch (error) {
+      const errorMsg = `Error processing message ${key}: ${error instanceof Error ? error.message : String(error)}`;
+      result.errors.push(errorMsg);
+      console.error(errorMsg);
+    }
+  }
+}
+
+/**
+ * List dead-lettered messages without their content
+ */
+export async function listDeadLetters(env: Env): Promise<DeadLetterSummary[]> {
+  const summaries: DeadLetterSummary[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await env.MESSAGE_QUEUE.list({ prefix: DEAD_LETTER_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      const data = await env.MESSAGE_QUEUE.get(key.name);
+      if (data) {
+        const deadLetter: DeadLetter = JSON.parse(data);
+        summaries.push({
+          id: deadLetter.id,
+          boxId: deadLetter.boxId,
+          queuedAt: deadLetter.queuedAt,
+          failedAt: deadLetter.failedAt,
+          attempts: deadLetter.attempts ?? 0,
+          lastError: deadLetter.lastError,
+        });
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return summaries;
+}
+
+/**
+ * Send every due message in a digest as one delivery. The digest is leased like a single
+ * message so overlapping sweeps don't both send it; if the send fails, each message records
+ * the failure and stays in the digest for its retry.
+ */
+async function sendDigest(
+  digest: string,
+  entries: SweptMessage[],
+  env: Env,
+  result: { processed: number; errors: string[] }
+): Promise<void> {
+  const lease = await claimDelivery(`digest_${digest}`, env);
+  if (lease.token === null) {
+    return;
+  }
+
+  try {
+    // Drop messages a previous sweep sent but did not remove
+    const pending: SweptMessage[] = [];
+    for (const entry of entries) {
+      if (await isDelivered(entry.queuedMessage.id, env)) {
+        await setReceiptStatus(entry.queuedMessage.receiptId, 'delivered', env);
+        await env.MESSAGE_QUEUE.delete(entry.key);
+      } else {
+        pending.push(entry);
+      }
+    }
+    if (pending.length === 0) {
+      return;
+    }
+    pending.sort((a, b) => a.queuedMessage.queuedAt - b.queuedMessage.queuedAt);
+
+    const texts: string[] = [];
+    try {
+      // Every message in a digest goes to the same box, so any of them gives the channel
+      const digestEntries: DigestEntry[] = [];
+      let delivery!: { channel: DeliveryChannel; message: DeliveryMessage };
+      for (const { queuedMessage } of pending) {
+        const text = await readMessageText(queuedMessage, env);
+        delivery = await resolveDelivery(queuedMessage, text, env);
+        texts.push(text);
+        digestEntries.push({ message: text, replyUrl: delivery.message.replyUrl });
+      }
+
+      const { channel, message } = delivery;
+      const box = message.boxId ? await getBox(message.boxId, env) : null;
+      const summary = getDigestConfig(env, box ?? undefined)?.summary
+        ? await summarizeThemes(digestEntries, env)
+        : undefined;
+      await channel.deliver({
+        id: await getDigestId(pending.map(({ queuedMessage }) => queuedMessage.id)),
+        message: formatDigest(digestEntries, summary),
+        boxId: message.boxId,
+        title: message.title,
+        digest: { summary, entries: digestEntries },
+      });
+    } catch (error) {
+      for (const { key, queuedMessage } of pending) {
+        await recordDeliveryFailure(key, queuedMessage, error, env);
+      }
+      const errorMsg = `Error sending digest ${digest}: ${error instanceof Error ? error.message : String(error)}`;
+      result.errors.push(errorMsg);
+      console.error(errorMsg);
+      return;
+    }
+
+    for (const [index, { key, queuedMessage }] of pending.entries()) {
+      await recordDelivery(queuedMessage, texts[index], env);
+      await env.MESSAGE_QUEUE.delete(key);
+    }
+    result.processed += pending.length;
+    console.log(`Sent digest ${digest} with ${pending.length} message(s)`);
+  } finally {
+    await releaseDelivery(`digest_${digest}`, lease.token, env);
+  }
+}
+
+/**
+ * Move a dead letter back into the delivery queue with a fresh attempt budget.
+ * Returns false if no such dead letter exists.
+ */
+export async function requeueDeadLetter(messageId: string, env: Env): Promise<boolean> {
+  const deadLetterKey = `${DEAD_LETTER_KEY_PREFIX}${messageId}`;
+  const data = await env.MESSAGE_QUEUE.get(deadLetterKey);
+  if (!data) {
+    return false;
+  }
+
+  const deadLetter: DeadLetter = JSON.parse(data);
+  const queuedMessage: QueuedMessage = {
+    id: deadLetter.id,
+    encryptedMessage: deadLetter.encryptedMessage,
+    message: deadLetter.message,
+    queuedAt: deadLetter.queuedAt,
+    scheduledFor: Date.now(),
+    boxId: deadLetter.boxId,
+    attempts: 0,
+    replyThreadId: deadLetter.replyThreadId,
+    receiptId: deadLetter.receiptId,
+  };
+
+  await putQueuedMessage(queuedMessage, env);
+  await env.MESSAGE_QUEUE.delete(deadLetterKey);
+  await setReceiptStatus(queuedMessage.receiptId, 'queued', env);
+
+  // The cron sweep picks it up under KV; the other schedulers only deliver what they are given
+  const scheduler = createDeliveryScheduler(env);
+  if (scheduler.name !== 'kv') {
+    await scheduler.schedule(messageId, queuedMessage.scheduledFor);
+  }
+  return true;
+}
+
+/**
+ * Permanently delete one dead letter
+ */
+export async function purgeDeadLetter(messageId: string, env: Env): Promise<void> {
+  await env.MESSAGE_QUEUE.delete(`${DEAD_LETTER_KEY_PREFIX}${messageId}`);
+}
+
+/**
+ * Permanently delete all dead letters, returning how many were removed
+ */
+export async function purgeDeadLetters(env: Env): Promise<number> {
+  const deadLetters = await listDeadLetters(env);
+  for (const deadLetter of deadLetters) {
+    await purgeDeadLetter(deadLetter.id, env);
+  }
+  return deadLetters.length;
+}
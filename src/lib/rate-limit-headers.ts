@@ -0,0 +1,35 @@
+import { RateLimitResult } from './rate-limiter';
+
+// Readable by cross-origin callers such as the embeddable widget
+export const RATE_LIMIT_HEADER_NAMES = ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'];
+
+/**
+ * RateLimit-* headers in the IETF draft format, where RateLimit-Reset is the number of
+ * seconds until the window resets rather than a timestamp
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Reset': String(secondsUntil(result.reset)),
+  };
+  // A backend that cannot count gives no RateLimit-Remaining rather than a made-up one
+  if (result.remaining !== undefined) {
+    headers['RateLimit-Remaining'] = String(Math.max(0, result.remaining));
+  }
+  return headers;
+}
+
+/**
+ * Headers for a 429: the RateLimit-* headers with nothing remaining, plus Retry-After
+ */
+export function rateLimitExceededHeaders(limit: number, reset: number): Record<string, string> {
+  return {
+    ...rateLimitHeaders({ limit, remaining: 0, reset }),
+    // At least a second, so clients never retry immediately
+    'Retry-After': String(Math.max(1, secondsUntil(reset))),
+  };
+}
+
+function secondsUntil(timestamp: number): number {
+  return Math.max(0, Math.ceil((timestamp - Date.now()) / 1000));
+}
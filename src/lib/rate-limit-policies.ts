@@ -0,0 +1,58 @@
+import { Env } from '../types/env';
+import { RateLimitConfig, RateLimiter } from './rate-limiter';
+
+export type RateLimitPolicyName = 'preview' | 'submit' | 'chat';
+
+export const RATE_LIMIT_POLICY_NAMES: RateLimitPolicyName[] = ['preview', 'submit', 'chat'];
+
+// Previews are cheap to retry while picking a persona; sending is what needs throttling
+export const DEFAULT_RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitConfig> = {
+  preview: { windowMs: 60 * 1000, maxRequests: 10 },       // 10 per minute
+  submit: { windowMs: 60 * 60 * 1000, maxRequests: 3 },    // 3 per hour
+  chat: { windowMs: 60 * 1000, maxRequests: 20 },          // 20 per minute
+};
+
+// KV rejects expirations under 60 seconds, and the KV backend expires a window's counter with it
+const MIN_WINDOW_MS = 60 * 1000;
+
+/**
+ * Policies for this deployment: the defaults, overridden per endpoint by RATE_LIMIT_POLICIES,
+ * a JSON object such as {"submit": {"maxRequests": 5, "windowMs": 3600000}}
+ */
+export function getRateLimitPolicies(env: Env): Record<RateLimitPolicyName, RateLimitConfig> {
+  const policies = { ...DEFAULT_RATE_LIMIT_POLICIES };
+  if (!env.RATE_LIMIT_POLICIES) {
+    return policies;
+  }
+
+  let custom: Record<string, unknown>;
+  try {
+    custom = JSON.parse(env.RATE_LIMIT_POLICIES);
+  } catch {
+    throw new Error('Invalid RATE_LIMIT_POLICIES: not valid JSON');
+  }
+  if (!custom || typeof custom !== 'object' || Array.isArray(custom)) {
+    throw new Error('Invalid RATE_LIMIT_POLICIES: expected a JSON object of endpoint to policy');
+  }
+
+  for (const [name, value] of Object.entries(custom)) {
+    if (!RATE_LIMIT_POLICY_NAMES.includes(name as RateLimitPolicyName)) {
+      throw new Error(`Invalid RATE_LIMIT_POLICIES: unknown policy "${name}" (expected ${RATE_LIMIT_POLICY_NAMES.join(', ')})`);
+    }
+    const policy = { ...policies[name as RateLimitPolicyName], ...(value as Partial<RateLimitConfig>) };
+    if (!Number.isInteger(policy.maxRequests) || policy.maxRequests < 1 ||
+        !Number.isInteger(policy.windowMs) || policy.windowMs < MIN_WINDOW_MS) {
+      throw new Error(`Invalid RATE_LIMIT_POLICIES: "${name}" needs a whole maxRequests of at least 1 and windowMs of at least ${MIN_WINDOW_MS}`);
+    }
+    policies[name as RateLimitPolicyName] = { windowMs: policy.windowMs, maxRequests: policy.maxRequests };
+  }
+
+  return policies;
+}
+
+/**
+ * Rate limiter for one endpoint, counting in its own bucket
+ */
+export function getRateLimiter(name: RateLimitPolicyName, env: Env): RateLimiter {
+  return new RateLimiter({ ...getRateLimitPolicies(env)[name], bucket: name });
+}
@@ -0,0 +1,64 @@
+import { RateLimitHit, RateLimitObjectRequest } from './rate-limiter';
+
+const TIMESTAMPS_KEY = 'timestamps';
+
+/**
+ * Durable Object holding the sliding-window log for one rate limit key. The log is kept
+ * in memory and checked and updated synchronously, so no two requests can interleave
+ * between the check and the increment. It is persisted so limits survive eviction, and
+ * an alarm clears it once the window has passed.
+ */
+export class RateLimiterDurableObject {
+  private timestamps: number[] = [];
+
+  constructor(private readonly state: DurableObjectState) {
+    state.blockConcurrencyWhile(async () => {
+      this.timestamps = await state.storage.get<number[]>(TIMESTAMPS_KEY) ?? [];
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const body = await request.json() as RateLimitObjectRequest;
+
+    if (body.action === 'reset') {
+      this.timestamps = [];
+      await this.state.storage.deleteAll();
+      return jsonResponse({ allowed: true, count: 0, reset: Date.now() });
+    }
+
+    const { windowMs, maxRequests } = body;
+    if (!(windowMs > 0) || !(maxRequests > 0)) {
+      return new Response('windowMs and maxRequests must be positive numbers', { status: 400 });
+    }
+
+    const now = Date.now();
+    this.timestamps = this.timestamps.filter(timestamp => timestamp > now - windowMs);
+
+    const allowed = this.timestamps.length < maxRequests;
+    if (body.action === 'hit' && allowed) {
+      this.timestamps.push(now);
+      await this.state.storage.put(TIMESTAMPS_KEY, this.timestamps);
+      await this.state.storage.setAlarm(now + windowMs);
+    }
+
+    const hit: RateLimitHit = {
+      allowed,
+      count: this.timestamps.length,
+      // A slot frees up when the oldest request in the window slides out
+      reset: (this.timestamps[0] ?? now) + windowMs,
+    };
+    return jsonResponse(hit);
+  }
+
+  async alarm(): Promise<void> {
+    // Set for the newest request's expiry, so the whole log is stale by now
+    this.timestamps = [];
+    await this.state.storage.deleteAll();
+  }
+}
+
+function jsonResponse(data: RateLimitHit): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -1,7 +1,8 @@
 import { Env } from '../types/env';
+import { getServerSecret, hmacSha256, toHex } from './hmac';
 
 export interface RateLimitResult {
-  remaining: number;
+  remaining?: number;    // Left out when the backend cannot count requests (the native binding)
   reset: number; // Unix timestamp
   limit: number;
 }
@@ -9,8 +10,30 @@ export interface RateLimitResult {
 export interface RateLimitConfig {
   windowMs: number;      // 60000 (1 minute)
   maxRequests: number;   // 10
+  bucket?: string;       // Namespaces the key so each endpoint counts separately
 }
 
+// Outcome of counting (or peeking at) one request against a key's window
+export interface RateLimitHit {
+  allowed: boolean;
+  count?: number; // Requests in the current window, including this one if allowed; unknown for the native binding
+  reset: number;  // Unix timestamp (ms) when a request next becomes available
+}
+
+/**
+ * Storage for rate limit counters. hit() must check and count in one step so that
+ * concurrent requests cannot both take the last slot.
+ */
+export interface RateLimitBackend {
+  hit(key: string, config: RateLimitConfig): Promise<RateLimitHit>;
+  peek(key: string, config: RateLimitConfig): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+export type RateLimitBackendName = 'durable-object' | 'native' | 'kv';
+
+const RATE_LIMIT_BACKENDS: RateLimitBackendName[] = ['durable-object', 'native', 'kv'];
+
 export class RateLimitError extends Error {
   constructor(
     public readonly count: number,
@@ -34,69 +57,193 @@ export class RateLimiter {
   }
 
   /**
-   * Generate rate limiting key from IP and session ID
+   * Generate rate limiting key from IP and session ID. The IP is never stored: the key holds
+   * an HMAC of the client, salted per day from RATE_LIMIT_SECRET.
    */
-  generateKey(request: Request): string {
+  async generateKey(request: Request, env: Env): Promise<string> {
     const ip = request.headers.get('CF-Connecting-IP') || 
-               request.headers.get('X-Forwarded-For') || 
+               request.headers.get('X-Forwarded-For')?.split(',')[0].trim() || 
                request.headers.get('X-Real-IP') || 
                'unknown';
     const sessionId = request.headers.get('X-Session-ID') || 'default';
-    return `rate_limit:${ip}:${sessionId}`;
+    const client = await hashClientId(`${ip}:${sessionId}`, env);
+    return this.config.bucket
+      ? `rate_limit:${this.config.bucket}:${client}`
+      : `rate_limit:${client}`;
   }
 
   /**
    * Check if request exceeds rate limit and increment counter
    */
   async checkLimit(key: string, env: Env): Promise<RateLimitResult> {
-    // Use KV store as Redis alternative in Cloudflare Workers
-    const current = await env.MESSAGE_QUEUE.get(key);
+    const hit = await createRateLimitBackend(env).hit(key, this.config);
+    if (!hit.allowed) {
+      throw new RateLimitError(hit.count ?? this.config.maxRequests, hit.reset);
+    }
+    return this.toResult(hit);
+  }
+
+  /**
+   * Get current rate limit status without incrementing counter
+   */
+  async getStatus(key: string, env: Env): Promise<RateLimitResult> {
+    return this.toResult(await createRateLimitBackend(env).peek(key, this.config));
+  }
+
+  /**
+   * Reset rate limit for a given key (for testing purposes)
+   */
+  async resetLimit(key: string, env: Env): Promise<void> {
+    await createRateLimitBackend(env).reset(key);
+  }
+
+  private toResult(hit: RateLimitHit): RateLimitResult {
+    return {
+      remaining: hit.count === undefined ? undefined : Math.max(0, this.config.maxRequests - hit.count),
+      reset: hit.reset,
+      limit: this.config.maxRequests
+    };
+  }
+}
+
+/**
+ * Hex HMAC of a client identifier under a salt that changes every UTC day, so keys from
+ * different days can't be linked and the IP can't be recovered without the secret.
+ * Counters restart at midnight UTC as a result.
+ */
+export async function hashClientId(clientId: string, env: Env, now: number = Date.now()): Promise<string> {
+  const day = new Date(now).toISOString().slice(0, 10);
+  const dailySalt = await hmacSha256(getServerSecret(env), `rate-limit-salt:${day}`);
+  const digest = await hmacSha256(dailySalt, clientId);
+  return toHex(new Uint8Array(digest).slice(0, 16));
+}
+
+/**
+ * Backend for this deployment: RATE_LIMIT_BACKEND if set, otherwise the Durable Object
+ * when RATE_LIMITER_DO is bound, otherwise KV
+ */
+export function createRateLimitBackend(env: Env): RateLimitBackend {
+  const name = env.RATE_LIMIT_BACKEND ?? (env.RATE_LIMITER_DO ? 'durable-object' : 'kv');
+  if (!RATE_LIMIT_BACKENDS.includes(name)) {
+    throw new Error(`Invalid RATE_LIMIT_BACKEND: expected one of ${RATE_LIMIT_BACKENDS.join(', ')}`);
+  }
+
+  switch (name) {
+    case 'durable-object':
+      if (!env.RATE_LIMITER_DO) {
+        throw new Error('RATE_LIMIT_BACKEND is "durable-object" but the RATE_LIMITER_DO binding is missing');
+      }
+      return new DurableObjectRateLimitBackend(env.RATE_LIMITER_DO);
+    case 'native':
+      if (!env.RATE_LIMITER) {
+        throw new Error('RATE_LIMIT_BACKEND is "native" but the RATE_LIMITER binding is missing');
+      }
+      return new NativeRateLimitBackend(env.RATE_LIMITER);
+    case 'kv':
+      return new KVRateLimitBackend(env.MESSAGE_QUEUE);
+  }
+}
+
+/**
+ * Sliding-window counters in a Durable Object, one object per key. The object handles
+ * one request at a time, so the check and the increment are atomic.
+ */
+export class DurableObjectRateLimitBackend implements RateLimitBackend {
+  constructor(private readonly namespace: DurableObjectNamespace) {}
+
+  hit(key: string, config: RateLimitConfig): Promise<RateLimitHit> {
+    return this.send(key, { action: 'hit', ...config });
+  }
+
+  peek(key: string, config: RateLimitConfig): Promise<RateLimitHit> {
+    return this.send(key, { action: 'peek', ...config });
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.send(key, { action: 'reset' });
+  }
+
+  private async send(key: string, body: RateLimitObjectRequest): Promise<RateLimitHit> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    const response = await stub.fetch('https://rate-limiter/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Rate limiter object returned ${response.status}`);
+    }
+    return response.json() as Promise<RateLimitHit>;
+  }
+}
+
+/**
+ * Cloudflare's ratelimit binding. Its limit and period come from wrangler.toml, so the
+ * RateLimitConfig and the policies are ignored. It does not report counts either, so hits
+ * carry no count and the reset time is only an estimate from the policy's window.
+ */
+export class NativeRateLimitBackend implements RateLimitBackend {
+  constructor(private readonly binding: Env['RATE_LIMITER']) {}
+
+  async hit(key: string, config: RateLimitConfig): Promise<RateLimitHit> {
+    const { success } = await this.binding.limit({ key });
+    return { allowed: success, reset: Date.now() + config.windowMs };
+  }
+
+  async peek(_key: string, config: RateLimitConfig): Promise<RateLimitHit> {
+    return { allowed: true, reset: Date.now() + config.windowMs };
+  }
+
+  async reset(): Promise<void> {
+    // The binding has no way to clear a key; its window expires on its own
+  }
+}
+
+/**
+ * Fixed-window counters in KV. KV is eventually consistent and the read and write are
+ * separate, so concurrent bursts can exceed the limit; kept as the fallback when no
+ * Durable Object is bound.
+ */
+export class KVRateLimitBackend implements RateLimitBackend {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async hit(key: string, config: RateLimitConfig): Promise<RateLimitHit> {
+    const current = await this.kv.get(key);
     const count = current ? parseInt(current) || 0 : 0;
-    
-    if (count >= this.config.maxRequests) {
+
+    if (count >= config.maxRequests) {
       // Get TTL info from metadata
-      const { metadata } = await env.MESSAGE_QUEUE.getWithMetadata(key);
-      const resetTime = (metadata as { resetTime?: number })?.resetTime || Date.now() + this.config.windowMs;
-      
-      throw new RateLimitError(count, resetTime);
+      const { metadata } = await this.kv.getWithMetadata(key);
+      const resetTime = (metadata as { resetTime?: number })?.resetTime || Date.now() + config.windowMs;
+      return { allowed: false, count, reset: resetTime };
     }
 
     // Increment counter
     const newCount = count + 1;
-    const resetTime = Date.now() + this.config.windowMs;
-    
+    const resetTime = Date.now() + config.windowMs;
+
     // Store with TTL
-    await env.MESSAGE_QUEUE.put(key, newCount.toString(), {
-      expirationTtl: Math.floor(this.config.windowMs / 1000),
+    await this.kv.put(key, newCount.toString(), {
+      expirationTtl: Math.floor(config.windowMs / 1000),
       metadata: { resetTime }
     });
 
-    return {
-      remaining: this.config.maxRequests - newCount,
-      reset: resetTime,
-      limit: this.config.maxRequests
-    };
+    return { allowed: true, count: newCount, reset: resetTime };
   }
 
-  /**
-   * Get current rate limit status without incrementing counter
-   */
-  async getStatus(key: string, env: Env): Promise<RateLimitResult> {
-    const { value, metadata } = await env.MESSAGE_QUEUE.getWithMetadata(key);
+  async peek(key: string, config: RateLimitConfig): Promise<RateLimitHit> {
+    const { value, metadata } = await this.kv.getWithMetadata(key);
     const count = value ? parseInt(value) || 0 : 0;
-    const resetTime = (metadata as { resetTime?: number })?.resetTime || Date.now() + this.config.windowMs;
-
-    return {
-      remaining: Math.max(0, this.config.maxRequests - count),
-      reset: resetTime,
-      limit: this.config.maxRequests
-    };
+    const resetTime = (metadata as { resetTime?: number })?.resetTime || Date.now() + config.windowMs;
+    return { allowed: count < config.maxRequests, count, reset: resetTime };
   }
 
-  /**
-   * Reset rate limit for a given key (for testing purposes)
-   */
-  async resetLimit(key: string, env: Env): Promise<void> {
-    await env.MESSAGE_QUEUE.delete(key);
+  async reset(key: string): Promise<void> {
+    await this.kv.delete(key);
   }
-}
\ No newline at end of file
+}
+
+// Body of a request from DurableObjectRateLimitBackend to RateLimiterDurableObject
+export type RateLimitObjectRequest =
+  | ({ action: 'hit' | 'peek' } & RateLimitConfig)
+  | { action: 'reset' };
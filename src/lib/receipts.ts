@@ -0,0 +1,46 @@
+import { Env } from '../types/env';
+import { ReceiptStatus } from '../types/api';
+import { toHex } from './hmac';
+
+export const RECEIPT_KEY_PREFIX = 'receipt_';
+
+const RECEIPT_TTL_SECONDS = 30 * 24 * 60 * 60; // Status stays checkable for 30 days after the last change
+const RECEIPT_CODE_PATTERN = /^[0-9a-f]{32}$/;
+
+/**
+ * A new receipt code for the sender and the ID it is stored under. The ID is a hash of the
+ * code, so the queue and KV dashboard never hold the code itself.
+ */
+export async function createReceipt(): Promise<{ code: string; receiptId: string }> {
+  const code = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return { code, receiptId: await getReceiptId(code) };
+}
+
+/**
+ * Record where a message is now. Only the status is kept: no timestamp that could be
+ * matched against the delivery time.
+ */
+export async function setReceiptStatus(receiptId: string | undefined, status: ReceiptStatus, env: Env): Promise<void> {
+  if (!receiptId) {
+    return;
+  }
+  await env.MESSAGE_QUEUE.put(`${RECEIPT_KEY_PREFIX}${receiptId}`, status, {
+    expirationTtl: RECEIPT_TTL_SECONDS,
+  });
+}
+
+/**
+ * Status for a receipt code, or null for unknown, expired and malformed codes
+ */
+export async function getReceiptStatus(code: string, env: Env): Promise<ReceiptStatus | null> {
+  const normalized = code.trim().toLowerCase();
+  if (!RECEIPT_CODE_PATTERN.test(normalized)) {
+    return null;
+  }
+  const status = await env.MESSAGE_QUEUE.get(`${RECEIPT_KEY_PREFIX}${await getReceiptId(normalized)}`);
+  return status as ReceiptStatus | null;
+}
+
+async function getReceiptId(code: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(code)));
+}
@@ -0,0 +1,135 @@
+import { Env } from '../types/env';
+import { Redaction } from '../types/api';
+
+export interface RedactionPattern {
+  type: string;
+  pattern: RegExp;
+  replacement: string;
+  // Extra check for matches the pattern alone can't rule out
+  accept?: (match: string) => boolean;
+}
+
+export interface RedactionResult {
+  text: string;
+  redactions: Redaction[];
+}
+
+// Custom patterns run first so deployment-specific formats (employee IDs, ticket numbers)
+// are not partly consumed by the generic phone or card detectors
+const BUILT_IN_PATTERNS: RedactionPattern[] = [
+  {
+    type: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replacement: '[email]',
+  },
+  {
+    type: 'url',
+    pattern: /\b(?:https?:\/\/|www\.)[^\s<>"]+[^\s<>".,;:!?)]/gi,
+    replacement: '[link]',
+  },
+  {
+    type: 'ip-address',
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+    replacement: '[ip address]',
+  },
+  {
+    type: 'credit-card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    replacement: '[card number]',
+    accept: match => passesLuhn(match.replace(/\D/g, '')),
+  },
+  {
+    type: 'phone',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\b\d{2,5}[\s.-]?\d{3,4}(?:[\s.-]?\d{3,4})?\b/g,
+    replacement: '[phone]',
+    // A run of digits alone is more often a count ("1000000 users") than a phone number
+    accept: match => match.replace(/\D/g, '').length >= 7 && /[\s.()+-]/.test(match),
+  },
+  {
+    // "Thanks, Jane Doe" or "- JD" as the last line of the message
+    type: 'signature',
+    pattern: /(?<=(?:^|\n)[ \t]*(?:(?:[Tt]hanks|[Tt]hank you|[Cc]heers|(?:[Bb]est |[Kk]ind )?[Rr]egards|[Bb]est|[Ss]incerely|[Ff]rom)[ \t]*[,.!-]?[ \t]*\n?[ \t]*|[-–—~][ \t]*))[A-Z][\w'-]*(?:[ \t]+[A-Z][\w'-]*){0,2}(?=[ \t.]*$)/g,
+    replacement: '[name]',
+  },
+];
+
+/**
+ * Detectors for this deployment: the built-in ones plus any from REDACTION_PATTERNS,
+ * a JSON object of name to regular expression, e.g. {"employee ID": "\\bEMP-\\d{6}\\b"}
+ */
+export function getRedactionPatterns(env: Env): RedactionPattern[] {
+  if (!env.REDACTION_PATTERNS) {
+    return BUILT_IN_PATTERNS;
+  }
+
+  let custom: Record<string, unknown>;
+  try {
+    custom = JSON.parse(env.REDACTION_PATTERNS);
+  } catch {
+    throw new Error('Invalid REDACTION_PATTERNS: expected a JSON object of name to regular expression');
+  }
+  if (!custom || typeof custom !== 'object' || Array.isArray(custom)) {
+    throw new Error('Invalid REDACTION_PATTERNS: expected a JSON object of name to regular expression');
+  }
+
+  const customPatterns = Object.entries(custom).map(([name, source]): RedactionPattern => {
+    if (typeof source !== 'string') {
+      throw new Error(`Invalid REDACTION_PATTERNS: pattern for "${name}" must be a string`);
+    }
+    try {
+      return { type: name, pattern: new RegExp(source, 'gi'), replacement: `[${name}]` };
+    } catch {
+      throw new Error(`Invalid REDACTION_PATTERNS: pattern for "${name}" is not a valid regular expression`);
+    }
+  });
+
+  return [...customPatterns, ...BUILT_IN_PATTERNS];
+}
+
+/**
+ * Replace anything that could identify the sender with a placeholder like [email]
+ */
+export function redactPII(text: string, patterns: RedactionPattern[]): RedactionResult {
+  const redactions: Redaction[] = [];
+
+  const redacted = patterns.reduce((current, { type, pattern, replacement, accept }) =>
+    current.replace(pattern, (match: string) => {
+      if (!match || (accept && !accept(match))) {
+        return match;
+      }
+      redactions.push({ type, text: match });
+      return replacement;
+    }), text);
+
+  return { text: redacted, redactions };
+}
+
+/**
+ * Merge redaction lists, keeping one entry per type and text
+ */
+export function mergeRedactions(...lists: Redaction[][]): Redaction[] {
+  const seen = new Set<string>();
+  return lists.flat().filter(({ type, text }) => {
+    const key = `${type}\u0000${text}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
@@ -0,0 +1,161 @@
+import { Env } from '../types/env';
+import { ReplyEntry, ReplyRole, ValidationLimits } from '../types/api';
+import { CommentBox } from './boxes';
+import { getServerSecret, hmacSha256, timingSafeEqual, toHex } from './hmac';
+import { EncryptedMessage, decryptMessage, encryptMessage } from './message-encryption';
+
+// A conversation between an anonymous sender and the recipient of their message
+export interface ReplyThread {
+  id: string;
+  boxId?: string;
+  persona?: string;          // The sender's persona, reused for every response they send
+  customPersona?: string;
+  origin: string;            // Where the reply page lives, e.g. https://feedback.example.com
+  senderTokenHash: string;   // SHA-256 of the sender token's secret; the token itself is never stored
+  createdAt: number;         // Rounded down to the hour, like every timestamp in the thread
+  entries: ReplyEntry[];
+}
+
+// How a thread is kept in KV: the entries hold message bodies, so they are encrypted together
+interface StoredReplyThread extends Omit<ReplyThread, 'entries'> {
+  encryptedEntries?: EncryptedMessage;
+  entries?: ReplyEntry[];    // Plaintext entries of threads written before encryption
+}
+
+export class ReplyError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'ReplyError';
+  }
+}
+
+export const REPLY_THREAD_KEY_PREFIX = 'reply_thread_';
+
+const REPLY_THREAD_TTL_SECONDS = 30 * 24 * 60 * 60; // Threads expire 30 days after their last message
+const MAX_REPLY_ENTRIES = 50;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Start a thread for a message that accepts replies. The returned token is the sender's only
+ * way back in: it is shown once and stored only as a hash.
+ */
+export async function createReplyThread(
+  env: Env,
+  options: { origin: string; box?: CommentBox; persona?: string; customPersona?: string }
+): Promise<{ threadId: string; token: string }> {
+  const secret = toHex(crypto.getRandomValues(new Uint8Array(32)));
+  const thread: ReplyThread = {
+    id: crypto.randomUUID(),
+    boxId: options.box?.id,
+    persona: options.persona || undefined,
+    customPersona: options.customPersona || undefined,
+    origin: options.origin,
+    senderTokenHash: await sha256Hex(secret),
+    createdAt: roundToHour(Date.now()),
+    entries: [],
+  };
+
+  await putReplyThread(thread, env);
+  return { threadId: thread.id, token: `${thread.id}.${secret}` };
+}
+
+export async function getReplyThread(threadId: string, env: Env): Promise<ReplyThread | null> {
+  const data = await env.MESSAGE_QUEUE.get(`${REPLY_THREAD_KEY_PREFIX}${threadId}`);
+  if (!data) {
+    return null;
+  }
+
+  const { encryptedEntries, entries, ...rest } = JSON.parse(data) as StoredReplyThread;
+  return {
+    ...rest,
+    entries: encryptedEntries ? JSON.parse(await decryptMessage(encryptedEntries, rest.id, env)) : entries ?? [],
+  };
+}
+
+/**
+ * Find the thread a sender or recipient token belongs to. Unknown, expired and forged
+ * tokens all get the same 404.
+ */
+export async function openReplyThread(token: unknown, env: Env): Promise<{ thread: ReplyThread; role: ReplyRole }> {
+  const notFound = new ReplyError('Conversation not found', 404);
+  if (typeof token !== 'string') {
+    throw notFound;
+  }
+
+  const [threadId, secret, ...rest] = token.trim().split('.');
+  if (!threadId || !secret || rest.length > 0) {
+    throw notFound;
+  }
+
+  const thread = await getReplyThread(threadId, env);
+  if (!thread) {
+    throw notFound;
+  }
+
+  if (timingSafeEqual(secret, await signRecipientToken(threadId, env))) {
+    return { thread, role: 'recipient' };
+  }
+  if (timingSafeEqual(await sha256Hex(secret), thread.senderTokenHash)) {
+    return { thread, role: 'sender' };
+  }
+  throw notFound;
+}
+
+/**
+ * Append a message to a thread. Sender messages are added once delivered, so the recipient
+ * never sees one before it arrives.
+ */
+export async function addReplyEntry(
+  thread: ReplyThread,
+  from: ReplyRole,
+  message: unknown,
+  env: Env
+): Promise<ReplyEntry> {
+  if (typeof message !== 'string' || !message.trim()) {
+    throw new ReplyError('Message is required');
+  }
+  if (message.length > ValidationLimits.MESSAGE_MAX_LENGTH) {
+    throw new ReplyError(`Message too long (max ${ValidationLimits.MESSAGE_MAX_LENGTH} characters)`);
+  }
+  if (thread.entries.length >= MAX_REPLY_ENTRIES) {
+    throw new ReplyError('This conversation has reached its message limit', 409);
+  }
+
+  const entry: ReplyEntry = { from, message: message.trim(), sentAt: roundToHour(Date.now()) };
+  // Two replies landing at once can overwrite each other; KV has no compare-and-swap
+  await putReplyThread({ ...thread, entries: [...thread.entries, entry] }, env);
+  return entry;
+}
+
+/**
+ * Link for the recipient to read and answer the thread. The token sits in the fragment,
+ * so it never reaches server logs.
+ */
+export async function getReplyUrl(threadId: string, env: Env): Promise<string | null> {
+  const thread = await getReplyThread(threadId, env);
+  if (!thread) {
+    return null;
+  }
+  return `${thread.origin}/replies#${threadId}.${await signRecipientToken(threadId, env)}`;
+}
+
+// Derived from the thread ID, so the recipient token never has to be stored with the message
+async function signRecipientToken(threadId: string, env: Env): Promise<string> {
+  return toHex(await hmacSha256(getServerSecret(env), `reply:${threadId}`));
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+}
+
+function roundToHour(timestamp: number): number {
+  return Math.floor(timestamp / HOUR_MS) * HOUR_MS;
+}
+
+async function putReplyThread(thread: ReplyThread, env: Env): Promise<void> {
+  const { entries, ...rest } = thread;
+  const stored: StoredReplyThread = { ...rest, encryptedEntries: await encryptMessage(JSON.stringify(entries), thread.id, env) };
+  await env.MESSAGE_QUEUE.put(`${REPLY_THREAD_KEY_PREFIX}${thread.id}`, JSON.stringify(stored), {
+    expirationTtl: REPLY_THREAD_TTL_SECONDS,
+  });
+}
@@ -0,0 +1,183 @@
+import { Env } from '../types/env';
+import { ModerationVerdict, ValidationLimits } from '../types/api';
+import { CommentBox, getBox } from './boxes';
+import { QueueMessageOptions, queueMessage } from './queue';
+import { setReceiptStatus } from './receipts';
+import { EncryptedMessage, decryptMessage, encryptMessage } from './message-encryption';
+
+export type ReviewMode = 'off' | 'flagged' | 'all';
+
+export const REVIEW_MODES: ReviewMode[] = ['off', 'flagged', 'all'];
+
+// A message held for a reviewer before it enters the delivery queue
+export interface ReviewMessage {
+  id: string;
+  message: string;
+  boxId?: string;
+  heldAt: number;            // Rounded down to the hour so reviewers can't time the submission
+  moderation?: ModerationVerdict; // Why it was held; unset or 'allow' when every message is reviewed
+  editedAt?: number;
+  replyThreadId?: string;    // Carried into the queue so the delivery links the reply thread
+  receiptId?: string;        // Receipt whose status follows this message
+}
+
+// How a held message is kept in KV: the body is encrypted like a queued message's
+interface StoredReviewMessage extends Omit<ReviewMessage, 'message'> {
+  encryptedMessage?: EncryptedMessage;
+  message?: string;          // Plaintext body of records held before encryption
+}
+
+export class ReviewError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+export const REVIEW_KEY_PREFIX = 'review_';
+
+const REVIEW_TTL_SECONDS = 30 * 24 * 60 * 60; // Unreviewed messages expire after 30 days
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Review mode for a message: the box's own setting, then REVIEW_MODE (default off)
+ */
+export function getReviewMode(env: Env, box?: CommentBox): ReviewMode {
+  const mode = box?.reviewMode ?? env.REVIEW_MODE ?? 'off';
+  return REVIEW_MODES.includes(mode) ? mode : 'off';
+}
+
+export function shouldHoldForReview(verdict: ModerationVerdict | undefined, env: Env, box?: CommentBox): boolean {
+  switch (getReviewMode(env, box)) {
+    case 'all':
+      return true;
+    case 'flagged':
+      return verdict?.action === 'flag';
+    case 'off':
+      return false;
+  }
+}
+
+/**
+ * Store a message for review instead of queueing it, returning its review ID
+ */
+export async function holdForReview(
+  message: string,
+  verdict: ModerationVerdict | undefined,
+  env: Env,
+  box?: CommentBox,
+  options: QueueMessageOptions = {}
+): Promise<string> {
+  const reviewMessage: ReviewMessage = {
+    id: crypto.randomUUID(),
+    message,
+    boxId: box?.id,
+    heldAt: Math.floor(Date.now() / HOUR_MS) * HOUR_MS,
+    moderation: verdict,
+    replyThreadId: options.replyThreadId,
+    receiptId: options.receiptId,
+  };
+
+  await putReviewMessage(reviewMessage, env);
+  await setReceiptStatus(options.receiptId, 'held', env);
+  return reviewMessage.id;
+}
+
+export async function getReviewMessage(reviewId: string, env: Env): Promise<ReviewMessage | null> {
+  const data = await env.MESSAGE_QUEUE.get(`${REVIEW_KEY_PREFIX}${reviewId}`);
+  return data ? readReviewMessage(data, env) : null;
+}
+
+/**
+ * List held messages, oldest first
+ */
+export async function listReviewMessages(env: Env): Promise<ReviewMessage[]> {
+  const messages: ReviewMessage[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await env.MESSAGE_QUEUE.list({ prefix: REVIEW_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      const data = await env.MESSAGE_QUEUE.get(key.name);
+      if (data) {
+        messages.push(await readReviewMessage(data, env));
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return messages.sort((a, b) => a.heldAt - b.heldAt);
+}
+
+/**
+ * Move a held message into the delivery queue with a fresh random delay
+ */
+export async function approveReviewMessage(reviewId: string, env: Env, ctx: ExecutionContext): Promise<void> {
+  const reviewMessage = await requireReviewMessage(reviewId, env);
+
+  let box: CommentBox | undefined;
+  if (reviewMessage.boxId) {
+    // Keep the message held rather than let it fall back to the default recipient
+    box = await getBox(reviewMessage.boxId, env) ?? undefined;
+    if (!box) {
+      throw new ReviewError(`Comment box ${reviewMessage.boxId} no longer exists`, 409);
+    }
+  }
+
+  await queueMessage(reviewMessage.message, env, ctx, false, box, {
+    replyThreadId: reviewMessage.replyThreadId,
+    receiptId: reviewMessage.receiptId,
+  });
+  await env.MESSAGE_QUEUE.delete(`${REVIEW_KEY_PREFIX}${reviewId}`);
+}
+
+/**
+ * Discard a held message without delivering it
+ */
+export async function rejectReviewMessage(reviewId: string, env: Env): Promise<void> {
+  const reviewMessage = await requireReviewMessage(reviewId, env);
+  await env.MESSAGE_QUEUE.delete(`${REVIEW_KEY_PREFIX}${reviewId}`);
+  await setReceiptStatus(reviewMessage.receiptId, 'failed', env);
+}
+
+/**
+ * Replace the text of a held message, e.g. to remove an insult before approving it
+ */
+export async function editReviewMessage(reviewId: string, message: unknown, env: Env): Promise<ReviewMessage> {
+  if (typeof message !== 'string' || !message.trim()) {
+    throw new ReviewError('Message is required');
+  }
+  if (message.length > ValidationLimits.MESSAGE_MAX_LENGTH) {
+    throw new ReviewError(`Message too long (max ${ValidationLimits.MESSAGE_MAX_LENGTH} characters)`);
+  }
+
+  const reviewMessage = await requireReviewMessage(reviewId, env);
+  const updated: ReviewMessage = { ...reviewMessage, message: message.trim(), editedAt: Date.now() };
+  await putReviewMessage(updated, env);
+  return updated;
+}
+
+async function requireReviewMessage(reviewId: string, env: Env): Promise<ReviewMessage> {
+  const reviewMessage = await getReviewMessage(reviewId, env);
+  if (!reviewMessage) {
+    throw new ReviewError('Review message not found', 404);
+  }
+  return reviewMessage;
+}
+
+async function putReviewMessage(reviewMessage: ReviewMessage, env: Env): Promise<void> {
+  const { message, ...rest } = reviewMessage;
+  const stored: StoredReviewMessage = { ...rest, encryptedMessage: await encryptMessage(message, reviewMessage.id, env) };
+  await env.MESSAGE_QUEUE.put(`${REVIEW_KEY_PREFIX}${reviewMessage.id}`, JSON.stringify(stored), {
+    expirationTtl: REVIEW_TTL_SECONDS,
+  });
+}
+
+// Only the admin review API and approval read held messages, so only they decrypt them
+async function readReviewMessage(data: string, env: Env): Promise<ReviewMessage> {
+  const { encryptedMessage, message, ...rest } = JSON.parse(data) as StoredReviewMessage;
+  return {
+    ...rest,
+    message: encryptedMessage ? await decryptMessage(encryptedMessage, rest.id, env) : message ?? '',
+  };
+}
@@ -0,0 +1,136 @@
+import { Env } from '../types/env';
+import { deliverQueuedMessage } from './queue';
+
+/**
+ * Decides when a queued message is delivered. The message itself stays in KV under
+ * msg_<id>; a scheduler only has to call deliverQueuedMessage() at or after deliverAt,
+ * and again at the time it returns if the message is not yet due, needs a retry or is
+ * being sent by another worker.
+ */
+export interface DeliveryScheduler {
+  readonly name: DeliverySchedulerName;
+  schedule(messageId: string, deliverAt: number): Promise<void>;
+}
+
+export type DeliverySchedulerName = 'durable-object' | 'queues' | 'kv';
+
+const DELIVERY_SCHEDULERS: DeliverySchedulerName[] = ['durable-object', 'queues', 'kv'];
+
+// Cloudflare Queues rejects longer delays; the consumer sends the message on again if it is early
+const MAX_QUEUE_DELAY_SECONDS = 12 * 60 * 60;
+
+// Body of a message on the DELIVERY_QUEUE queue
+export interface DeliveryQueueMessage {
+  messageId: string;
+}
+
+// Body of a request to a DeliverySchedulerDurableObject
+export interface DeliverySchedulerObjectRequest {
+  messageId: string;
+  deliverAt: number;
+}
+
+/**
+ * Scheduler for this deployment: DELIVERY_SCHEDULER if set, otherwise the Durable Object
+ * when DELIVERY_SCHEDULER_DO is bound, then Queues when DELIVERY_QUEUE is bound, otherwise KV
+ */
+export function createDeliveryScheduler(env: Env): DeliveryScheduler {
+  const name = env.DELIVERY_SCHEDULER ??
+    (env.DELIVERY_SCHEDULER_DO ? 'durable-object' : env.DELIVERY_QUEUE ? 'queues' : 'kv');
+  if (!DELIVERY_SCHEDULERS.includes(name)) {
+    throw new Error(`Invalid DELIVERY_SCHEDULER: expected one of ${DELIVERY_SCHEDULERS.join(', ')}`);
+  }
+
+  switch (name) {
+    case 'durable-object':
+      if (!env.DELIVERY_SCHEDULER_DO) {
+        throw new Error('DELIVERY_SCHEDULER is "durable-object" but the DELIVERY_SCHEDULER_DO binding is missing');
+      }
+      return new DurableObjectDeliveryScheduler(env.DELIVERY_SCHEDULER_DO);
+    case 'queues':
+      if (!env.DELIVERY_QUEUE) {
+        throw new Error('DELIVERY_SCHEDULER is "queues" but the DELIVERY_QUEUE binding is missing');
+      }
+      return new QueuesDeliveryScheduler(env.DELIVERY_QUEUE);
+    case 'kv':
+      return new KVDeliveryScheduler(env);
+  }
+}
+
+/**
+ * One Durable Object per message, with an alarm set for its delivery time. The alarm fires
+ * once per object, so two deliveries of the same message cannot overlap.
+ */
+export class DurableObjectDeliveryScheduler implements DeliveryScheduler {
+  readonly name = 'durable-object';
+
+  constructor(private readonly namespace: DurableObjectNamespace) {}
+
+  async schedule(messageId: string, deliverAt: number): Promise<void> {
+    const body: DeliverySchedulerObjectRequest = { messageId, deliverAt };
+    const stub = this.namespace.get(this.namespace.idFromName(messageId));
+    const response = await stub.fetch('https://delivery-scheduler/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Delivery scheduler object returned ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Sends each message ID to a Cloudflare Queue with a delay. handleDeliveryBatch() is the consumer.
+ */
+export class QueuesDeliveryScheduler implements DeliveryScheduler {
+  readonly name = 'queues';
+
+  constructor(private readonly queue: Queue<DeliveryQueueMessage>) {}
+
+  async schedule(messageId: string, deliverAt: number): Promise<void> {
+    const delaySeconds = Math.min(Math.max(0, Math.ceil((deliverAt - Date.now()) / 1000)), MAX_QUEUE_DELAY_SECONDS);
+    await this.queue.send({ messageId }, { delaySeconds });
+  }
+}
+
+/**
+ * Fallback without extra bindings: messages that are already due are sent straight away,
+ * and the rest are picked up by the cron processor, so delivery can be up to one cron
+ * interval late.
+ */
+export class KVDeliveryScheduler implements DeliveryScheduler {
+  readonly name = 'kv';
+
+  constructor(private readonly env: Env) {}
+
+  async schedule(messageId: string, deliverAt: number): Promise<void> {
+    const delay = deliverAt - Date.now();
+    if (delay > 0) {
+      console.log(`Message ${messageId} scheduled for delivery in ${Math.round(delay / 1000 / 60)} minutes`);
+      return;
+    }
+    await deliverQueuedMessage(messageId, this.env);
+  }
+}
+
+/**
+ * Queue consumer for DELIVERY_QUEUE. Messages that are early, failed or leased elsewhere are
+ * scheduled again for their next attempt; errors reading the queue record leave the message for Queues to retry.
+ */
+export async function handleDeliveryBatch(batch: MessageBatch<DeliveryQueueMessage>, env: Env): Promise<void> {
+  const scheduler = createDeliveryScheduler(env);
+
+  for (const message of batch.messages) {
+    try {
+      const outcome = await deliverQueuedMessage(message.body.messageId, env);
+      if ('dueAt' in outcome) {
+        await scheduler.schedule(message.body.messageId, outcome.dueAt);
+      }
+      message.ack();
+    } catch (error) {
+      console.error(`Failed to process delivery for message ${message.body.messageId}:`, error);
+      message.retry();
+    }
+  }
+}
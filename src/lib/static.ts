@@ -6,6 +6,9 @@ const staticFiles: Record<string, string> = {
   '/script.js': '/script.js',
   '/widget.js': '/widget.js',
   '/widget-demo.html': '/widget-demo.html',
+  '/replies': '/replies.html',
+  '/replies.html': '/replies.html',
+  '/replies.js': '/replies.js',
 };
 
 // Embed static assets as strings
@@ -30,11 +33,20 @@ const htmlContent = `<!DOCTYPE html>
                 <div class="form-group">
                     <label for="personaSelect">Message Style (Optional)</label>
                     <select id="personaSelect" class="persona-select">
-                        <option value="">No transformation (original style)</option>
-                        <option value="internet-random">Internet Random - casual, memes, abbreviations</option>
-                        <option value="barely-literate">Barely Literate - simple vocab, poor grammar</option>
-                        <option value="extremely-serious">Extremely Serious - formal, academic tone</option>
-                        <option value="super-nice">Super Nice - overly polite, encouraging</option>
+                        <option value="">Anonymize only (no persona)</option>
+                        <!-- Built-in presets until /api/personas loads and replaces them -->
+                        <option value="internet-random" data-persona
+                                data-description="Casual internet slang with abbreviations, mild typos, and meme references."
+                                data-example='Original: "I think this is a great idea." → "ngl this idea slaps 💯 we should def do this fr fr"'>Internet Random - casual, memes, abbreviations</option>
+                        <option value="barely-literate" data-persona
+                                data-description="Simple vocabulary with poor grammar and informal structure."
+                                data-example='Original: "I disagree with this decision." → "i dont like this thing cuz it dont make sense to me"'>Barely Literate - simple vocab, poor grammar</option>
+                        <option value="extremely-serious" data-persona
+                                data-description="Formal, academic language with professional vocabulary."
+                                data-example='Original: "This is really bad." → "This matter requires immediate systematic remediation."'>Extremely Serious - formal, academic tone</option>
+                        <option value="super-nice" data-persona
+                                data-description="Overly polite, encouraging, and positive language."
+                                data-example='Original: "This feature is broken." → "I hope this feedback helps! The feature might benefit from some adjustments. Thank you! 😊"'>Super Nice - overly polite, encouraging</option>
                         <option value="custom">Custom style...</option>
                     </select>
                     <div class="persona-description" id="personaDescription"></div>
@@ -93,6 +105,7 @@ const htmlContent = `<!DOCTYPE html>
                                 <div class="preview-text" id="transformedPreview"></div>
                             </div>
                         </div>
+                        <div class="preview-redactions hidden" id="previewRedactions" aria-live="polite"></div>
                     </div>
                 </div>
 
@@ -106,6 +119,16 @@ const htmlContent = `<!DOCTYPE html>
                     </ul>
                 </div>
 
+                <div class="form-group reply-option">
+                    <label class="checkbox-label">
+                        <input type="checkbox" id="allowReplies">
+                        Let the recipient reply anonymously
+                    </label>
+                    <p class="reply-option-hint">You'll get a reply code to check for answers. Nothing links it to you.</p>
+                </div>
+
+                <div class="challenge-container hidden" id="challengeContainer"></div>
+
                 <button type="submit" class="submit-btn" id="submitBtn">
                     Send Anonymous Feedback
                 </button>
@@ -114,6 +137,12 @@ const htmlContent = `<!DOCTYPE html>
             <div id="successMessage" class="success-message hidden">
                 <h2>Message Sent!</h2>
                 <p>Your feedback has been queued for anonymous delivery.</p>
+                <div class="reply-token hidden" id="replyTokenSection">
+                    <p>Save this reply code. It is shown only once and is the only way to read replies.</p>
+                    <code id="replyTokenText"></code>
+                    <p><a id="replyTokenLink" href="/replies">Check for replies</a></p>
+                </div>
+                <p class="receipt-code hidden" id="receiptCodeSection">Receipt code: <code id="receiptCodeText"></code></p>
                 <button onclick="resetForm()" class="reset-btn">Send Another Message</button>
             </div>
 
@@ -122,6 +151,14 @@ const htmlContent = `<!DOCTYPE html>
                 <p id="errorText">Please try again later.</p>
                 <button onclick="resetForm()" class="reset-btn">Try Again</button>
             </div>
+            <form id="statusForm" class="status-lookup">
+                <label for="receiptInput">Already sent a message? Check its delivery status</label>
+                <div class="status-lookup-controls">
+                    <input type="text" id="receiptInput" class="reply-token-input" placeholder="Receipt code" autocomplete="off" spellcheck="false">
+                    <button type="submit" class="preview-btn" id="statusBtn">Check Status</button>
+                </div>
+                <p class="status-result hidden" id="statusResult" aria-live="polite"></p>
+            </form>
         </main>
 
         <footer>
@@ -210,7 +247,8 @@ label {
     color: var(--text-primary);
 }
 
-textarea {
+textarea,
+.reply-token-input {
     width: 100%;
     padding: 0.75rem;
     border: 2px solid var(--border-color);
@@ -221,7 +259,8 @@ textarea {
     transition: border-color 0.2s;
 }
 
-textarea:focus {
+textarea:focus,
+.reply-token-input:focus {
     outline: none;
     border-color: var(--primary-color);
 }
@@ -485,6 +524,97 @@ footer a:hover {
     font-style: italic;
 }
 
+.preview-redactions {
+    margin-top: 0.75rem;
+    font-size: 0.875rem;
+    color: var(--text-secondary);
+}
+
+.preview-redactions ul {
+    margin: 0.25rem 0 0 1.25rem;
+    padding: 0;
+}
+
+.reply-option-hint {
+    font-size: 0.875rem;
+    color: var(--text-secondary);
+    margin-top: 0.25rem;
+}
+
+.checkbox-label {
+    display: flex;
+    align-items: center;
+    gap: 0.5rem;
+    font-weight: normal;
+    cursor: pointer;
+}
+
+.reply-token {
+    margin-top: 1.5rem;
+    padding: 1rem;
+    background: var(--bg-secondary);
+    border-radius: 8px;
+}
+
+.reply-token code {
+    display: block;
+    margin: 0.75rem 0;
+    font-size: 0.875rem;
+    word-break: break-all;
+    user-select: all;
+}
+
+.receipt-code {
+    margin-top: 1rem;
+    font-size: 0.875rem;
+    color: var(--text-secondary);
+    word-break: break-all;
+}
+
+.status-lookup {
+    margin-top: 2rem;
+    padding: 1.5rem;
+    background: var(--bg-primary);
+    border-radius: 12px;
+}
+
+.status-lookup-controls {
+    display: flex;
+    gap: 0.75rem;
+}
+
+.status-result {
+    margin-top: 0.75rem;
+    color: var(--text-secondary);
+}
+
+.reply-thread {
+    list-style: none;
+    margin-bottom: 1.5rem;
+}
+
+.reply-entry {
+    padding: 1rem;
+    margin-bottom: 0.75rem;
+    border-radius: 8px;
+    background: var(--bg-secondary);
+    white-space: pre-wrap;
+}
+
+.reply-entry-meta {
+    display: block;
+    font-size: 0.75rem;
+    color: var(--text-secondary);
+    margin-bottom: 0.25rem;
+    white-space: normal;
+}
+
+.challenge-container {
+    display: flex;
+    justify-content: center;
+    margin-bottom: 1rem;
+}
+
 /* Loading States */
 .loading-skeleton {
     background: linear-gradient(90deg, #f0f0f0 25%, #e0e0e0 50%, #f0f0f0 75%);
@@ -555,37 +685,40 @@ const previewBtn = document.getElementById('previewBtn');
 const previewContainer = document.getElementById('previewContainer');
 const originalPreview = document.getElementById('originalPreview');
 const transformedPreview = document.getElementById('transformedPreview');
+const previewRedactions = document.getElementById('previewRedactions');
 const rateLimitStatus = document.getElementById('rateLimitStatus');
 const rateLimitText = document.getElementById('rateLimitText');
 const rateLimitCount = document.getElementById('rateLimitCount');
+const challengeContainer = document.getElementById('challengeContainer');
+const allowRepliesCheckbox = document.getElementById('allowReplies');
+const replyTokenSection = document.getElementById('replyTokenSection');
+const replyTokenText = document.getElementById('replyTokenText');
+const replyTokenLink = document.getElementById('replyTokenLink');
+const receiptCodeSection = document.getElementById('receiptCodeSection');
+const receiptCodeText = document.getElementById('receiptCodeText');
+const statusForm = document.getElementById('statusForm');
+const receiptInput = document.getElementById('receiptInput');
+const statusResult = document.getElementById('statusResult');
+
+const RECEIPT_STATUS_TEXT = {
+    queued: 'Queued. It will be delivered after a random delay.',
+    held: 'Waiting for a reviewer before it is queued.',
+    delivered: 'Delivered.',
+    failed: 'Not delivered. It could not be sent or a reviewer rejected it.',
+};
 
 // Session management
 let sessionId = localStorage.getItem('sessionId') || generateSessionId();
 localStorage.setItem('sessionId', sessionId);
 
-// Rate limiting state
+// Comment box selected via ?box=<id> (defaults to the deployment's recipient)
+const boxId = new URLSearchParams(window.location.search).get('box');
+
+// Rate limiting state for the preview bucket (submissions are counted separately)
+let rateLimitLimit = 10;
+let rateLimitWindowMs = 60000; // 1 minute
 let rateLimitRemaining = 10;
-let rateLimitReset = Date.now() + 60000; // 1 minute from now
-
-// Persona descriptions and examples
-const personaDescriptions = {
-    'internet-random': {
-        description: 'Casual internet slang with abbreviations, mild typos, and meme references.',
-        example: 'Original: "I think this is a great idea." → "ngl this idea slaps 💯 we should def do this fr fr"'
-    },
-    'barely-literate': {
-        description: 'Simple vocabulary with poor grammar and informal structure.',
-        example: 'Original: "I disagree with this decision." → "i dont like this thing cuz it dont make sense to me"'
-    },
-    'extremely-serious': {
-        description: 'Formal, academic language with professional vocabulary.',
-        example: 'Original: "This is really bad." → "This matter requires immediate systematic remediation."'
-    },
-    'super-nice': {
-        description: 'Overly polite, encouraging, and positive language.',
-        example: 'Original: "This feature is broken." → "I hope this feedback helps! The feature might benefit from some adjustments. Thank you! 😊"'
-    }
-};
+let rateLimitReset = Date.now() + rateLimitWindowMs;
 
 function generateSessionId() {
     return 'session_' + Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
@@ -629,11 +762,13 @@ personaSelect.addEventListener('change', () => {
         customPersonaTextarea.value = '';
         customPersonaCount.textContent = '0';
         
-        if (selectedPersona && personaDescriptions[selectedPersona]) {
+        const option = personaSelect.selectedOptions[0];
+        if (selectedPersona && option && option.dataset.description) {
             updatePersonaDescription(
-                personaDescriptions[selectedPersona].description + 
-                '<br><br><strong>Example:</strong> ' + 
-                personaDescriptions[selectedPersona].example
+                escapeHtml(option.dataset.description) +
+                (option.dataset.example
+                    ? '<br><br><strong>Example:</strong> ' + escapeHtml(option.dataset.example)
+                    : '')
             );
         } else {
             updatePersonaDescription('');
@@ -688,6 +823,14 @@ async function generatePreview(message) {
             sessionId: sessionId
         };
         
+        if (boxId) {
+            requestBody.boxId = boxId;
+        }
+        
+        if (allowRepliesCheckbox && allowRepliesCheckbox.checked) {
+            requestBody.allowReplies = true;
+        }
+        
         if (selectedPersona && selectedPersona !== 'custom') {
             requestBody.persona = selectedPersona;
         } else if (customPersona) {
@@ -734,17 +877,111 @@ function displayPreview(data) {
             <br><br>
             <strong>Original message shown below:</strong>
             <br><br>
-            \${data.transformedMessage}
+            \${escapeHtml(data.transformedMessage)}
         </div>\`;
     } else {
         // Display the transformed message
         transformedPreview.textContent = data.transformedMessage;
     }
-    
+
+    displayRedactions(data.redactions || []);
     previewContainer.classList.remove('hidden');
 }
 
+// List the personal details that were removed so the sender can check them
+function displayRedactions(redactions) {
+    previewRedactions.textContent = '';
+    previewRedactions.classList.toggle('hidden', redactions.length === 0);
+    if (redactions.length === 0) {
+        return;
+    }
+
+    const heading = document.createElement('strong');
+    heading.textContent = 'Removed to protect your anonymity:';
+    const list = document.createElement('ul');
+    redactions.forEach(redaction => {
+        const item = document.createElement('li');
+        item.textContent = \`\${redaction.type.replace(/-/g, ' ')}: \${redaction.text}\`;
+        list.appendChild(item);
+    });
+    previewRedactions.append(heading, list);
+}
+
+function postSubmission(requestBody) {
+    return fetch('/api/submit', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Session-ID': sessionId
+        },
+        body: JSON.stringify(requestBody),
+    });
+}
+
+// Answer a challenge from /api/submit with a proof-of-work nonce or a Turnstile token
+async function solveChallenge(challenge) {
+    if (challenge.mode === 'pow') {
+        return { token: challenge.token, nonce: await solveProofOfWork(challenge.token, challenge.difficulty) };
+    }
+    if (challenge.mode === 'turnstile') {
+        return { token: await solveTurnstile(challenge.siteKey) };
+    }
+    throw new Error(\`Unsupported challenge: \${challenge.mode}\`);
+}
+
+// Find a nonce where SHA-256("<token>:<nonce>") starts with \`difficulty\` zero bits
+async function solveProofOfWork(token, difficulty) {
+    const encoder = new TextEncoder();
+    for (let nonce = 0; ; nonce++) {
+        const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(\`\${token}:\${nonce}\`)));
+        let bits = 0;
+        for (const byte of hash) {
+            if (byte !== 0) {
+                bits += Math.clz32(byte) - 24;
+                break;
+            }
+            bits += 8;
+        }
+        if (bits >= difficulty) {
+            return String(nonce);
+        }
+    }
+}
+
+function solveTurnstile(siteKey) {
+    return loadTurnstile().then(() => new Promise((resolve, reject) => {
+        challengeContainer.innerHTML = '';
+        challengeContainer.classList.remove('hidden');
+        window.turnstile.render(challengeContainer, {
+            sitekey: siteKey,
+            callback: token => {
+                challengeContainer.classList.add('hidden');
+                resolve(token);
+            },
+            'error-callback': () => reject(new Error('Bot check failed')),
+        });
+    }));
+}
+
+let turnstileLoading;
+function loadTurnstile() {
+    if (!turnstileLoading) {
+        turnstileLoading = new Promise((resolve, reject) => {
+            const script = document.createElement('script');
+            script.src = 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit';
+            script.onload = resolve;
+            script.onerror = () => reject(new Error('Failed to load the bot check'));
+            document.head.appendChild(script);
+        });
+    }
+    return turnstileLoading;
+}
+
 function updateRateLimit(remaining, reset) {
+    // Backends that cannot count requests report no remaining count, so keep the last one shown
+    if (remaining === undefined) {
+        return;
+    }
     rateLimitRemaining = remaining;
     rateLimitReset = reset;
     rateLimitCount.textContent = remaining;
@@ -754,7 +991,7 @@ function updateRateLimit(remaining, reset) {
         rateLimitText.innerHTML = \`⚠️ Only <span id="rateLimitCount">\${remaining}</span> previews remaining\`;
     } else {
         rateLimitStatus.classList.remove('rate-limit-warning');
-        rateLimitText.innerHTML = \`Previews remaining: <span id="rateLimitCount">\${remaining}</span>/10\`;
+        rateLimitText.innerHTML = \`Previews remaining: <span id="rateLimitCount">\${remaining}</span>/\${rateLimitLimit}\`;
     }
 }
 
@@ -783,25 +1020,30 @@ feedbackForm.addEventListener('submit', async (e) => {
             sessionId: sessionId
         };
         
+        if (boxId) {
+            requestBody.boxId = boxId;
+        }
+        
         if (selectedPersona && selectedPersona !== 'custom') {
             requestBody.persona = selectedPersona;
         } else if (customPersona) {
             requestBody.customPersona = customPersona;
         }
         
-        const response = await fetch('/api/submit', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'X-Session-ID': sessionId
-            },
-            body: JSON.stringify(requestBody),
-        });
+        let response = await postSubmission(requestBody);
+        let data = await response.json();
         
-        const data = await response.json();
+        // When a challenge is enabled the first attempt is answered with one to solve
+        if (response.status === 400 && data.challenge && data.code === 'challenge_required') {
+            submitBtn.textContent = 'Verifying...';
+            requestBody.challenge = await solveChallenge(data.challenge);
+            submitBtn.textContent = 'Sending...';
+            response = await postSubmission(requestBody);
+            data = await response.json();
+        }
         
         if (response.ok) {
-            showSuccess();
+            showSuccess(data.replyToken, data.receipt);
         } else if (response.status === 429) {
             showError('Rate limit exceeded. Please wait before trying again.');
         } else {
@@ -818,10 +1060,23 @@ feedbackForm.addEventListener('submit', async (e) => {
     }
 });
 
-function showSuccess() {
+function showSuccess(replyToken, receipt) {
     feedbackForm.style.display = 'none';
     successMessage.classList.remove('hidden');
     errorMessage.classList.add('hidden');
+    
+    if (receiptCodeSection) {
+        receiptCodeSection.classList.toggle('hidden', !receipt);
+        receiptCodeText.textContent = receipt || '';
+        receiptInput.value = receipt || '';
+    }
+    
+    // The server keeps only a hash of the token, so this is the sender's one chance to copy it
+    if (replyTokenSection) {
+        replyTokenSection.classList.toggle('hidden', !replyToken);
+        replyTokenText.textContent = replyToken || '';
+        replyTokenLink.href = replyToken ? \`/replies#\${replyToken}\` : '/replies';
+    }
 }
 
 function showError(message) {
@@ -841,7 +1096,10 @@ async function initializeRateLimit() {
         
         if (response.ok) {
             const data = await response.json();
-            updateRateLimit(data.remaining, data.reset);
+            const preview = data.buckets?.preview || data;
+            rateLimitLimit = preview.limit || rateLimitLimit;
+            rateLimitWindowMs = preview.windowMs || rateLimitWindowMs;
+            updateRateLimit(preview.remaining, preview.reset);
         }
     } catch (error) {
         console.error('Failed to get rate limit status:', error);
@@ -849,6 +1107,73 @@ async function initializeRateLimit() {
     }
 }
 
+// Replace the built-in persona options with the live list from the server
+async function initializePersonas() {
+    try {
+        const query = boxId ? \`?box=\${encodeURIComponent(boxId)}\` : '';
+        const response = await fetch(\`/api/personas\${query}\`);
+        if (!response || !response.ok) {
+            return;
+        }
+        
+        const personas = await response.json();
+        if (!Array.isArray(personas)) {
+            return;
+        }
+        
+        // A restored persona may only exist in the server list
+        const selectedPersona = personaSelect.value || sessionStorage.getItem('selectedPersona') || '';
+        personaSelect.querySelectorAll('option[data-persona]').forEach(option => option.remove());
+        
+        const customOption = personaSelect.querySelector('option[value="custom"]');
+        personas.forEach(persona => {
+            const option = document.createElement('option');
+            option.value = persona.key;
+            option.textContent = persona.name;
+            option.dataset.persona = '';
+            option.dataset.description = persona.description;
+            if (persona.example) {
+                option.dataset.example = persona.example;
+            }
+            personaSelect.insertBefore(option, customOption);
+        });
+        
+        // Keep the current choice if it is still available
+        const stillAvailable = Array.from(personaSelect.options).some(option => option.value === selectedPersona);
+        personaSelect.value = stillAvailable ? selectedPersona : '';
+        personaSelect.dispatchEvent(new Event('change'));
+    } catch (error) {
+        console.error('Failed to load personas:', error);
+        // Keep the built-in options
+    }
+}
+
+function escapeHtml(text) {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+}
+
+// Show the comment box title when sending to a specific box
+async function initializeBox() {
+    if (!boxId) {
+        return;
+    }
+    
+    try {
+        const response = await fetch(\`/api/boxes/\${encodeURIComponent(boxId)}\`);
+        
+        if (response.ok) {
+            const box = await response.json();
+            document.querySelector('header h1').textContent = box.title;
+        } else {
+            showError('This comment box does not exist.');
+        }
+    } catch (error) {
+        console.error('Failed to load comment box:', error);
+    }
+}
+
 // Restore session state on page load
 function restoreSessionState() {
     const savedPersona = sessionStorage.getItem('selectedPersona');
@@ -869,8 +1194,8 @@ function restoreSessionState() {
 function updateRateLimitTimer() {
     const now = Date.now();
     if (now >= rateLimitReset) {
-        rateLimitRemaining = 10;
-        rateLimitReset = now + 60000; // Reset for another minute
+        rateLimitRemaining = rateLimitLimit;
+        rateLimitReset = now + rateLimitWindowMs;
         updateRateLimit(rateLimitRemaining, rateLimitReset);
     }
 }
@@ -886,29 +1211,682 @@ function resetForm() {
     charCount.textContent = '0';
     charCount.style.color = '#6b7280';
     previewContainer.classList.add('hidden');
+    if (replyTokenSection) {
+        replyTokenSection.classList.add('hidden');
+        replyTokenText.textContent = '';
+    }
+    if (receiptCodeSection) {
+        receiptCodeSection.classList.add('hidden');
+        receiptCodeText.textContent = '';
+    }
     
     // Don't reset persona selection on form reset
     // This preserves user's persona choice for multiple submissions
 }
 
+async function checkReceiptStatus(receipt) {
+    statusResult.classList.remove('hidden');
+    statusResult.textContent = 'Checking...';
+    
+    try {
+        const response = await fetch(\`/api/status/\${encodeURIComponent(receipt)}\`);
+        const data = await response.json();
+        
+        if (response.ok) {
+            statusResult.textContent = RECEIPT_STATUS_TEXT[data.status] || data.status;
+        } else if (response.status === 404) {
+            statusResult.textContent = 'No message found for this receipt code. Codes expire after 30 days.';
+        } else {
+            statusResult.textContent = data.error || 'Could not check the status. Please try again.';
+        }
+    } catch (error) {
+        console.error('Status check error:', error);
+        statusResult.textContent = 'Network error. Please check your connection and try again.';
+    }
+}
+
+if (statusForm) {
+    statusForm.addEventListener('submit', (e) => {
+        e.preventDefault();
+        const receipt = receiptInput.value.trim();
+        if (receipt) {
+            checkReceiptStatus(receipt);
+        }
+    });
+}
+
+// The widget links here with #receipt=<code>
+function restoreReceiptFromHash() {
+    const match = window.location.hash.match(/^#receipt=([0-9a-fA-F]+)$/);
+    if (match && statusForm) {
+        receiptInput.value = match[1];
+        history.replaceState(null, '', window.location.pathname + window.location.search);
+        checkReceiptStatus(match[1]);
+    }
+}
+
 // Initialize on page load
 document.addEventListener('DOMContentLoaded', () => {
     restoreSessionState();
+    restoreReceiptFromHash();
+    initializePersonas();
+    initializeBox();
     initializeRateLimit();
 });`;
 
 const widgetContent = `// Anonymous Comment Box Widget
+//
+// Usage:
+//   <script src="https://your-domain.com/widget.js"
+//           data-box="product-team"
+//           data-title="Send Us Feedback"
+//           data-theme="light|dark"
+//           data-position="inline|modal"></script>
+//
+// data-box picks the comment box, and so the recipient configured for it on the server.
+// data-recipient is only a label echoed back in the ready and submitted events; it never
+// chooses where a message is delivered and is not shown to the sender.
+// The form is rendered inside a shadow root so host page styles cannot leak in.
+// Lifecycle events are posted to the host window as
+//   { source: 'anonymous-comment-box', type, widgetId, ... }
+// with type one of: ready, open, close, preview, submitted, error.
 (function() {
-  // Widget initialization code
-  console.log('Anonymous Comment Box widget loaded');
-  
-  // TODO: Add actual widget implementation
-  // This will include:
-  // - Widget injection logic
-  // - Iframe or embedded form creation
-  // - Communication with parent page
-  // - Styling and configuration options
-})();`;
+  'use strict';
+
+  const script = document.currentScript;
+  if (!script) {
+    console.error('Anonymous Comment Box: widget.js must be loaded with a <script> tag');
+    return;
+  }
+
+  const MESSAGE_MAX_LENGTH = 2000;
+  const CUSTOM_PERSONA_MAX_LENGTH = 500;
+  const EVENT_SOURCE = 'anonymous-comment-box';
+
+  const config = {
+    boxId: script.getAttribute('data-box') || '',
+    recipient: script.getAttribute('data-recipient') || '',
+    title: script.getAttribute('data-title') || 'Send Anonymous Feedback',
+    theme: script.getAttribute('data-theme') === 'dark' ? 'dark' : 'light',
+    position: script.getAttribute('data-position') === 'modal' ? 'modal' : 'inline'
+  };
+
+  // API calls go to the origin that served this script, not the host page
+  const apiBase = new URL(script.src, window.location.href).origin;
+  const widgetId = 'acb_' + Math.random().toString(36).substr(2, 9);
+  const sessionId = 'session_' + Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
+
+  function emit(type, detail) {
+    const payload = Object.assign({ source: EVENT_SOURCE, type: type, widgetId: widgetId }, detail || {});
+    window.postMessage(payload, '*');
+    if (window.parent && window.parent !== window) {
+      window.parent.postMessage(payload, '*');
+    }
+  }
+
+  function escapeHtml(text) {
+    return String(text)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  const styles = \`
+    :host { all: initial; }
+    .acb-root {
+      --acb-bg: #ffffff;
+      --acb-surface: #f9fafb;
+      --acb-text: #1f2937;
+      --acb-muted: #6b7280;
+      --acb-border: #e5e7eb;
+      --acb-primary: #5b21b6;
+      --acb-primary-hover: #4c1d95;
+      --acb-success: #10b981;
+      --acb-error: #ef4444;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      font-size: 14px;
+      line-height: 1.5;
+      color: var(--acb-text);
+    }
+    .acb-root.acb-dark {
+      --acb-bg: #1f2937;
+      --acb-surface: #111827;
+      --acb-text: #f9fafb;
+      --acb-muted: #9ca3af;
+      --acb-border: #374151;
+      --acb-primary: #8b5cf6;
+      --acb-primary-hover: #7c3aed;
+    }
+    .acb-panel {
+      background: var(--acb-bg);
+      border: 1px solid var(--acb-border);
+      border-radius: 12px;
+      padding: 1.25rem;
+      box-sizing: border-box;
+      width: 100%;
+    }
+    .acb-header { display: flex; align-items: flex-start; justify-content: space-between; gap: 0.5rem; }
+    .acb-title { margin: 0 0 0.25rem; font-size: 1.125rem; font-weight: 600; }
+    .acb-subtitle { margin: 0 0 1rem; color: var(--acb-muted); font-size: 0.8125rem; }
+    .acb-group { margin-bottom: 0.875rem; }
+    .acb-label { display: block; margin-bottom: 0.25rem; font-weight: 600; font-size: 0.8125rem; }
+    .acb-input {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 0.5rem 0.625rem;
+      border: 1px solid var(--acb-border);
+      border-radius: 8px;
+      background: var(--acb-surface);
+      color: var(--acb-text);
+      font: inherit;
+      resize: vertical;
+    }
+    .acb-input:focus { outline: 2px solid var(--acb-primary); outline-offset: 1px; }
+    .acb-count { text-align: right; color: var(--acb-muted); font-size: 0.75rem; margin-top: 0.25rem; }
+    .acb-actions { display: flex; gap: 0.5rem; flex-wrap: wrap; }
+    .acb-btn {
+      border: none;
+      border-radius: 8px;
+      padding: 0.5rem 1rem;
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      background: var(--acb-primary);
+      color: #ffffff;
+    }
+    .acb-btn:hover { background: var(--acb-primary-hover); }
+    .acb-btn:disabled { opacity: 0.6; cursor: not-allowed; }
+    .acb-btn-secondary { background: transparent; color: var(--acb-primary); border: 1px solid var(--acb-primary); }
+    .acb-btn-secondary:hover { background: var(--acb-surface); }
+    .acb-close { background: transparent; border: none; color: var(--acb-muted); font-size: 1.25rem; cursor: pointer; line-height: 1; }
+    .acb-preview {
+      background: var(--acb-surface);
+      border: 1px solid var(--acb-border);
+      border-radius: 8px;
+      padding: 0.625rem;
+      margin-bottom: 0.875rem;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+    .acb-notice { font-size: 0.8125rem; margin-bottom: 0.875rem; }
+    .acb-notice-error { color: var(--acb-error); }
+    .acb-success { text-align: center; padding: 1rem 0; }
+    .acb-success h3 { color: var(--acb-success); margin: 0 0 0.5rem; }
+    .acb-receipt { font-size: 0.8125rem; word-break: break-all; }
+    .acb-hidden { display: none !important; }
+    .acb-launcher {
+      position: fixed;
+      right: 1.5rem;
+      bottom: 1.5rem;
+      z-index: 2147483000;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.2);
+      border-radius: 999px;
+      padding: 0.75rem 1.25rem;
+    }
+    .acb-overlay {
+      position: fixed;
+      inset: 0;
+      z-index: 2147483001;
+      background: rgba(0, 0, 0, 0.5);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 1rem;
+    }
+    .acb-overlay .acb-panel { max-width: 520px; max-height: 90vh; overflow-y: auto; }
+  \`;
+
+  function renderForm() {
+    // Personas are filled in from /api/personas once it loads
+    const options = '<option value="">Anonymize only (no persona)</option>' +
+      '<option value="custom">Custom style...</option>';
+
+    return \`
+      <div class="acb-panel" role="\${config.position === 'modal' ? 'dialog' : 'region'}"
+           aria-modal="\${config.position === 'modal' ? 'true' : 'false'}"
+           aria-labelledby="\${widgetId}-title">
+        <div class="acb-header">
+          <h2 class="acb-title" id="\${widgetId}-title">\${escapeHtml(config.title)}</h2>
+          \${config.position === 'modal' ? '<button type="button" class="acb-close" data-acb="close" aria-label="Close">&times;</button>' : ''}
+        </div>
+        <p class="acb-subtitle" data-acb="subtitle">Your message will be transformed and delivered anonymously</p>
+        <form data-acb="form" novalidate>
+          <div class="acb-group">
+            <label class="acb-label" for="\${widgetId}-persona">Message Style (Optional)</label>
+            <select class="acb-input" id="\${widgetId}-persona" data-acb="persona">\${options}</select>
+          </div>
+          <div class="acb-group acb-hidden" data-acb="custom-group">
+            <label class="acb-label" for="\${widgetId}-custom">Custom Style Description</label>
+            <textarea class="acb-input" id="\${widgetId}-custom" data-acb="custom" rows="2"
+                      maxlength="\${CUSTOM_PERSONA_MAX_LENGTH}"
+                      placeholder="e.g. 'Make it sound like a pirate'"></textarea>
+          </div>
+          <div class="acb-group">
+            <label class="acb-label" for="\${widgetId}-message">Your Message</label>
+            <textarea class="acb-input" id="\${widgetId}-message" data-acb="message" rows="5"
+                      maxlength="\${MESSAGE_MAX_LENGTH}" required
+                      placeholder="Share your thoughts, feedback, or concerns..."></textarea>
+            <div class="acb-count"><span data-acb="count">0</span> / \${MESSAGE_MAX_LENGTH}</div>
+          </div>
+          <div class="acb-preview acb-hidden" data-acb="preview" aria-live="polite"></div>
+          <div class="acb-notice acb-hidden" data-acb="redactions" aria-live="polite"></div>
+          <div class="acb-notice acb-hidden" data-acb="notice" role="alert"></div>
+          <div class="acb-hidden" data-acb="challenge"></div>
+          <div class="acb-actions">
+            <button type="button" class="acb-btn acb-btn-secondary" data-acb="preview-btn">Preview</button>
+            <button type="submit" class="acb-btn" data-acb="submit-btn">Send Anonymously</button>
+          </div>
+        </form>
+        <div class="acb-success acb-hidden" data-acb="success">
+          <h3>Message Sent!</h3>
+          <p>Your feedback has been queued for anonymous delivery.</p>
+          <p class="acb-receipt acb-hidden" data-acb="receipt"></p>
+          <button type="button" class="acb-btn acb-btn-secondary" data-acb="reset">Send Another Message</button>
+        </div>
+      </div>
+    \`;
+  }
+
+  // Mount point sits right after the <script> tag so inline widgets appear where they were embedded
+  const host = document.createElement('div');
+  host.className = 'anonymous-comment-box-widget';
+  host.setAttribute('data-widget-id', widgetId);
+  script.parentNode.insertBefore(host, script.nextSibling);
+
+  const root = host.attachShadow ? host.attachShadow({ mode: 'open' }) : host;
+  const container = document.createElement('div');
+  container.className = 'acb-root' + (config.theme === 'dark' ? ' acb-dark' : '');
+
+  const styleElement = document.createElement('style');
+  styleElement.textContent = styles;
+  root.appendChild(styleElement);
+  root.appendChild(container);
+
+  let overlay = null;
+  let launcher = null;
+
+  if (config.position === 'modal') {
+    launcher = document.createElement('button');
+    launcher.type = 'button';
+    launcher.className = 'acb-btn acb-launcher';
+    launcher.textContent = config.title;
+    launcher.setAttribute('aria-haspopup', 'dialog');
+    container.appendChild(launcher);
+
+    overlay = document.createElement('div');
+    overlay.className = 'acb-overlay acb-hidden';
+    overlay.innerHTML = renderForm();
+    container.appendChild(overlay);
+  } else {
+    container.innerHTML = renderForm();
+  }
+
+  function $(name) {
+    return container.querySelector('[data-acb="' + name + '"]');
+  }
+
+  const subtitle = $('subtitle');
+  const form = $('form');
+  const personaSelect = $('persona');
+  const customGroup = $('custom-group');
+  const customInput = $('custom');
+  const messageInput = $('message');
+  const countLabel = $('count');
+  const previewBox = $('preview');
+  const redactionsNotice = $('redactions');
+  const notice = $('notice');
+  const previewBtn = $('preview-btn');
+  const submitBtn = $('submit-btn');
+  const challengeBox = $('challenge');
+  const success = $('success');
+  const receipt = $('receipt');
+  const resetBtn = $('reset');
+  const closeBtn = $('close');
+
+  function showNotice(text) {
+    notice.textContent = text;
+    notice.classList.add('acb-notice-error');
+    notice.classList.remove('acb-hidden');
+  }
+
+  // Tell the sender which personal details were removed so they can check them
+  function showRedactions(redactions) {
+    redactionsNotice.textContent = redactions.length > 0
+      ? 'Removed to protect your anonymity: ' + redactions.map(function(redaction) {
+        return redaction.type.replace(/-/g, ' ') + ' (' + redaction.text + ')';
+      }).join(', ')
+      : '';
+    redactionsNotice.classList.toggle('acb-hidden', redactions.length === 0);
+  }
+
+  function clearNotice() {
+    notice.textContent = '';
+    notice.classList.add('acb-hidden');
+  }
+
+  function buildRequestBody() {
+    const body = {
+      message: messageInput.value.trim(),
+      sessionId: sessionId
+    };
+    if (config.boxId) {
+      body.boxId = config.boxId;
+    }
+    const persona = personaSelect.value;
+    if (persona === 'custom') {
+      const customPersona = customInput.value.trim();
+      if (customPersona) {
+        body.customPersona = customPersona;
+      }
+    } else if (persona) {
+      body.persona = persona;
+    }
+    return body;
+  }
+
+  async function postJson(path, body) {
+    const response = await fetch(apiBase + path, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Session-ID': sessionId
+      },
+      body: JSON.stringify(body)
+    });
+    let data = {};
+    try {
+      data = await response.json();
+    } catch (error) {
+      // Non-JSON error bodies are reported by status only
+    }
+    return { response: response, data: data };
+  }
+
+  // Answer a challenge from /api/submit with a proof-of-work nonce or a Turnstile token
+  async function solveChallenge(challenge) {
+    if (challenge.mode === 'pow') {
+      return { token: challenge.token, nonce: await solveProofOfWork(challenge.token, challenge.difficulty) };
+    }
+    if (challenge.mode === 'turnstile') {
+      return { token: await solveTurnstile(challenge.siteKey) };
+    }
+    throw new Error('Unsupported challenge: ' + challenge.mode);
+  }
+
+  // Find a nonce where SHA-256("<token>:<nonce>") starts with \`difficulty\` zero bits
+  async function solveProofOfWork(token, difficulty) {
+    const encoder = new TextEncoder();
+    for (let nonce = 0; ; nonce++) {
+      const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(token + ':' + nonce)));
+      let bits = 0;
+      for (const byte of hash) {
+        if (byte !== 0) {
+          bits += Math.clz32(byte) - 24;
+          break;
+        }
+        bits += 8;
+      }
+      if (bits >= difficulty) {
+        return String(nonce);
+      }
+    }
+  }
+
+  function solveTurnstile(siteKey) {
+    return loadTurnstile().then(function() {
+      return new Promise(function(resolve, reject) {
+        challengeBox.innerHTML = '';
+        challengeBox.classList.remove('acb-hidden');
+        window.turnstile.render(challengeBox, {
+          sitekey: siteKey,
+          callback: function(token) {
+            challengeBox.classList.add('acb-hidden');
+            resolve(token);
+          },
+          'error-callback': function() {
+            reject(new Error('Bot check failed'));
+          }
+        });
+      });
+    });
+  }
+
+  let turnstileLoading;
+  function loadTurnstile() {
+    if (!turnstileLoading) {
+      turnstileLoading = new Promise(function(resolve, reject) {
+        if (window.turnstile) {
+          resolve();
+          return;
+        }
+        const turnstileScript = document.createElement('script');
+        turnstileScript.src = 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit';
+        turnstileScript.onload = resolve;
+        turnstileScript.onerror = function() {
+          reject(new Error('Failed to load the bot check'));
+        };
+        document.head.appendChild(turnstileScript);
+      });
+    }
+    return turnstileLoading;
+  }
+
+  function errorMessageFor(response, data, fallback) {
+    if (response.status === 429) {
+      const retryAfter = parseInt(response.headers.get('Retry-After'), 10);
+      if (retryAfter > 0) {
+        const wait = retryAfter < 120 ? retryAfter + ' seconds' : Math.ceil(retryAfter / 60) + ' minutes';
+        return 'Rate limit exceeded. Please try again in ' + wait + '.';
+      }
+      return 'Rate limit exceeded. Please wait before trying again.';
+    }
+    return data.error || fallback;
+  }
+
+  function openModal() {
+    if (!overlay) return;
+    overlay.classList.remove('acb-hidden');
+    messageInput.focus();
+    emit('open');
+  }
+
+  function closeModal() {
+    if (!overlay) return;
+    overlay.classList.add('acb-hidden');
+    if (launcher) launcher.focus();
+    emit('close');
+  }
+
+  function resetWidget() {
+    form.reset();
+    countLabel.textContent = '0';
+    customGroup.classList.add('acb-hidden');
+    previewBox.classList.add('acb-hidden');
+    previewBox.textContent = '';
+    showRedactions([]);
+    clearNotice();
+    success.classList.add('acb-hidden');
+    receipt.classList.add('acb-hidden');
+    receipt.textContent = '';
+    form.classList.remove('acb-hidden');
+  }
+
+  // The receipt is left out of the events posted to the host page. The shadow root is open and
+  // the host page runs in the same document, so a script on it could still read the receipt.
+  function showReceipt(code) {
+    receipt.textContent = '';
+    if (!code) {
+      return;
+    }
+    const link = document.createElement('a');
+    link.href = apiBase + '/#receipt=' + encodeURIComponent(code);
+    link.target = '_blank';
+    link.rel = 'noopener';
+    link.textContent = 'Check delivery status';
+    receipt.append('Receipt code: ' + code + ' · ', link);
+    receipt.classList.remove('acb-hidden');
+  }
+
+  messageInput.addEventListener('input', function() {
+    countLabel.textContent = messageInput.value.length;
+  });
+
+  // Name the box the message goes to, as configured on the server
+  async function loadBox() {
+    if (!config.boxId) return;
+    try {
+      const response = await fetch(apiBase + '/api/boxes/' + encodeURIComponent(config.boxId));
+      if (!response || !response.ok) return;
+
+      const box = await response.json();
+      if (box && box.title) {
+        subtitle.textContent = 'Delivered anonymously to ' + box.title;
+      }
+    } catch (error) {
+      console.error('Anonymous Comment Box: failed to load comment box', error);
+    }
+  }
+
+  async function loadPersonas() {
+    try {
+      const query = config.boxId ? '?box=' + encodeURIComponent(config.boxId) : '';
+      const response = await fetch(apiBase + '/api/personas' + query);
+      if (!response || !response.ok) return;
+
+      const personas = await response.json();
+      if (!Array.isArray(personas)) return;
+
+      const customOption = personaSelect.querySelector('option[value="custom"]');
+      personas.forEach(function(persona) {
+        const option = document.createElement('option');
+        option.value = persona.key;
+        option.textContent = persona.name;
+        option.title = persona.description;
+        personaSelect.insertBefore(option, customOption);
+      });
+    } catch (error) {
+      // The form still works with no persona or a custom one
+      console.error('Anonymous Comment Box: failed to load personas', error);
+    }
+  }
+
+  personaSelect.addEventListener('change', function() {
+    customGroup.classList.toggle('acb-hidden', personaSelect.value !== 'custom');
+    previewBox.classList.add('acb-hidden');
+    showRedactions([]);
+  });
+
+  previewBtn.addEventListener('click', async function() {
+    const body = buildRequestBody();
+    if (!body.message) {
+      showNotice('Please enter a message to preview');
+      return;
+    }
+
+    clearNotice();
+    previewBtn.disabled = true;
+    previewBtn.textContent = 'Generating...';
+
+    try {
+      const result = await postJson('/api/preview', body);
+      if (result.response.ok) {
+        previewBox.textContent = result.data.transformedMessage;
+        previewBox.classList.remove('acb-hidden');
+        showRedactions(result.data.redactions || []);
+        if (result.data.fallbackUsed || result.data.error) {
+          showNotice('AI transformation failed: ' + (result.data.error || 'Service temporarily unavailable'));
+        }
+        emit('preview', {
+          persona: result.data.persona,
+          fallbackUsed: !!result.data.fallbackUsed,
+          rateLimitRemaining: result.data.rateLimitRemaining
+        });
+      } else {
+        const error = errorMessageFor(result.response, result.data, 'Failed to generate preview. Please try again.');
+        showNotice(error);
+        emit('error', { stage: 'preview', status: result.response.status, error: error });
+      }
+    } catch (error) {
+      showNotice('Network error. Please check your connection and try again.');
+      emit('error', { stage: 'preview', status: 0, error: 'Network error' });
+    } finally {
+      previewBtn.disabled = false;
+      previewBtn.textContent = 'Preview';
+    }
+  });
+
+  form.addEventListener('submit', async function(e) {
+    e.preventDefault();
+
+    const body = buildRequestBody();
+    if (!body.message) {
+      showNotice('Please enter a message');
+      return;
+    }
+
+    clearNotice();
+    submitBtn.disabled = true;
+    submitBtn.textContent = 'Sending...';
+
+    try {
+      let result = await postJson('/api/submit', body);
+      // When a challenge is enabled the first attempt is answered with one to solve
+      if (result.response.status === 400 && result.data.challenge && result.data.code === 'challenge_required') {
+        submitBtn.textContent = 'Verifying...';
+        body.challenge = await solveChallenge(result.data.challenge);
+        submitBtn.textContent = 'Sending...';
+        result = await postJson('/api/submit', body);
+      }
+      if (result.response.ok) {
+        form.classList.add('acb-hidden');
+        showReceipt(result.data.receipt);
+        success.classList.remove('acb-hidden');
+        emit('submitted', {
+          boxId: config.boxId,
+          recipient: config.recipient,
+          persona: body.persona || (body.customPersona ? 'custom' : 'none')
+        });
+      } else {
+        const error = errorMessageFor(result.response, result.data, 'Failed to send message. Please try again.');
+        showNotice(error);
+        emit('error', { stage: 'submit', status: result.response.status, error: error });
+      }
+    } catch (error) {
+      showNotice('Network error. Please check your connection and try again.');
+      emit('error', { stage: 'submit', status: 0, error: 'Network error' });
+    } finally {
+      submitBtn.disabled = false;
+      submitBtn.textContent = 'Send Anonymously';
+    }
+  });
+
+  resetBtn.addEventListener('click', resetWidget);
+
+  if (launcher) {
+    launcher.addEventListener('click', openModal);
+    closeBtn.addEventListener('click', closeModal);
+    overlay.addEventListener('click', function(e) {
+      if (e.target === overlay) closeModal();
+    });
+    overlay.addEventListener('keydown', function(e) {
+      if (e.key === 'Escape') closeModal();
+    });
+  }
+
+  loadBox();
+  loadPersonas();
+
+  emit('ready', {
+    boxId: config.boxId,
+    recipient: config.recipient,
+    title: config.title,
+    theme: config.theme,
+    position: config.position
+  });
+})();
+`;
 
 const widgetDemoContent = `<!DOCTYPE html>
 <html lang="en">
@@ -1177,7 +2155,6 @@ const widgetDemoContent = `<!DOCTYPE html>
                     <span class="demo-label">Widget Preview</span>
                     <script 
                         src="/widget.js" 
-                        data-recipient="demo@example.com"
                         data-title="Product Feedback">
                     </script>
                 </div>
@@ -1192,7 +2169,7 @@ const widgetDemoContent = `<!DOCTYPE html>
                     <button class="copy-btn" onclick="copyCode(this, 'basic-code')">Copy</button>
                     <pre id="basic-code">&lt;script 
     src="https://your-domain.com/widget.js" 
-    data-recipient="feedback@yourcompany.com"
+    data-box="product-team"
     data-title="Send Us Feedback"&gt;
 &lt;/script&gt;</pre>
                 </div>
@@ -1200,7 +2177,7 @@ const widgetDemoContent = `<!DOCTYPE html>
                 <div class="alert">
                     <span class="alert-icon">⚠️</span>
                     <div class="alert-content">
-                        <strong>Important:</strong> Replace <code>your-domain.com</code> with your actual deployment domain and <code>feedback@yourcompany.com</code> with your email address.
+                        <strong>Important:</strong> Replace <code>your-domain.com</code> with your actual deployment domain and <code>product-team</code> with the ID of your comment box. The box's recipient is set on the server, so the page never names it.
                     </div>
                 </div>
             </section>
@@ -1220,11 +2197,17 @@ const widgetDemoContent = `<!DOCTYPE html>
                         </tr>
                     </thead>
                     <tbody>
+                        <tr>
+                            <td><code>data-box</code></td>
+                            <td>Comment box ID; feedback is delivered to that box's recipient (defaults to the deployment's recipient)</td>
+                            <td><code>product-team</code></td>
+                            <td>No</td>
+                        </tr>
                         <tr>
                             <td><code>data-recipient</code></td>
-                            <td>Email address where feedback will be sent</td>
-                            <td><code>feedback@company.com</code></td>
-                            <td>Yes</td>
+                            <td>Label passed back in the <code>ready</code> and <code>submitted</code> events. It does not choose the recipient or appear in the widget; use <code>data-box</code> for that</td>
+                            <td><code>product-feedback</code></td>
+                            <td>No</td>
                         </tr>
                         <tr>
                             <td><code>data-title</code></td>
@@ -1248,6 +2231,60 @@ const widgetDemoContent = `<!DOCTYPE html>
                 </table>
             </section>
 
+            <!-- Events Section -->
+            <section class="section">
+                <h2>Listening for Events</h2>
+                <p>The widget reports its lifecycle to the host page with <code>window.postMessage</code>. Every event carries <code>source: "anonymous-comment-box"</code>, a <code>type</code> and the <code>widgetId</code> of the widget that sent it.</p>
+
+                <table class="attributes-table">
+                    <thead>
+                        <tr>
+                            <th>Type</th>
+                            <th>When</th>
+                            <th>Extra fields</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        <tr>
+                            <td><code>ready</code></td>
+                            <td>The widget has rendered</td>
+                            <td><code>boxId</code>, <code>recipient</code>, <code>title</code>, <code>theme</code>, <code>position</code></td>
+                        </tr>
+                        <tr>
+                            <td><code>open</code> / <code>close</code></td>
+                            <td>The modal was opened or closed</td>
+                            <td>-</td>
+                        </tr>
+                        <tr>
+                            <td><code>preview</code></td>
+                            <td>A transformation preview was shown</td>
+                            <td><code>persona</code>, <code>fallbackUsed</code>, <code>rateLimitRemaining</code></td>
+                        </tr>
+                        <tr>
+                            <td><code>submitted</code></td>
+                            <td>The message was queued for delivery</td>
+                            <td><code>boxId</code>, <code>recipient</code>, <code>persona</code></td>
+                        </tr>
+                        <tr>
+                            <td><code>error</code></td>
+                            <td>A preview or submission failed</td>
+                            <td><code>stage</code>, <code>status</code>, <code>error</code></td>
+                        </tr>
+                    </tbody>
+                </table>
+
+                <div class="code-block">
+                    <button class="copy-btn" onclick="copyCode(this, 'example-events')">Copy</button>
+                    <pre id="example-events">window.addEventListener('message', (event) =&gt; {
+    if (event.data?.source !== 'anonymous-comment-box') return;
+
+    if (event.data.type === 'submitted') {
+        console.log('Feedback sent from widget', event.data.widgetId);
+    }
+});</pre>
+                </div>
+            </section>
+
             <!-- Integration Examples Section -->
             <section class="section">
                 <h2>Integration Examples</h2>
@@ -1258,7 +2295,7 @@ const widgetDemoContent = `<!DOCTYPE html>
                     <button class="copy-btn" onclick="copyCode(this, 'example-basic')">Copy</button>
                     <pre id="example-basic">&lt;script 
     src="https://your-domain.com/widget.js" 
-    data-recipient="hr@company.com"&gt;
+    data-box="hr"&gt;
 &lt;/script&gt;</pre>
                 </div>
 
@@ -1268,7 +2305,7 @@ const widgetDemoContent = `<!DOCTYPE html>
                     <button class="copy-btn" onclick="copyCode(this, 'example-title')">Copy</button>
                     <pre id="example-title">&lt;script 
     src="https://your-domain.com/widget.js" 
-    data-recipient="product@startup.com"
+    data-box="product-team"
     data-title="Product Suggestions"&gt;
 &lt;/script&gt;</pre>
                 </div>
@@ -1279,7 +2316,7 @@ const widgetDemoContent = `<!DOCTYPE html>
                     <button class="copy-btn" onclick="copyCode(this, 'example-modal')">Copy</button>
                     <pre id="example-modal">&lt;script 
     src="https://your-domain.com/widget.js" 
-    data-recipient="support@app.com"
+    data-box="support"
     data-title="Report an Issue"
     data-theme="dark"
     data-position="modal"&gt;
@@ -1294,7 +2331,7 @@ const widgetDemoContent = `<!DOCTYPE html>
 &lt;div id="hr-feedback"&gt;
     &lt;script 
         src="https://your-domain.com/widget.js" 
-        data-recipient="hr@company.com"
+        data-box="hr"
         data-title="HR Feedback"&gt;
     &lt;/script&gt;
 &lt;/div&gt;
@@ -1303,7 +2340,7 @@ const widgetDemoContent = `<!DOCTYPE html>
 &lt;div id="product-feedback"&gt;
     &lt;script 
         src="https://your-domain.com/widget.js" 
-        data-recipient="product@company.com"
+        data-box="product-team"
         data-title="Product Ideas"&gt;
     &lt;/script&gt;
 &lt;/div&gt;</pre>
@@ -1381,12 +2418,12 @@ const widgetDemoContent = `<!DOCTYPE html>
                 <ul>
                     <li>Confirm email configuration in the application settings</li>
                     <li>Check spam/junk folders</li>
-                    <li>Verify the recipient email address is correct</li>
+                    <li>Verify the recipient email address configured for the comment box named in <code>data-box</code></li>
                 </ul>
                 
                 <h3>Styling Issues</h3>
                 <ul>
-                    <li>The widget uses an iframe to prevent CSS conflicts</li>
+                    <li>The widget renders inside a shadow root to prevent CSS conflicts</li>
                     <li>Use the <code>data-theme</code> attribute for basic customization</li>
                     <li>For advanced styling, modify the widget source code</li>
                 </ul>
@@ -1438,6 +2475,286 @@ const widgetDemoContent = `<!DOCTYPE html>
 </body>
 </html>`;
 
+const repliesHtmlContent = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="referrer" content="no-referrer">
+    <title>Anonymous Replies</title>
+    <link rel="stylesheet" href="/styles.css">
+</head>
+<body>
+    <div class="container">
+        <header>
+            <h1>Anonymous Replies</h1>
+            <p class="subtitle">Enter your reply code to read and answer the conversation</p>
+        </header>
+
+        <main>
+            <form id="tokenForm" class="feedback-form">
+                <div class="form-group">
+                    <label for="replyToken">Reply Code</label>
+                    <input type="text" id="replyToken" class="reply-token-input" autocomplete="off" spellcheck="false" required>
+                </div>
+                <button type="submit" class="submit-btn" id="openBtn">Open Conversation</button>
+            </form>
+
+            <div id="threadSection" class="feedback-form hidden">
+                <p class="persona-description" id="roleNotice"></p>
+                <ul class="reply-thread" id="replyThread" aria-live="polite"></ul>
+
+                <form id="replyForm">
+                    <div class="form-group">
+                        <label for="replyMessage">Your Reply</label>
+                        <textarea id="replyMessage" rows="4" maxlength="2000" required></textarea>
+                    </div>
+                    <div class="challenge-container hidden" id="challengeContainer"></div>
+                    <button type="submit" class="submit-btn" id="replyBtn">Send Reply</button>
+                </form>
+            </div>
+
+            <div id="errorMessage" class="error-message hidden">
+                <h2>Something went wrong</h2>
+                <p id="errorText">Please try again later.</p>
+            </div>
+        </main>
+
+        <footer>
+            <p>Built with privacy in mind. <a href="https://github.com/emily-flambe/anonymous-comment-box" target="_blank">View Source</a></p>
+        </footer>
+    </div>
+
+    <script src="/replies.js"></script>
+</body>
+</html>
+`;
+
+const repliesJsContent = `// Reply page: the sender opens it with their reply code, the recipient with the link from the delivery
+const tokenForm = document.getElementById('tokenForm');
+const tokenInput = document.getElementById('replyToken');
+const threadSection = document.getElementById('threadSection');
+const roleNotice = document.getElementById('roleNotice');
+const replyThread = document.getElementById('replyThread');
+const replyForm = document.getElementById('replyForm');
+const replyMessage = document.getElementById('replyMessage');
+const replyBtn = document.getElementById('replyBtn');
+const challengeContainer = document.getElementById('challengeContainer');
+const errorMessage = document.getElementById('errorMessage');
+const errorText = document.getElementById('errorText');
+
+const ROLE_NOTICES = {
+    sender: 'Your replies are restyled with the same persona as your first message and delivered after the usual delay. They appear here once delivered.',
+    recipient: 'The sender sees your reply as written, the next time they check with their reply code.',
+};
+
+let currentToken = '';
+let currentRole = null;
+
+async function openThread(token) {
+    const response = await fetch('/api/replies', {
+        headers: { 'X-Reply-Token': token },
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+        showError(data.error || 'Could not open this conversation.');
+        return;
+    }
+
+    currentToken = token;
+    currentRole = data.role;
+    hideError();
+    renderThread(data.messages);
+    roleNotice.textContent = ROLE_NOTICES[data.role];
+    threadSection.classList.remove('hidden');
+}
+
+function renderThread(messages) {
+    replyThread.innerHTML = '';
+
+    if (messages.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'reply-entry';
+        empty.textContent = 'No messages yet. Delivered messages and replies will appear here.';
+        replyThread.append(empty);
+        return;
+    }
+
+    for (const entry of messages) {
+        const item = document.createElement('li');
+        item.className = 'reply-entry';
+
+        const meta = document.createElement('span');
+        meta.className = 'reply-entry-meta';
+        meta.textContent = \`\${describeAuthor(entry.from)} · \${new Date(entry.sentAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}\`;
+
+        // textContent keeps message text from being read as HTML
+        item.append(meta, document.createTextNode(entry.message));
+        replyThread.append(item);
+    }
+}
+
+function describeAuthor(from) {
+    if (from === currentRole) {
+        return 'You';
+    }
+    return from === 'sender' ? 'Anonymous sender' : 'Recipient';
+}
+
+function postReply(requestBody) {
+    return fetch('/api/replies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestBody),
+    });
+}
+
+// Answer a challenge from /api/replies with a proof-of-work nonce or a Turnstile token
+async function solveChallenge(challenge) {
+    if (challenge.mode === 'pow') {
+        return { token: challenge.token, nonce: await solveProofOfWork(challenge.token, challenge.difficulty) };
+    }
+    if (challenge.mode === 'turnstile') {
+        return { token: await solveTurnstile(challenge.siteKey) };
+    }
+    throw new Error(\`Unsupported challenge: \${challenge.mode}\`);
+}
+
+// Find a nonce where SHA-256("<token>:<nonce>") starts with \`difficulty\` zero bits
+async function solveProofOfWork(token, difficulty) {
+    const encoder = new TextEncoder();
+    for (let nonce = 0; ; nonce++) {
+        const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(\`\${token}:\${nonce}\`)));
+        let bits = 0;
+        for (const byte of hash) {
+            if (byte !== 0) {
+                bits += Math.clz32(byte) - 24;
+                break;
+            }
+            bits += 8;
+        }
+        if (bits >= difficulty) {
+            return String(nonce);
+        }
+    }
+}
+
+function solveTurnstile(siteKey) {
+    return loadTurnstile().then(() => new Promise((resolve, reject) => {
+        challengeContainer.innerHTML = '';
+        challengeContainer.classList.remove('hidden');
+        window.turnstile.render(challengeContainer, {
+            sitekey: siteKey,
+            callback: token => {
+                challengeContainer.classList.add('hidden');
+                resolve(token);
+            },
+            'error-callback': () => reject(new Error('Bot check failed')),
+        });
+    }));
+}
+
+let turnstileLoading;
+function loadTurnstile() {
+    if (!turnstileLoading) {
+        turnstileLoading = new Promise((resolve, reject) => {
+            const script = document.createElement('script');
+            script.src = 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit';
+            script.onload = resolve;
+            script.onerror = () => reject(new Error('Failed to load the bot check'));
+            document.head.appendChild(script);
+        });
+    }
+    return turnstileLoading;
+}
+
+function showError(message) {
+    errorText.textContent = message;
+    errorMessage.classList.remove('hidden');
+}
+
+function hideError() {
+    errorMessage.classList.add('hidden');
+}
+
+tokenForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+
+    const token = tokenInput.value.trim();
+    if (!token) {
+        showError('Please enter your reply code');
+        return;
+    }
+
+    try {
+        await openThread(token);
+    } catch (error) {
+        console.error('Failed to open conversation:', error);
+        showError('Network error. Please check your connection and try again.');
+    }
+});
+
+replyForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+
+    const message = replyMessage.value.trim();
+    if (!message) {
+        showError('Please enter a reply');
+        return;
+    }
+
+    replyBtn.disabled = true;
+    replyBtn.textContent = 'Sending...';
+
+    try {
+        const requestBody = { token: currentToken, message };
+        let response = await postReply(requestBody);
+        let data = await response.json();
+
+        // Sender responses are answered with a challenge to solve when one is enabled
+        if (response.status === 400 && data.challenge && data.code === 'challenge_required') {
+            replyBtn.textContent = 'Verifying...';
+            requestBody.challenge = await solveChallenge(data.challenge);
+            replyBtn.textContent = 'Sending...';
+            response = await postReply(requestBody);
+            data = await response.json();
+        }
+
+        if (response.ok) {
+            replyMessage.value = '';
+            await openThread(currentToken);
+            if (currentRole === 'sender') {
+                roleNotice.textContent = 'Reply queued. It will appear here once delivered.';
+            }
+        } else if (response.status === 429) {
+            showError('Rate limit exceeded. Please wait before trying again.');
+        } else {
+            showError(data.error || 'Failed to send reply. Please try again.');
+        }
+    } catch (error) {
+        console.error('Reply error:', error);
+        showError('Network error. Please check your connection and try again.');
+    } finally {
+        replyBtn.disabled = false;
+        replyBtn.textContent = 'Send Reply';
+    }
+});
+
+// Links carry the code in the fragment, which browsers never send to the server
+document.addEventListener('DOMContentLoaded', () => {
+    const token = decodeURIComponent(window.location.hash.slice(1));
+    if (token) {
+        tokenInput.value = token;
+        history.replaceState(null, '', window.location.pathname);
+        openThread(token).catch(error => {
+            console.error('Failed to open conversation:', error);
+            showError('Network error. Please check your connection and try again.');
+        });
+    }
+});
+`;
+
 export async function handleStaticAssets(request: Request, url: URL, env?: any): Promise<Response> {
   const path = staticFiles[url.pathname] || url.pathname;
   
@@ -1485,6 +2802,18 @@ export async function handleStaticAssets(request: Request, url: URL, env?: any):
       });
     }
     
+    if (path === '/replies.html') {
+      return new Response(repliesHtmlContent, {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+    
+    if (path === '/replies.js') {
+      return new Response(repliesJsContent, {
+        headers: { 'Content-Type': 'application/javascript; charset=utf-8' },
+      });
+    }
+    
     return new Response('Not Found', { status: 404 });
     
   } catch (error) {
@@ -51,4 +51,33 @@ export function truncateToWords(text: string, maxWords: number): string {
  */
 export function exceedsWordLimit(text: string, wordLimit: number): boolean {
   return countWords(text) > wordLimit;
-}
\ No newline at end of file
+}
+
+/**
+ * Strip the mechanical habits that make writing recognisable: emoji, repeated
+ * punctuation, shouting, stray whitespace and inconsistent capitalisation.
+ * Wording is left alone; the anonymize transformation handles that.
+ */
+export function normalizeWritingStyle(text: string): string {
+  if (!text || typeof text !== 'string') {
+    return '';
+  }
+
+  return text
+    // Emoji, including skin tones, variation selectors and joiners
+    .replace(/\p{Extended_Pictographic}|[\u{1F3FB}-\u{1F3FF}]|\u{FE0F}|\u{200D}/gu, '')
+    // "!!!", "?!?" and "...." become a single mark
+    .replace(/[!?]{2,}/g, match => match[0])
+    .replace(/(?:\.{2,}|…)/g, '.')
+    .replace(/,{2,}/g, ',')
+    // Shouted words; shorter all-caps words are usually acronyms
+    .replace(/\b[A-Z]{5,}\b/g, word => word.toLowerCase())
+    .replace(/\bi\b(?!\.\w)/g, 'I')
+    .replace(/[ \t]+([,.!?;:])/g, '$1')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    // Capitalise the start of each sentence
+    .replace(/(^|[.!?]\s+)([a-z])/g, (_match, boundary: string, letter: string) => boundary + letter.toUpperCase());
+}
@@ -0,0 +1,49 @@
+// A time of day as 24-hour "HH:MM"
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function isValidTimeZone(timeZone: unknown): boolean {
+  if (typeof timeZone !== 'string' || !timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The wall-clock date and time in a time zone at an instant
+ */
+export function getZonedParts(time: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)!.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+/**
+ * The instant a wall-clock time occurs in a time zone. Date.UTC rolls an overflowing day
+ * into the next month, so callers can add days to `day` directly.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wall - getOffset(wall, timeZone);
+  return wall - getOffset(guess, timeZone);
+}
+
+// How far the time zone's wall clock is ahead of UTC at an instant
+function getOffset(time: number, timeZone: string): number {
+  const wall = getZonedParts(time, timeZone);
+  const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return wallAsUtc - (time - (time % 1000));
+}
@@ -0,0 +1,223 @@
+// Reply page: the sender opens it with their reply code, the recipient with the link from the delivery
+const tokenForm = document.getElementById('tokenForm');
+const tokenInput = document.getElementById('replyToken');
+const threadSection = document.getElementById('threadSection');
+const roleNotice = document.getElementById('roleNotice');
+const replyThread = document.getElementById('replyThread');
+const replyForm = document.getElementById('replyForm');
+const replyMessage = document.getElementById('replyMessage');
+const replyBtn = document.getElementById('replyBtn');
+const challengeContainer = document.getElementById('challengeContainer');
+const errorMessage = document.getElementById('errorMessage');
+const errorText = document.getElementById('errorText');
+
+const ROLE_NOTICES = {
+    sender: 'Your replies are restyled with the same persona as your first message and delivered after the usual delay. They appear here once delivered.',
+    recipient: 'The sender sees your reply as written, the next time they check with their reply code.',
+};
+
+let currentToken = '';
+let currentRole = null;
+
+async function openThread(token) {
+    const response = await fetch('/api/replies', {
+        headers: { 'X-Reply-Token': token },
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+        showError(data.error || 'Could not open this conversation.');
+        return;
+    }
+
+    currentToken = token;
+    currentRole = data.role;
+    hideError();
+    renderThread(data.messages);
+    roleNotice.textContent = ROLE_NOTICES[data.role];
+    threadSection.classList.remove('hidden');
+}
+
+function renderThread(messages) {
+    replyThread.innerHTML = '';
+
+    if (messages.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'reply-entry';
+        empty.textContent = 'No messages yet. Delivered messages and replies will appear here.';
+        replyThread.append(empty);
+        return;
+    }
+
+    for (const entry of messages) {
+        const item = document.createElement('li');
+        item.className = 'reply-entry';
+
+        const meta = document.createElement('span');
+        meta.className = 'reply-entry-meta';
+        meta.textContent = `${describeAuthor(entry.from)} · ${new Date(entry.sentAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`;
+
+        // textContent keeps message text from being read as HTML
+        item.append(meta, document.createTextNode(entry.message));
+        replyThread.append(item);
+    }
+}
+
+function describeAuthor(from) {
+    if (from === currentRole) {
+        return 'You';
+    }
+    return from === 'sender' ? 'Anonymous sender' : 'Recipient';
+}
+
+function postReply(requestBody) {
+    return fetch('/api/replies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestBody),
+    });
+}
+
+// Answer a challenge from /api/replies with a proof-of-work nonce or a Turnstile token
+async function solveChallenge(challenge) {
+    if (challenge.mode === 'pow') {
+        return { token: challenge.token, nonce: await solveProofOfWork(challenge.token, challenge.difficulty) };
+    }
+    if (challenge.mode === 'turnstile') {
+        return { token: await solveTurnstile(challenge.siteKey) };
+    }
+    throw new Error(`Unsupported challenge: ${challenge.mode}`);
+}
+
+// Find a nonce where SHA-256("<token>:<nonce>") starts with `difficulty` zero bits
+async function solveProofOfWork(token, difficulty) {
+    const encoder = new TextEncoder();
+    for (let nonce = 0; ; nonce++) {
+        const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(`${token}:${nonce}`)));
+        let bits = 0;
+        for (const byte of hash) {
+            if (byte !== 0) {
+                bits += Math.clz32(byte) - 24;
+                break;
+            }
+            bits += 8;
+        }
+        if (bits >= difficulty) {
+            return String(nonce);
+        }
+    }
+}
+
+function solveTurnstile(siteKey) {
+    return loadTurnstile().then(() => new Promise((resolve, reject) => {
+        challengeContainer.innerHTML = '';
+        challengeContainer.classList.remove('hidden');
+        window.turnstile.render(challengeContainer, {
+            sitekey: siteKey,
+            callback: token => {
+                challengeContainer.classList.add('hidden');
+                resolve(token);
+            },
+            'error-callback': () => reject(new Error('Bot check failed')),
+        });
+    }));
+}
+
+let turnstileLoading;
+function loadTurnstile() {
+    if (!turnstileLoading) {
+        turnstileLoading = new Promise((resolve, reject) => {
+            const script = document.createElement('script');
+            script.src = 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit';
+            script.onload = resolve;
+            script.onerror = () => reject(new Error('Failed to load the bot check'));
+            document.head.appendChild(script);
+        });
+    }
+    return turnstileLoading;
+}
+
+function showError(message) {
+    errorText.textContent = message;
+    errorMessage.classList.remove('hidden');
+}
+
+function hideError() {
+    errorMessage.classList.add('hidden');
+}
+
+tokenForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+
+    const token = tokenInput.value.trim();
+    if (!token) {
+        showError('Please enter your reply code');
+        return;
+    }
+
+    try {
+        await openThread(token);
+    } catch (error) {
+        console.error('Failed to open conversation:', error);
+        showError('Network error. Please check your connection and try again.');
+    }
+});
+
+replyForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+
+    const message = replyMessage.value.trim();
+    if (!message) {
+        showError('Please enter a reply');
+        return;
+    }
+
+    replyBtn.disabled = true;
+    replyBtn.textContent = 'Sending...';
+
+    try {
+        const requestBody = { token: currentToken, message };
+        let response = await postReply(requestBody);
+        let data = await response.json();
+
+        // Sender responses are answered with a challenge to solve when one is enabled
+        if (response.status === 400 && data.challenge && data.code === 'challenge_required') {
+            replyBtn.textContent = 'Verifying...';
+            requestBody.challenge = await solveChallenge(data.challenge);
+            replyBtn.textContent = 'Sending...';
+            response = await postReply(requestBody);
+            data = await response.json();
+        }
+
+        if (response.ok) {
+            replyMessage.value = '';
+            await openThread(currentToken);
+            if (currentRole === 'sender') {
+                roleNotice.textContent = 'Reply queued. It will appear here once delivered.';
+            }
+        } else if (response.status === 429) {
+            showError('Rate limit exceeded. Please wait before trying again.');
+        } else {
+            showError(data.error || 'Failed to send reply. Please try again.');
+        }
+    } catch (error) {
+        console.error('Reply error:', error);
+        showError('Network error. Please check your connection and try again.');
+    } finally {
+        replyBtn.disabled = false;
+        replyBtn.textContent = 'Send Reply';
+    }
+});
+
+// Links carry the code in the fragment, which browsers never send to the server
+document.addEventListener('DOMContentLoaded', () => {
+    const token = decodeURIComponent(window.location.hash.slice(1));
+    if (token) {
+        tokenInput.value = token;
+        history.replaceState(null, '', window.location.pathname);
+        openThread(token).catch(error => {
+            console.error('Failed to open conversation:', error);
+            showError('Network error. Please check your connection and try again.');
+        });
+    }
+});
@@ -17,37 +17,40 @@ const previewBtn = document.getElementById('previewBtn');
 const previewContainer = document.getElementById('previewContainer');
 const originalPreview = document.getElementById('originalPreview');
 const transformedPreview = document.getElementById('transformedPreview');
+const previewRedactions = document.getElementById('previewRedactions');
 const rateLimitStatus = document.getElementById('rateLimitStatus');
 const rateLimitText = document.getElementById('rateLimitText');
 const rateLimitCount = document.getElementById('rateLimitCount');
+const challengeContainer = document.getElementById('challengeContainer');
+const allowRepliesCheckbox = document.getElementById('allowReplies');
+const replyTokenSection = document.getElementById('replyTokenSection');
+const replyTokenText = document.getElementById('replyTokenText');
+const replyTokenLink = document.getElementById('replyTokenLink');
+const receiptCodeSection = document.getElementById('receiptCodeSection');
+const receiptCodeText = document.getElementById('receiptCodeText');
+const statusForm = document.getElementById('statusForm');
+const receiptInput = document.getElementById('receiptInput');
+const statusResult = document.getElementById('statusResult');
+
+const RECEIPT_STATUS_TEXT = {
+    queued: 'Queued. It will be delivered after a random delay.',
+    held: 'Waiting for a reviewer before it is queued.',
+    delivered: 'Delivered.',
+    failed: 'Not delivered. It could not be sent or a reviewer rejected it.',
+};
 
 // Session management
 let sessionId = localStorage.getItem('sessionId') || generateSessionId();
 localStorage.setItem('sessionId', sessionId);
 
-// Rate limiting state
+// Comment box selected via ?box=<id> (defaults to the deployment's recipient)
+const boxId = new URLSearchParams(window.location.search).get('box');
+
+// Rate limiting state for the preview bucket (submissions are counted separately)
+let rateLimitLimit = 10;
+let rateLimitWindowMs = 60000; // 1 minute
 let rateLimitRemaining = 10;
-let rateLimitReset = Date.now() + 60000; // 1 minute from now
-
-// Persona descriptions and examples
-const personaDescriptions = {
-    'internet-random': {
-        description: 'Casual internet slang with abbreviations, mild typos, and meme references.',
-        example: 'Original: "I think this is a great idea." → "ngl this idea slaps 💯 we should def do this fr fr"'
-    },
-    'barely-literate': {
-        description: 'Simple vocabulary with poor grammar and informal structure.',
-        example: 'Original: "I disagree with this decision." → "i dont like this thing cuz it dont make sense to me"'
-    },
-    'extremely-serious': {
-        description: 'Formal, academic language with professional vocabulary.',
-        example: 'Original: "This is really bad." → "This matter requires immediate systematic remediation."'
-    },
-    'super-nice': {
-        description: 'Overly polite, encouraging, and positive language.',
-        example: 'Original: "This feature is broken." → "I hope this feedback helps! The feature might benefit from some adjustments. Thank you! 😊"'
-    }
-};
+let rateLimitReset = Date.now() + rateLimitWindowMs;
 
 function generateSessionId() {
     return 'session_' + Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
@@ -91,11 +94,13 @@ personaSelect.addEventListener('change', () => {
         customPersonaTextarea.value = '';
         customPersonaCount.textContent = '0';
         
-        if (selectedPersona && personaDescriptions[selectedPersona]) {
+        const option = personaSelect.selectedOptions[0];
+        if (selectedPersona && option && option.dataset.description) {
             updatePersonaDescription(
-                personaDescriptions[selectedPersona].description + 
-                '<br><br><strong>Example:</strong> ' + 
-                personaDescriptions[selectedPersona].example
+                escapeHtml(option.dataset.description) +
+                (option.dataset.example
+                    ? '<br><br><strong>Example:</strong> ' + escapeHtml(option.dataset.example)
+                    : '')
             );
         } else {
             updatePersonaDescription('');
@@ -150,6 +155,14 @@ async function generatePreview(message) {
             sessionId: sessionId
         };
         
+        if (boxId) {
+            requestBody.boxId = boxId;
+        }
+        
+        if (allowRepliesCheckbox && allowRepliesCheckbox.checked) {
+            requestBody.allowReplies = true;
+        }
+        
         if (selectedPersona && selectedPersona !== 'custom') {
             requestBody.persona = selectedPersona;
         } else if (customPersona) {
@@ -196,17 +209,111 @@ function displayPreview(data) {
             <br><br>
             <strong>Original message shown below:</strong>
             <br><br>
-            ${data.transformedMessage}
+            ${escapeHtml(data.transformedMessage)}
         </div>`;
     } else {
         // Display the transformed message
         transformedPreview.textContent = data.transformedMessage;
     }
-    
+
+    displayRedactions(data.redactions || []);
     previewContainer.classList.remove('hidden');
 }
 
+// List the personal details that were removed so the sender can check them
+function displayRedactions(redactions) {
+    previewRedactions.textContent = '';
+    previewRedactions.classList.toggle('hidden', redactions.length === 0);
+    if (redactions.length === 0) {
+        return;
+    }
+
+    const heading = document.createElement('strong');
+    heading.textContent = 'Removed to protect your anonymity:';
+    const list = document.createElement('ul');
+    redactions.forEach(redaction => {
+        const item = document.createElement('li');
+        item.textContent = `${redaction.type.replace(/-/g, ' ')}: ${redaction.text}`;
+        list.appendChild(item);
+    });
+    previewRedactions.append(heading, list);
+}
+
+function postSubmission(requestBody) {
+    return fetch('/api/submit', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Session-ID': sessionId
+        },
+        body: JSON.stringify(requestBody),
+    });
+}
+
+// Answer a challenge from /api/submit with a proof-of-work nonce or a Turnstile token
+async function solveChallenge(challenge) {
+    if (challenge.mode === 'pow') {
+        return { token: challenge.token, nonce: await solveProofOfWork(challenge.token, challenge.difficulty) };
+    }
+    if (challenge.mode === 'turnstile') {
+        return { token: await solveTurnstile(challenge.siteKey) };
+    }
+    throw new Error(`Unsupported challenge: ${challenge.mode}`);
+}
+
+// Find a nonce where SHA-256("<token>:<nonce>") starts with `difficulty` zero bits
+async function solveProofOfWork(token, difficulty) {
+    const encoder = new TextEncoder();
+    for (let nonce = 0; ; nonce++) {
+        const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(`${token}:${nonce}`)));
+        let bits = 0;
+        for (const byte of hash) {
+            if (byte !== 0) {
+                bits += Math.clz32(byte) - 24;
+                break;
+            }
+            bits += 8;
+        }
+        if (bits >= difficulty) {
+            return String(nonce);
+        }
+    }
+}
+
+function solveTurnstile(siteKey) {
+    return loadTurnstile().then(() => new Promise((resolve, reject) => {
+        challengeContainer.innerHTML = '';
+        challengeContainer.classList.remove('hidden');
+        window.turnstile.render(challengeContainer, {
+            sitekey: siteKey,
+            callback: token => {
+                challengeContainer.classList.add('hidden');
+                resolve(token);
+            },
+            'error-callback': () => reject(new Error('Bot check failed')),
+        });
+    }));
+}
+
+let turnstileLoading;
+function loadTurnstile() {
+    if (!turnstileLoading) {
+        turnstileLoading = new Promise((resolve, reject) => {
+            const script = document.createElement('script');
+            script.src = 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit';
+            script.onload = resolve;
+            script.onerror = () => reject(new Error('Failed to load the bot check'));
+            document.head.appendChild(script);
+        });
+    }
+    return turnstileLoading;
+}
+
 function updateRateLimit(remaining, reset) {
+    // Backends that cannot count requests report no remaining count, so keep the last one shown
+    if (remaining === undefined) {
+        return;
+    }
     rateLimitRemaining = remaining;
     rateLimitReset = reset;
     rateLimitCount.textContent = remaining;
@@ -216,7 +323,7 @@ function updateRateLimit(remaining, reset) {
         rateLimitText.innerHTML = `⚠️ Only <span id="rateLimitCount">${remaining}</span> previews remaining`;
     } else {
         rateLimitStatus.classList.remove('rate-limit-warning');
-        rateLimitText.innerHTML = `Previews remaining: <span id="rateLimitCount">${remaining}</span>/10`;
+        rateLimitText.innerHTML = `Previews remaining: <span id="rateLimitCount">${remaining}</span>/${rateLimitLimit}`;
     }
 }
 
@@ -245,25 +352,30 @@ feedbackForm.addEventListener('submit', async (e) => {
             sessionId: sessionId
         };
         
+        if (boxId) {
+            requestBody.boxId = boxId;
+        }
+        
         if (selectedPersona && selectedPersona !== 'custom') {
             requestBody.persona = selectedPersona;
         } else if (customPersona) {
             requestBody.customPersona = customPersona;
         }
         
-        const response = await fetch('/api/submit', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'X-Session-ID': sessionId
-            },
-            body: JSON.stringify(requestBody),
-        });
+        let response = await postSubmission(requestBody);
+        let data = await response.json();
         
-        const data = await response.json();
+        // When a challenge is enabled the first attempt is answered with one to solve
+        if (response.status === 400 && data.challenge && data.code === 'challenge_required') {
+            submitBtn.textContent = 'Verifying...';
+            requestBody.challenge = await solveChallenge(data.challenge);
+            submitBtn.textContent = 'Sending...';
+            response = await postSubmission(requestBody);
+            data = await response.json();
+        }
         
         if (response.ok) {
-            showSuccess();
+            showSuccess(data.replyToken, data.receipt);
         } else if (response.status === 429) {
             showError('Rate limit exceeded. Please wait before trying again.');
         } else {
@@ -280,10 +392,23 @@ feedbackForm.addEventListener('submit', async (e) => {
     }
 });
 
-function showSuccess() {
+function showSuccess(replyToken, receipt) {
     feedbackForm.style.display = 'none';
     successMessage.classList.remove('hidden');
     errorMessage.classList.add('hidden');
+    
+    if (receiptCodeSection) {
+        receiptCodeSection.classList.toggle('hidden', !receipt);
+        receiptCodeText.textContent = receipt || '';
+        receiptInput.value = receipt || '';
+    }
+    
+    // The server keeps only a hash of the token, so this is the sender's one chance to copy it
+    if (replyTokenSection) {
+        replyTokenSection.classList.toggle('hidden', !replyToken);
+        replyTokenText.textContent = replyToken || '';
+        replyTokenLink.href = replyToken ? `/replies#${replyToken}` : '/replies';
+    }
 }
 
 function showError(message) {
@@ -303,7 +428,10 @@ async function initializeRateLimit() {
         
         if (response.ok) {
             const data = await response.json();
-            updateRateLimit(data.remaining, data.reset);
+            const preview = data.buckets?.preview || data;
+            rateLimitLimit = preview.limit || rateLimitLimit;
+            rateLimitWindowMs = preview.windowMs || rateLimitWindowMs;
+            updateRateLimit(preview.remaining, preview.reset);
         }
     } catch (error) {
         console.error('Failed to get rate limit status:', error);
@@ -311,6 +439,73 @@ async function initializeRateLimit() {
     }
 }
 
+// Replace the built-in persona options with the live list from the server
+async function initializePersonas() {
+    try {
+        const query = boxId ? `?box=${encodeURIComponent(boxId)}` : '';
+        const response = await fetch(`/api/personas${query}`);
+        if (!response || !response.ok) {
+            return;
+        }
+        
+        const personas = await response.json();
+        if (!Array.isArray(personas)) {
+            return;
+        }
+        
+        // A restored persona may only exist in the server list
+        const selectedPersona = personaSelect.value || sessionStorage.getItem('selectedPersona') || '';
+        personaSelect.querySelectorAll('option[data-persona]').forEach(option => option.remove());
+        
+        const customOption = personaSelect.querySelector('option[value="custom"]');
+        personas.forEach(persona => {
+            const option = document.createElement('option');
+            option.value = persona.key;
+            option.textContent = persona.name;
+            option.dataset.persona = '';
+            option.dataset.description = persona.description;
+            if (persona.example) {
+                option.dataset.example = persona.example;
+            }
+            personaSelect.insertBefore(option, customOption);
+        });
+        
+        // Keep the current choice if it is still available
+        const stillAvailable = Array.from(personaSelect.options).some(option => option.value === selectedPersona);
+        personaSelect.value = stillAvailable ? selectedPersona : '';
+        personaSelect.dispatchEvent(new Event('change'));
+    } catch (error) {
+        console.error('Failed to load personas:', error);
+        // Keep the built-in options
+    }
+}
+
+function escapeHtml(text) {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+}
+
+// Show the comment box title when sending to a specific box
+async function initializeBox() {
+    if (!boxId) {
+        return;
+    }
+    
+    try {
+        const response = await fetch(`/api/boxes/${encodeURIComponent(boxId)}`);
+        
+        if (response.ok) {
+            const box = await response.json();
+            document.querySelector('header h1').textContent = box.title;
+        } else {
+            showError('This comment box does not exist.');
+        }
+    } catch (error) {
+        console.error('Failed to load comment box:', error);
+    }
+}
+
 // Restore session state on page load
 function restoreSessionState() {
     const savedPersona = sessionStorage.getItem('selectedPersona');
@@ -331,8 +526,8 @@ function restoreSessionState() {
 function updateRateLimitTimer() {
     const now = Date.now();
     if (now >= rateLimitReset) {
-        rateLimitRemaining = 10;
-        rateLimitReset = now + 60000; // Reset for another minute
+        rateLimitRemaining = rateLimitLimit;
+        rateLimitReset = now + rateLimitWindowMs;
         updateRateLimit(rateLimitRemaining, rateLimitReset);
     }
 }
@@ -348,13 +543,65 @@ function resetForm() {
     charCount.textContent = '0';
     charCount.style.color = '#6b7280';
     previewContainer.classList.add('hidden');
+    if (replyTokenSection) {
+        replyTokenSection.classList.add('hidden');
+        replyTokenText.textContent = '';
+    }
+    if (receiptCodeSection) {
+        receiptCodeSection.classList.add('hidden');
+        receiptCodeText.textContent = '';
+    }
     
     // Don't reset persona selection on form reset
     // This preserves user's persona choice for multiple submissions
 }
 
+async function checkReceiptStatus(receipt) {
+    statusResult.classList.remove('hidden');
+    statusResult.textContent = 'Checking...';
+    
+    try {
+        const response = await fetch(`/api/status/${encodeURIComponent(receipt)}`);
+        const data = await response.json();
+        
+        if (response.ok) {
+            statusResult.textContent = RECEIPT_STATUS_TEXT[data.status] || data.status;
+        } else if (response.status === 404) {
+            statusResult.textContent = 'No message found for this receipt code. Codes expire after 30 days.';
+        } else {
+            statusResult.textContent = data.error || 'Could not check the status. Please try again.';
+        }
+    } catch (error) {
+        console.error('Status check error:', error);
+        statusResult.textContent = 'Network error. Please check your connection and try again.';
+    }
+}
+
+if (statusForm) {
+    statusForm.addEventListener('submit', (e) => {
+        e.preventDefault();
+        const receipt = receiptInput.value.trim();
+        if (receipt) {
+            checkReceiptStatus(receipt);
+        }
+    });
+}
+
+// The widget links here with #receipt=<code>
+function restoreReceiptFromHash() {
+    const match = window.location.hash.match(/^#receipt=([0-9a-fA-F]+)$/);
+    if (match && statusForm) {
+        receiptInput.value = match[1];
+        history.replaceState(null, '', window.location.pathname + window.location.search);
+        checkReceiptStatus(match[1]);
+    }
+}
+
 // Initialize on page load
 document.addEventListener('DOMContentLoaded', () => {
     restoreSessionState();
+    restoreReceiptFromHash();
+    initializePersonas();
+    initializeBox();
     initializeRateLimit();
 });
\ No newline at end of file
@@ -0,0 +1,612 @@
+// Anonymous Comment Box Widget
+//
+// Usage:
+//   <script src="https://your-domain.com/widget.js"
+//           data-box="product-team"
+//           data-title="Send Us Feedback"
+//           data-theme="light|dark"
+//           data-position="inline|modal"></script>
+//
+// data-box picks the comment box, and so the recipient configured for it on the server.
+// data-recipient is only a label echoed back in the ready and submitted events; it never
+// chooses where a message is delivered and is not shown to the sender.
+// The form is rendered inside a shadow root so host page styles cannot leak in.
+// Lifecycle events are posted to the host window as
+//   { source: 'anonymous-comment-box', type, widgetId, ... }
+// with type one of: ready, open, close, preview, submitted, error.
+(function() {
+  'use strict';
+
+  const script = document.currentScript;
+  if (!script) {
+    console.error('Anonymous Comment Box: widget.js must be loaded with a <script> tag');
+    return;
+  }
+
+  const MESSAGE_MAX_LENGTH = 2000;
+  const CUSTOM_PERSONA_MAX_LENGTH = 500;
+  const EVENT_SOURCE = 'anonymous-comment-box';
+
+  const config = {
+    boxId: script.getAttribute('data-box') || '',
+    recipient: script.getAttribute('data-recipient') || '',
+    title: script.getAttribute('data-title') || 'Send Anonymous Feedback',
+    theme: script.getAttribute('data-theme') === 'dark' ? 'dark' : 'light',
+    position: script.getAttribute('data-position') === 'modal' ? 'modal' : 'inline'
+  };
+
+  // API calls go to the origin that served this script, not the host page
+  const apiBase = new URL(script.src, window.location.href).origin;
+  const widgetId = 'acb_' + Math.random().toString(36).substr(2, 9);
+  const sessionId = 'session_' + Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
+
+  function emit(type, detail) {
+    const payload = Object.assign({ source: EVENT_SOURCE, type: type, widgetId: widgetId }, detail || {});
+    window.postMessage(payload, '*');
+    if (window.parent && window.parent !== window) {
+      window.parent.postMessage(payload, '*');
+    }
+  }
+
+  function escapeHtml(text) {
+    return String(text)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  const styles = `
+    :host { all: initial; }
+    .acb-root {
+      --acb-bg: #ffffff;
+      --acb-surface: #f9fafb;
+      --acb-text: #1f2937;
+      --acb-muted: #6b7280;
+      --acb-border: #e5e7eb;
+      --acb-primary: #5b21b6;
+      --acb-primary-hover: #4c1d95;
+      --acb-success: #10b981;
+      --acb-error: #ef4444;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      font-size: 14px;
+      line-height: 1.5;
+      color: var(--acb-text);
+    }
+    .acb-root.acb-dark {
+      --acb-bg: #1f2937;
+      --acb-surface: #111827;
+      --acb-text: #f9fafb;
+      --acb-muted: #9ca3af;
+      --acb-border: #374151;
+      --acb-primary: #8b5cf6;
+      --acb-primary-hover: #7c3aed;
+    }
+    .acb-panel {
+      background: var(--acb-bg);
+      border: 1px solid var(--acb-border);
+      border-radius: 12px;
+      padding: 1.25rem;
+      box-sizing: border-box;
+      width: 100%;
+    }
+    .acb-header { display: flex; align-items: flex-start; justify-content: space-between; gap: 0.5rem; }
+    .acb-title { margin: 0 0 0.25rem; font-size: 1.125rem; font-weight: 600; }
+    .acb-subtitle { margin: 0 0 1rem; color: var(--acb-muted); font-size: 0.8125rem; }
+    .acb-group { margin-bottom: 0.875rem; }
+    .acb-label { display: block; margin-bottom: 0.25rem; font-weight: 600; font-size: 0.8125rem; }
+    .acb-input {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 0.5rem 0.625rem;
+      border: 1px solid var(--acb-border);
+      border-radius: 8px;
+      background: var(--acb-surface);
+      color: var(--acb-text);
+      font: inherit;
+      resize: vertical;
+    }
+    .acb-input:focus { outline: 2px solid var(--acb-primary); outline-offset: 1px; }
+    .acb-count { text-align: right; color: var(--acb-muted); font-size: 0.75rem; margin-top: 0.25rem; }
+    .acb-actions { display: flex; gap: 0.5rem; flex-wrap: wrap; }
+    .acb-btn {
+      border: none;
+      border-radius: 8px;
+      padding: 0.5rem 1rem;
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      background: var(--acb-primary);
+      color: #ffffff;
+    }
+    .acb-btn:hover { background: var(--acb-primary-hover); }
+    .acb-btn:disabled { opacity: 0.6; cursor: not-allowed; }
+    .acb-btn-secondary { background: transparent; color: var(--acb-primary); border: 1px solid var(--acb-primary); }
+    .acb-btn-secondary:hover { background: var(--acb-surface); }
+    .acb-close { background: transparent; border: none; color: var(--acb-muted); font-size: 1.25rem; cursor: pointer; line-height: 1; }
+    .acb-preview {
+      background: var(--acb-surface);
+      border: 1px solid var(--acb-border);
+      border-radius: 8px;
+      padding: 0.625rem;
+      margin-bottom: 0.875rem;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+    .acb-notice { font-size: 0.8125rem; margin-bottom: 0.875rem; }
+    .acb-notice-error { color: var(--acb-error); }
+    .acb-success { text-align: center; padding: 1rem 0; }
+    .acb-success h3 { color: var(--acb-success); margin: 0 0 0.5rem; }
+    .acb-receipt { font-size: 0.8125rem; word-break: break-all; }
+    .acb-hidden { display: none !important; }
+    .acb-launcher {
+      position: fixed;
+      right: 1.5rem;
+      bottom: 1.5rem;
+      z-index: 2147483000;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.2);
+      border-radius: 999px;
+      padding: 0.75rem 1.25rem;
+    }
+    .acb-overlay {
+      position: fixed;
+      inset: 0;
+      z-index: 2147483001;
+      background: rgba(0, 0, 0, 0.5);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 1rem;
+    }
+    .acb-overlay .acb-panel { max-width: 520px; max-height: 90vh; overflow-y: auto; }
+  `;
+
+  function renderForm() {
+    // Personas are filled in from /api/personas once it loads
+    const options = '<option value="">Anonymize only (no persona)</option>' +
+      '<option value="custom">Custom style...</option>';
+
+    return `
+      <div class="acb-panel" role="${config.position === 'modal' ? 'dialog' : 'region'}"
+           aria-modal="${config.position === 'modal' ? 'true' : 'false'}"
+           aria-labelledby="${widgetId}-title">
+        <div class="acb-header">
+          <h2 class="acb-title" id="${widgetId}-title">${escapeHtml(config.title)}</h2>
+          ${config.position === 'modal' ? '<button type="button" class="acb-close" data-acb="close" aria-label="Close">&times;</button>' : ''}
+        </div>
+        <p class="acb-subtitle" data-acb="subtitle">Your message will be transformed and delivered anonymously</p>
+        <form data-acb="form" novalidate>
+          <div class="acb-group">
+            <label class="acb-label" for="${widgetId}-persona">Message Style (Optional)</label>
+            <select class="acb-input" id="${widgetId}-persona" data-acb="persona">${options}</select>
+          </div>
+          <div class="acb-group acb-hidden" data-acb="custom-group">
+            <label class="acb-label" for="${widgetId}-custom">Custom Style Description</label>
+            <textarea class="acb-input" id="${widgetId}-custom" data-acb="custom" rows="2"
+                      maxlength="${CUSTOM_PERSONA_MAX_LENGTH}"
+                      placeholder="e.g. 'Make it sound like a pirate'"></textarea>
+          </div>
+          <div class="acb-group">
+            <label class="acb-label" for="${widgetId}-message">Your Message</label>
+            <textarea class="acb-input" id="${widgetId}-message" data-acb="message" rows="5"
+                      maxlength="${MESSAGE_MAX_LENGTH}" required
+                      placeholder="Share your thoughts, feedback, or concerns..."></textarea>
+            <div class="acb-count"><span data-acb="count">0</span> / ${MESSAGE_MAX_LENGTH}</div>
+          </div>
+          <div class="acb-preview acb-hidden" data-acb="preview" aria-live="polite"></div>
+          <div class="acb-notice acb-hidden" data-acb="redactions" aria-live="polite"></div>
+          <div class="acb-notice acb-hidden" data-acb="notice" role="alert"></div>
+          <div class="acb-hidden" data-acb="challenge"></div>
+          <div class="acb-actions">
+            <button type="button" class="acb-btn acb-btn-secondary" data-acb="preview-btn">Preview</button>
+            <button type="submit" class="acb-btn" data-acb="submit-btn">Send Anonymously</button>
+          </div>
+        </form>
+        <div class="acb-success acb-hidden" data-acb="success">
+          <h3>Message Sent!</h3>
+          <p>Your feedback has been queued for anonymous delivery.</p>
+          <p class="acb-receipt acb-hidden" data-acb="receipt"></p>
+          <button type="button" class="acb-btn acb-btn-secondary" data-acb="reset">Send Another Message</button>
+        </div>
+      </div>
+    `;
+  }
+
+  // Mount point sits right after the <script> tag so inline widgets appear where they were embedded
+  const host = document.createElement('div');
+  host.className = 'anonymous-comment-box-widget';
+  host.setAttribute('data-widget-id', widgetId);
+  script.parentNode.insertBefore(host, script.nextSibling);
+
+  const root = host.attachShadow ? host.attachShadow({ mode: 'open' }) : host;
+  const container = document.createElement('div');
+  container.className = 'acb-root' + (config.theme === 'dark' ? ' acb-dark' : '');
+
+  const styleElement = document.createElement('style');
+  styleElement.textContent = styles;
+  root.appendChild(styleElement);
+  root.appendChild(container);
+
+  let overlay = null;
+  let launcher = null;
+
+  if (config.position === 'modal') {
+    launcher = document.createElement('button');
+    launcher.type = 'button';
+    launcher.className = 'acb-btn acb-launcher';
+    launcher.textContent = config.title;
+    launcher.setAttribute('aria-haspopup', 'dialog');
+    container.appendChild(launcher);
+
+    overlay = document.createElement('div');
+    overlay.className = 'acb-overlay acb-hidden';
+    overlay.innerHTML = renderForm();
+    container.appendChild(overlay);
+  } else {
+    container.innerHTML = renderForm();
+  }
+
+  function $(name) {
+    return container.querySelector('[data-acb="' + name + '"]');
+  }
+
+  const subtitle = $('subtitle');
+  const form = $('form');
+  const personaSelect = $('persona');
+  const customGroup = $('custom-group');
+  const customInput = $('custom');
+  const messageInput = $('message');
+  const countLabel = $('count');
+  const previewBox = $('preview');
+  const redactionsNotice = $('redactions');
+  const notice = $('notice');
+  const previewBtn = $('preview-btn');
+  const submitBtn = $('submit-btn');
+  const challengeBox = $('challenge');
+  const success = $('success');
+  const receipt = $('receipt');
+  const resetBtn = $('reset');
+  const closeBtn = $('close');
+
+  function showNotice(text) {
+    notice.textContent = text;
+    notice.classList.add('acb-notice-error');
+    notice.classList.remove('acb-hidden');
+  }
+
+  // Tell the sender which personal details were removed so they can check them
+  function showRedactions(redactions) {
+    redactionsNotice.textContent = redactions.length > 0
+      ? 'Removed to protect your anonymity: ' + redactions.map(function(redaction) {
+        return redaction.type.replace(/-/g, ' ') + ' (' + redaction.text + ')';
+      }).join(', ')
+      : '';
+    redactionsNotice.classList.toggle('acb-hidden', redactions.length === 0);
+  }
+
+  function clearNotice() {
+    notice.textContent = '';
+    notice.classList.add('acb-hidden');
+  }
+
+  function buildRequestBody() {
+    const body = {
+      message: messageInput.value.trim(),
+      sessionId: sessionId
+    };
+    if (config.boxId) {
+      body.boxId = config.boxId;
+    }
+    const persona = personaSelect.value;
+    if (persona === 'custom') {
+      const customPersona = customInput.value.trim();
+      if (customPersona) {
+        body.customPersona = customPersona;
+      }
+    } else if (persona) {
+      body.persona = persona;
+    }
+    return body;
+  }
+
+  async function postJson(path, body) {
+    const response = await fetch(apiBase + path, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Session-ID': sessionId
+      },
+      body: JSON.stringify(body)
+    });
+    let data = {};
+    try {
+      data = await response.json();
+    } catch (error) {
+      // Non-JSON error bodies are reported by status only
+    }
+    return { response: response, data: data };
+  }
+
+  // Answer a challenge from /api/submit with a proof-of-work nonce or a Turnstile token
+  async function solveChallenge(challenge) {
+    if (challenge.mode === 'pow') {
+      return { token: challenge.token, nonce: await solveProofOfWork(challenge.token, challenge.difficulty) };
+    }
+    if (challenge.mode === 'turnstile') {
+      return { token: await solveTurnstile(challenge.siteKey) };
+    }
+    throw new Error('Unsupported challenge: ' + challenge.mode);
+  }
+
+  // Find a nonce where SHA-256("<token>:<nonce>") starts with `difficulty` zero bits
+  async function solveProofOfWork(token, difficulty) {
+    const encoder = new TextEncoder();
+    for (let nonce = 0; ; nonce++) {
+      const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(token + ':' + nonce)));
+      let bits = 0;
+      for (const byte of hash) {
+        if (byte !== 0) {
+          bits += Math.clz32(byte) - 24;
+          break;
+        }
+        bits += 8;
+      }
+      if (bits >= difficulty) {
+        return String(nonce);
+      }
+    }
+  }
+
+  function solveTurnstile(siteKey) {
+    return loadTurnstile().then(function() {
+      return new Promise(function(resolve, reject) {
+        challengeBox.innerHTML = '';
+        challengeBox.classList.remove('acb-hidden');
+        window.turnstile.render(challengeBox, {
+          sitekey: siteKey,
+          callback: function(token) {
+            challengeBox.classList.add('acb-hidden');
+            resolve(token);
+          },
+          'error-callback': function() {
+            reject(new Error('Bot check failed'));
+          }
+        });
+      });
+    });
+  }
+
+  let turnstileLoading;
+  function loadTurnstile() {
+    if (!turnstileLoading) {
+      turnstileLoading = new Promise(function(resolve, reject) {
+        if (window.turnstile) {
+          resolve();
+          return;
+        }
+        const turnstileScript = document.createElement('script');
+        turnstileScript.src = 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit';
+        turnstileScript.onload = resolve;
+        turnstileScript.onerror = function() {
+          reject(new Error('Failed to load the bot check'));
+        };
+        document.head.appendChild(turnstileScript);
+      });
+    }
+    return turnstileLoading;
+  }
+
+  function errorMessageFor(response, data, fallback) {
+    if (response.status === 429) {
+      const retryAfter = parseInt(response.headers.get('Retry-After'), 10);
+      if (retryAfter > 0) {
+        const wait = retryAfter < 120 ? retryAfter + ' seconds' : Math.ceil(retryAfter / 60) + ' minutes';
+        return 'Rate limit exceeded. Please try again in ' + wait + '.';
+      }
+      return 'Rate limit exceeded. Please wait before trying again.';
+    }
+    return data.error || fallback;
+  }
+
+  function openModal() {
+    if (!overlay) return;
+    overlay.classList.remove('acb-hidden');
+    messageInput.focus();
+    emit('open');
+  }
+
+  function closeModal() {
+    if (!overlay) return;
+    overlay.classList.add('acb-hidden');
+    if (launcher) launcher.focus();
+    emit('close');
+  }
+
+  function resetWidget() {
+    form.reset();
+    countLabel.textContent = '0';
+    customGroup.classList.add('acb-hidden');
+    previewBox.classList.add('acb-hidden');
+    previewBox.textContent = '';
+    showRedactions([]);
+    clearNotice();
+    success.classList.add('acb-hidden');
+    receipt.classList.add('acb-hidden');
+    receipt.textContent = '';
+    form.classList.remove('acb-hidden');
+  }
+
+  // The receipt is left out of the events posted to the host page. The shadow root is open and
+  // the host page runs in the same document, so a script on it could still read the receipt.
+  function showReceipt(code) {
+    receipt.textContent = '';
+    if (!code) {
+      return;
+    }
+    const link = document.createElement('a');
+    link.href = apiBase + '/#receipt=' + encodeURIComponent(code);
+    link.target = '_blank';
+    link.rel = 'noopener';
+    link.textContent = 'Check delivery status';
+    receipt.append('Receipt code: ' + code + ' · ', link);
+    receipt.classList.remove('acb-hidden');
+  }
+
+  messageInput.addEventListener('input', function() {
+    countLabel.textContent = messageInput.value.length;
+  });
+
+  // Name the box the message goes to, as configured on the server
+  async function loadBox() {
+    if (!config.boxId) return;
+    try {
+      const response = await fetch(apiBase + '/api/boxes/' + encodeURIComponent(config.boxId));
+      if (!response || !response.ok) return;
+
+      const box = await response.json();
+      if (box && box.title) {
+        subtitle.textContent = 'Delivered anonymously to ' + box.title;
+      }
+    } catch (error) {
+      console.error('Anonymous Comment Box: failed to load comment box', error);
+    }
+  }
+
+  async function loadPersonas() {
+    try {
+      const query = config.boxId ? '?box=' + encodeURIComponent(config.boxId) : '';
+      const response = await fetch(apiBase + '/api/personas' + query);
+      if (!response || !response.ok) return;
+
+      const personas = await response.json();
+      if (!Array.isArray(personas)) return;
+
+      const customOption = personaSelect.querySelector('option[value="custom"]');
+      personas.forEach(function(persona) {
+        const option = document.createElement('option');
+        option.value = persona.key;
+        option.textContent = persona.name;
+        option.title = persona.description;
+        personaSelect.insertBefore(option, customOption);
+      });
+    } catch (error) {
+      // The form still works with no persona or a custom one
+      console.error('Anonymous Comment Box: failed to load personas', error);
+    }
+  }
+
+  personaSelect.addEventListener('change', function() {
+    customGroup.classList.toggle('acb-hidden', personaSelect.value !== 'custom');
+    previewBox.classList.add('acb-hidden');
+    showRedactions([]);
+  });
+
+  previewBtn.addEventListener('click', async function() {
+    const body = buildRequestBody();
+    if (!body.message) {
+      showNotice('Please enter a message to preview');
+      return;
+    }
+
+    clearNotice();
+    previewBtn.disabled = true;
+    previewBtn.textContent = 'Generating...';
+
+    try {
+      const result = await postJson('/api/preview', body);
+      if (result.response.ok) {
+        previewBox.textContent = result.data.transformedMessage;
+        previewBox.classList.remove('acb-hidden');
+        showRedactions(result.data.redactions || []);
+        if (result.data.fallbackUsed || result.data.error) {
+          showNotice('AI transformation failed: ' + (result.data.error || 'Service temporarily unavailable'));
+        }
+        emit('preview', {
+          persona: result.data.persona,
+          fallbackUsed: !!result.data.fallbackUsed,
+          rateLimitRemaining: result.data.rateLimitRemaining
+        });
+      } else {
+        const error = errorMessageFor(result.response, result.data, 'Failed to generate preview. Please try again.');
+        showNotice(error);
+        emit('error', { stage: 'preview', status: result.response.status, error: error });
+      }
+    } catch (error) {
+      showNotice('Network error. Please check your connection and try again.');
+      emit('error', { stage: 'preview', status: 0, error: 'Network error' });
+    } finally {
+      previewBtn.disabled = false;
+      previewBtn.textContent = 'Preview';
+    }
+  });
+
+  form.addEventListener('submit', async function(e) {
+    e.preventDefault();
+
+    const body = buildRequestBody();
+    if (!body.message) {
+      showNotice('Please enter a message');
+      return;
+    }
+
+    clearNotice();
+    submitBtn.disabled = true;
+    submitBtn.textContent = 'Sending...';
+
+    try {
+      let result = await postJson('/api/submit', body);
+      // When a challenge is enabled the first attempt is answered with one to solve
+      if (result.response.status === 400 && result.data.challenge && result.data.code === 'challenge_required') {
+        submitBtn.textContent = 'Verifying...';
+        body.challenge = await solveChallenge(result.data.challenge);
+        submitBtn.textContent = 'Sending...';
+        result = await postJson('/api/submit', body);
+      }
+      if (result.response.ok) {
+        form.classList.add('acb-hidden');
+        showReceipt(result.data.receipt);
+        success.classList.remove('acb-hidden');
+        emit('submitted', {
+          boxId: config.boxId,
+          recipient: config.recipient,
+          persona: body.persona || (body.customPersona ? 'custom' : 'none')
+        });
+      } else {
+        const error = errorMessageFor(result.response, result.data, 'Failed to send message. Please try again.');
+        showNotice(error);
+        emit('error', { stage: 'submit', status: result.response.status, error: error });
+      }
+    } catch (error) {
+      showNotice('Network error. Please check your connection and try again.');
+      emit('error', { stage: 'submit', status: 0, error: 'Network error' });
+    } finally {
+      submitBtn.disabled = false;
+      submitBtn.textContent = 'Send Anonymously';
+    }
+  });
+
+  resetBtn.addEventListener('click', resetWidget);
+
+  if (launcher) {
+    launcher.addEventListener('click', openModal);
+    closeBtn.addEventListener('click', closeModal);
+    overlay.addEventListener('click', function(e) {
+      if (e.target === overlay) closeModal();
+    });
+    overlay.addEventListener('keydown', function(e) {
+      if (e.key === 'Escape') closeModal();
+    });
+  }
+
+  loadBox();
+  loadPersonas();
+
+  emit('ready', {
+    boxId: config.boxId,
+    recipient: config.recipient,
+    title: config.title,
+    theme: config.theme,
+    position: config.position
+  });
+})();
@@ -5,23 +5,34 @@ export interface PreviewRequest {
   persona?: string;          // Preset persona key
   customPersona?: string;    // Custom persona description (max 500 chars)
   sessionId: string;         // For rate limiting
+  boxId?: string;            // Comment box to send to; defaults to RECIPIENT_EMAIL
 }
 
 export interface PreviewResponse {
   transformedMessage: string;
   originalMessage: string;
   persona: string;
-  rateLimitRemaining: number;
+  rateLimitRemaining?: number; // Left out when the rate limit backend cannot count (native binding)
   rateLimitReset: number;    // Unix timestamp
   fallbackUsed?: boolean;
   error?: string;
   emailPreview?: string;     // Full email format preview including headers
+  redactions?: Redaction[];  // What was removed before transformation and delivery
+  moderation?: ModerationVerdict;
+}
+
+export interface RateLimitBucketStatus {
+  remaining?: number;       // Left out when the rate limit backend cannot count (native binding)
+  reset: number;            // Unix timestamp
+  limit: number;
+  windowMs: number;
 }
 
 export interface RateLimitStatus {
-  remaining: number;
+  remaining?: number;       // remaining, reset and limit repeat the preview bucket for older clients
   reset: number;            // Unix timestamp
   limit: number;
+  buckets: Record<string, RateLimitBucketStatus>;
 }
 
 export interface SubmitRequest {
@@ -29,6 +40,9 @@ export interface SubmitRequest {
   persona?: string;          // NEW: Preset persona key
   customPersona?: string;    // NEW: Custom persona description
   sessionId: string;
+  boxId?: string;            // Comment box to send to; defaults to RECIPIENT_EMAIL
+  challenge?: ChallengeSolution; // Required when CHALLENGE_MODE is enabled
+  allowReplies?: boolean;    // Let the recipient reply; the response then carries a replyToken
 }
 
 export interface SubmitResponse {
@@ -36,6 +50,54 @@ export interface SubmitResponse {
   rateLimitRemaining?: number;
   rateLimitReset?: number;
   error?: string;
+  code?: string;
+  challenge?: ChallengeResponse; // Sent with code 'challenge_required' so the client can solve it and retry
+  receipt?: string;          // Code for GET /api/status/:receipt
+  replyToken?: string;       // Only when allowReplies was set; shown to the sender once
+}
+
+export type ReceiptStatus = 'queued' | 'delivered' | 'failed' | 'held';
+
+// GET /api/status/:receipt. Deliberately has no timestamps
+export interface StatusResponse {
+  status: ReceiptStatus;     // 'held' is waiting for a reviewer; 'failed' was rejected or undeliverable
+}
+
+export type ChallengeMode = 'off' | 'pow' | 'turnstile';
+
+// What a client must do before submitting, from GET /api/challenge
+export interface ChallengeResponse {
+  mode: ChallengeMode;
+  token?: string;            // pow: the signed challenge to solve
+  difficulty?: number;       // pow: leading zero bits needed in SHA-256("<token>:<nonce>")
+  expiresAt?: number;        // pow: Unix timestamp
+  siteKey?: string;          // turnstile: site key for the widget
+}
+
+export interface ChallengeSolution {
+  token: string;             // pow: the issued token; turnstile: the widget's response token
+  nonce?: string;            // pow only
+}
+
+export type ReplyRole = 'sender' | 'recipient';
+
+export interface ReplyEntry {
+  from: ReplyRole;
+  message: string;           // Sender messages as delivered, after persona transformation
+  sentAt: number;            // Unix timestamp, rounded down to the hour
+}
+
+// GET /api/replies with an X-Reply-Token header
+export interface ReplyThreadResponse {
+  role: ReplyRole;           // Which side the token belongs to
+  messages: ReplyEntry[];
+}
+
+// POST /api/replies
+export interface ReplyRequest {
+  token: string;
+  message: string;
+  challenge?: ChallengeSolution; // Sender responses only: required when CHALLENGE_MODE is enabled
 }
 
 export interface ErrorResponse {
@@ -52,12 +114,30 @@ export interface PersonaOption {
   example?: string;
 }
 
+// Something removed from a message because it could identify the sender
+export interface Redaction {
+  type: string;              // email, url, ip-address, credit-card, phone, signature or a REDACTION_PATTERNS name
+  text: string;              // The text that was replaced
+}
+
+export type ModerationAction = 'allow' | 'flag' | 'block';
+
+export interface ModerationReason {
+  check: 'terms' | 'classifier';
+  action: Exclude<ModerationAction, 'allow'>;
+  code: 'blocked_term' | 'flagged_term' | 'classifier';
+  match: string;             // The matched word or phrase, or the classifier's reason
+}
+
+export interface ModerationVerdict {
+  action: ModerationAction;  // The most severe action of any reason
+  reasons: ModerationReason[];
+}
+
 // Common validation schemas
 export const ValidationLimits = {
   MESSAGE_MIN_LENGTH: 1,
   MESSAGE_MAX_LENGTH: 2000, // Character limit for input validation
   MESSAGE_MAX_WORDS: 1000, // Word limit for truncation
   CUSTOM_PERSONA_MAX_LENGTH: 500,
-  RATE_LIMIT_MAX_REQUESTS: 10,
-  RATE_LIMIT_WINDOW_MS: 60000, // 1 minute
 } as const;
\ No newline at end of file
@@ -2,12 +2,28 @@ interface RateLimiter {
   limit: (options: { key: string }) => Promise<{ success: boolean }>;
 }
 
+interface WorkersAI {
+  run: (model: string, inputs: Record<string, unknown>) => Promise<unknown>;
+}
+
 export interface Env {
   // KV Namespace bindings
   MESSAGE_QUEUE: KVNamespace;
   
   // Rate limiter binding  
   RATE_LIMITER: RateLimiter;
+
+  // Durable Object namespace for atomic rate limiting (RateLimiterDurableObject)
+  RATE_LIMITER_DO?: DurableObjectNamespace;
+
+  // Durable Object namespace for alarm-based delivery (DeliverySchedulerDurableObject)
+  DELIVERY_SCHEDULER_DO?: DurableObjectNamespace;
+
+  // Cloudflare Queue for delayed delivery, consumed by the worker's queue() handler
+  DELIVERY_QUEUE?: Queue<{ messageId: string }>;
+
+  // Workers AI binding, used when AI_PROVIDER is 'workers-ai'
+  AI?: WorkersAI;
   
   // Environment variables
   AI_WORKER_API_SECRET_KEY: string;
@@ -17,4 +33,30 @@ export interface Env {
   RECIPIENT_EMAIL: string;
   ENVIRONMENT: 'development' | 'production' | 'test';
   QUEUE_DELAY_SECONDS?: string; // Optional for parameterized delays
+  QUEUE_MAX_ATTEMPTS?: string; // Delivery attempts before a message is dead-lettered (default 5)
+  DELIVERY_BATCHING?: string; // JSON object enabling batched release, e.g. {"windows": ["09:00", "16:00"], "timeZone": "Europe/London", "minBatchSize": 3}
+  DELIVERY_DIGEST?: string; // JSON object enabling digests, e.g. {"period": "weekly", "time": "08:30", "dayOfWeek": 1, "summary": true}
+  DELIVERY_SCHEDULER?: 'durable-object' | 'queues' | 'kv'; // Delivery scheduling (default durable-object if bound, then queues if bound, else kv)
+  DELIVERY_CHANNEL?: 'gmail' | 'webhook' | 'slack' | 'discord' | 'teams'; // Default delivery channel (default gmail)
+  DELIVERY_WEBHOOK_URL?: string; // Webhook URL for the webhook, slack, discord and teams channels
+  DELIVERY_WEBHOOK_SECRET?: string; // Signing secret for the webhook channel
+  AI_PROVIDER?: 'ai-worker' | 'openai' | 'workers-ai' | 'echo'; // AI backend (default ai-worker)
+  AI_BASE_URL?: string; // Base URL for the ai-worker or openai provider
+  AI_MODEL?: string; // Overrides the provider's default model
+  AI_API_KEY?: string; // Bearer token for the openai provider
+  REDACTION_PATTERNS?: string; // JSON object of extra redaction patterns, e.g. {"employee ID": "\\bEMP-\\d{6}\\b"}
+  MODERATION_TERMS?: string; // JSON object of extra terms, e.g. {"block": ["..."], "flag": ["..."]}
+  MODERATION_ALLOWLIST?: string; // JSON array of phrases that are never matched, e.g. ["kill the build"]
+  MODERATION_CLASSIFIER?: 'off' | 'ai'; // 'ai' asks the AI provider for a verdict too (default off)
+  REVIEW_MODE?: 'off' | 'flagged' | 'all'; // Hold flagged or all messages for admin review (default off)
+  RATE_LIMIT_BACKEND?: 'durable-object' | 'native' | 'kv'; // Rate limit storage (default durable-object if bound, else kv)
+  RATE_LIMIT_SECRET?: string; // HMAC secret for rate limit keys, challenge tokens and reply links (required unless ENVIRONMENT is development or test)
+  RATE_LIMIT_POLICIES?: string; // JSON object of per-endpoint overrides, e.g. {"submit": {"maxRequests": 5, "windowMs": 3600000}}
+  CHALLENGE_MODE?: 'off' | 'pow' | 'turnstile'; // Challenge required on submit (default off)
+  CHALLENGE_DIFFICULTY?: string; // Base proof-of-work difficulty in bits (default 16)
+  TURNSTILE_SITE_KEY?: string; // Turnstile widget site key, for CHALLENGE_MODE=turnstile
+  TURNSTILE_SECRET_KEY?: string; // Turnstile secret key, for CHALLENGE_MODE=turnstile
+  MESSAGE_ENCRYPTION_KEYS?: string; // JSON object of key ID to base64 256-bit AES key for queued messages (required unless ENVIRONMENT is development or test)
+  MESSAGE_ENCRYPTION_KEY_ID?: string; // Key ID new messages are encrypted with (default: the only key)
+  ADMIN_TOKEN?: string; // Bearer token for debug, queue and admin endpoints
 }
\ No newline at end of file
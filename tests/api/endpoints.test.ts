@@ -64,7 +64,12 @@ describe('API Endpoints', () => {
       expect(data).toEqual({
         remaining: 8,
         reset: expect.any(Number),
-        limit: 10
+        limit: 10,
+        buckets: {
+          preview: { remaining: 8, reset: expect.any(Number), limit: 10, windowMs: 60000 },
+          submit: { remaining: 8, reset: expect.any(Number), limit: 10, windowMs: 3600000 },
+          chat: { remaining: 8, reset: expect.any(Number), limit: 10, windowMs: 60000 },
+        }
       });
     });
 
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleAdminBoxes } from '../../../src/api/admin-boxes';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+describe('handleAdminBoxes', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+
+  const boxBody = {
+    owner: 'Product',
+    recipientEmail: 'product@example.com',
+    title: 'Product Feedback',
+  };
+
+  function call(method: string, path: string, body?: unknown): Promise<Response> {
+    return handleAdminBoxes(
+      new Request(`http://localhost${path}`, {
+        method,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+      }),
+      env,
+      ctx
+    );
+  }
+
+  beforeEach(() => {
+    env = createMockEnv() as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+  });
+
+  it('should create a box with PUT', async () => {
+    const response = await call('PUT', '/api/admin/boxes/product-team', boxBody);
+
+    expect(response.status).toBe(201);
+    const box = await response.json() as any;
+    expect(box).toMatchObject({ id: 'product-team', ...boxBody });
+    expect(box.createdAt).toEqual(expect.any(Number));
+  });
+
+  it('should preserve createdAt when replacing a box', async () => {
+    const created = await (await call('PUT', '/api/admin/boxes/product-team', boxBody)).json() as any;
+
+    const response = await call('PUT', '/api/admin/boxes/product-team', { ...boxBody, title: 'Renamed' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ title: 'Renamed', createdAt: created.createdAt });
+  });
+
+  it('should reject invalid boxes', async () => {
+    const response = await call('PUT', '/api/admin/boxes/product-team', { ...boxBody, recipientEmail: 'nope' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should list, fetch and delete boxes', async () => {
+    await call('PUT', '/api/admin/boxes/product-team', boxBody);
+
+    const list = await (await call('GET', '/api/admin/boxes')).json() as any;
+    expect(list.boxes).toHaveLength(1);
+
+    const box = await (await call('GET', '/api/admin/boxes/product-team')).json() as any;
+    expect(box.recipientEmail).toBe('product@example.com');
+
+    expect((await call('DELETE', '/api/admin/boxes/product-team')).status).toBe(200);
+    expect((await call('GET', '/api/admin/boxes/product-team')).status).toBe(404);
+  });
+
+  it('should reject unsupported methods', async () => {
+    expect((await call('POST', '/api/admin/boxes', boxBody)).status).toBe(405);
+  });
+
+  it('should reject malformed box IDs with 400', async () => {
+    expect((await call('GET', '/api/admin/boxes/%E0')).status).toBe(400);
+    expect((await call('PUT', '/api/admin/boxes/%E0', boxBody)).status).toBe(400);
+  });
+});
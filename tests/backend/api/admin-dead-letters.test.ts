@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleAdminDeadLetters } from '../../../src/api/admin-dead-letters';
+import { listDeadLetters } from '../../../src/lib/queue';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+describe('handleAdminDeadLetters', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+
+  function call(method: string, path: string): Promise<Response> {
+    return handleAdminDeadLetters(new Request(`http://localhost${path}`, { method }), env, ctx);
+  }
+
+  async function storedMessages(prefix: string): Promise<string[]> {
+    const { keys } = await env.MESSAGE_QUEUE.list({ prefix });
+    return keys.map(key => key.name);
+  }
+
+  beforeEach(async () => {
+    env = createMockEnv() as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+
+    await env.MESSAGE_QUEUE.put('dlq_abc', JSON.stringify({
+      id: 'abc',
+      message: 'Hello',
+      queuedAt: 1700000000000,
+      scheduledFor: 1700000060000,
+      attempts: 5,
+      lastError: 'Gmail API error: 500',
+      failedAt: 1700010000000,
+    }));
+  });
+
+  it('should list dead letters without message content', async () => {
+    const response = await call('GET', '/api/admin/dead-letters');
+
+    expect(response.status).toBe(200);
+    const body = await response.json() as any;
+    expect(body.deadLetters).toEqual([{
+      id: 'abc',
+      queuedAt: 1700000000000,
+      failedAt: 1700010000000,
+      attempts: 5,
+      lastError: 'Gmail API error: 500',
+    }]);
+    expect(JSON.stringify(body)).not.toContain('Hello');
+  });
+
+  it('should requeue a dead letter', async () => {
+    const response = await call('POST', `/api/admin/dead-letters/abc/requeue`);
+
+    expect(response.status).toBe(200);
+    expect(await storedMessages('msg_')).toEqual(['msg_abc']);
+    expect(await storedMessages('dlq_')).toEqual([]);
+    expect((await call('POST', `/api/admin/dead-letters/abc/requeue`)).status).toBe(404);
+  });
+
+  it('should purge one or all dead letters', async () => {
+    expect((await call('DELETE', `/api/admin/dead-letters/abc`)).status).toBe(200);
+    expect(await listDeadLetters(env)).toEqual([]);
+
+    const response = await call('DELETE', '/api/admin/dead-letters');
+    expect(await response.json()).toEqual({ success: true, purged: 0 });
+  });
+
+  it('should reject unsupported methods', async () => {
+    expect((await call('POST', '/api/admin/dead-letters')).status).toBe(405);
+    expect((await call('GET', '/api/admin/dead-letters/some-id')).status).toBe(405);
+  });
+
+  it('should reject malformed dead letter IDs with 400', async () => {
+    expect((await call('POST', '/api/admin/dead-letters/%E0/requeue')).status).toBe(400);
+    expect((await call('DELETE', '/api/admin/dead-letters/%E0')).status).toBe(400);
+  });
+});
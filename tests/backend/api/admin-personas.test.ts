@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleAdminPersonas } from '../../../src/api/admin-personas';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+describe('handleAdminPersonas', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+
+  const personaBody = {
+    name: 'Neutral Corporate',
+    description: 'Plain, neutral workplace language',
+    systemPrompt: 'Rewrite in neutral corporate language. Output only the rewritten message.',
+    temperature: 0.4,
+  };
+
+  function call(method: string, path: string, body?: unknown): Promise<Response> {
+    return handleAdminPersonas(
+      new Request(`http://localhost${path}`, {
+        method,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+      }),
+      env,
+      ctx
+    );
+  }
+
+  beforeEach(() => {
+    env = createMockEnv() as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+  });
+
+  it('should list the seeded presets', async () => {
+    const response = await call('GET', '/api/admin/personas');
+
+    expect(response.status).toBe(200);
+    const { personas } = await response.json() as any;
+    expect(personas).toHaveLength(4);
+    expect(personas[0]).toMatchObject({ key: 'internet-random', enabled: true });
+  });
+
+  it('should create a persona with PUT and defaults for optional fields', async () => {
+    const response = await call('PUT', '/api/admin/personas/neutral-corporate', personaBody);
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({ key: 'neutral-corporate', examples: [], enabled: true });
+    expect((await call('GET', '/api/admin/personas/neutral-corporate')).status).toBe(200);
+  });
+
+  it('should disable a persona with PATCH', async () => {
+    const response = await call('PATCH', '/api/admin/personas/super-nice', { enabled: false });
+
+    expect(response.status).toBe(200);
+    const persona = await response.json() as any;
+    expect(persona).toMatchObject({ key: 'super-nice', name: 'Super Nice', enabled: false });
+    expect(persona.updatedAt).toBeGreaterThanOrEqual(persona.createdAt);
+  });
+
+  it('should reject invalid personas', async () => {
+    expect((await call('PUT', '/api/admin/personas/neutral-corporate', { ...personaBody, temperature: 5 })).status).toBe(400);
+    expect((await call('PUT', '/api/admin/personas/custom', personaBody)).status).toBe(400);
+  });
+
+  it('should return 404 for unknown personas and 405 for other methods', async () => {
+    expect((await call('GET', '/api/admin/personas/missing')).status).toBe(404);
+    expect((await call('PATCH', '/api/admin/personas/missing', { enabled: false })).status).toBe(404);
+    expect((await call('DELETE', '/api/admin/personas/super-nice')).status).toBe(405);
+    expect((await call('POST', '/api/admin/personas')).status).toBe(405);
+  });
+
+  it('should reject malformed persona keys with 400', async () => {
+    expect((await call('GET', '/api/admin/personas/%E0')).status).toBe(400);
+  });
+});
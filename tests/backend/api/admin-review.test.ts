@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleAdminReview } from '../../../src/api/admin-review';
+import { holdForReview } from '../../../src/lib/review';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+describe('handleAdminReview', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+  let reviewId: string;
+
+  function call(method: string, path: string, body?: unknown): Promise<Response> {
+    return handleAdminReview(new Request(`http://localhost${path}`, {
+      method,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }), env, ctx);
+  }
+
+  async function storedKeys(prefix: string): Promise<string[]> {
+    const { keys } = await env.MESSAGE_QUEUE.list({ prefix });
+    return keys.map(key => key.name);
+  }
+
+  beforeEach(async () => {
+    env = createMockEnv() as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+    reviewId = await holdForReview('Held message', { action: 'flag', reasons: [] }, env);
+  });
+
+  it('should list and fetch held messages with their content', async () => {
+    const list = await call('GET', '/api/admin/review');
+    expect(list.status).toBe(200);
+    expect((await list.json() as any).messages).toEqual([expect.objectContaining({ id: reviewId, message: 'Held message' })]);
+
+    const one = await call('GET', `/api/admin/review/${reviewId}`);
+    expect(await one.json()).toMatchObject({ id: reviewId });
+    expect((await call('GET', '/api/admin/review/missing')).status).toBe(404);
+  });
+
+  it('should approve a held message into the queue', async () => {
+    const response = await call('POST', `/api/admin/review/${reviewId}/approve`);
+
+    expect(response.status).toBe(200);
+    expect(await storedKeys('review_')).toEqual([]);
+    expect(await storedKeys('msg_')).toHaveLength(1);
+    expect((await call('POST', `/api/admin/review/${reviewId}/approve`)).status).toBe(404);
+  });
+
+  it('should reject a held message', async () => {
+    expect((await call('POST', `/api/admin/review/${reviewId}/reject`)).status).toBe(200);
+    expect(await storedKeys('review_')).toEqual([]);
+    expect(await storedKeys('msg_')).toEqual([]);
+  });
+
+  it('should edit a held message', async () => {
+    const response = await call('PATCH', `/api/admin/review/${reviewId}`, { message: 'Softer wording' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ message: 'Softer wording' });
+    expect((await call('PATCH', `/api/admin/review/${reviewId}`, { message: 42 })).status).toBe(400);
+  });
+
+  it('should reject unsupported methods', async () => {
+    expect((await call('DELETE', '/api/admin/review')).status).toBe(405);
+    expect((await call('GET', `/api/admin/review/${reviewId}/approve`)).status).toBe(405);
+  });
+
+  it('should reject malformed review IDs with 400', async () => {
+    expect((await call('GET', '/api/admin/review/%E0')).status).toBe(400);
+    expect((await call('POST', '/api/admin/review/%E0/approve')).status).toBe(400);
+  });
+});
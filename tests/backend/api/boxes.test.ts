@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleGetBox } from '../../../src/api/boxes';
+import { saveBox } from '../../../src/lib/boxes';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+describe('handleGetBox', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+
+  function call(path: string): Promise<Response> {
+    return handleGetBox(new Request(`http://localhost${path}`), env, ctx);
+  }
+
+  beforeEach(() => {
+    env = createMockEnv() as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+  });
+
+  it('should return the public box info', async () => {
+    await saveBox({ id: 'product-team', owner: 'Product', title: 'Product Feedback', recipientEmail: 'product@example.com', createdAt: 0 }, env);
+
+    const response = await call('/api/boxes/product-team');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 'product-team', title: 'Product Feedback' });
+  });
+
+  it('should return 404 for unknown boxes', async () => {
+    expect((await call('/api/boxes/missing')).status).toBe(404);
+  });
+
+  it('should reject malformed percent-encoding with 400', async () => {
+    const response = await call('/api/boxes/%E0');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid comment box ID' });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleGetPersonas } from '../../../src/api/personas';
+import { requirePersona, savePersona } from '../../../src/lib/personas';
+import { saveBox } from '../../../src/lib/boxes';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+describe('handleGetPersonas', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+
+  function call(path: string = '/api/personas'): Promise<Response> {
+    return handleGetPersonas(new Request(`http://localhost${path}`), env, ctx);
+  }
+
+  beforeEach(() => {
+    env = createMockEnv() as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+  });
+
+  it('should list enabled personas as picker options', async () => {
+    const response = await call();
+
+    expect(response.status).toBe(200);
+    const options = await response.json() as any[];
+    expect(options.map(option => option.key))
+      .toEqual(['internet-random', 'barely-literate', 'extremely-serious', 'super-nice']);
+    expect(options[0]).toEqual({
+      key: 'internet-random',
+      name: 'Internet Random',
+      description: 'Casual internet slang with abbreviations, mild typos, and meme references',
+      example: 'Original: "I think this is a great idea and we should implement it." → "ngl this idea slaps 💯 we should def implement this fr fr"',
+    });
+    expect(JSON.stringify(options)).not.toContain('systemPrompt');
+  });
+
+  it('should leave out disabled personas', async () => {
+    await savePersona({ ...(await requirePersona('super-nice', env)), enabled: false }, env);
+
+    const options = await (await call()).json() as any[];
+
+    expect(options.map(option => option.key)).not.toContain('super-nice');
+  });
+
+  it('should filter by the personas a box allows', async () => {
+    await saveBox({
+      id: 'hr',
+      owner: 'HR',
+      recipientEmail: 'hr@example.com',
+      title: 'HR',
+      allowedPersonas: ['extremely-serious', 'custom'],
+      createdAt: 0,
+    }, env);
+
+    const options = await (await call('/api/personas?box=hr')).json() as any[];
+
+    expect(options.map(option => option.key)).toEqual(['extremely-serious']);
+    expect((await call('/api/personas?box=missing')).status).toBe(404);
+  });
+});
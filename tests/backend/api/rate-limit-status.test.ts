@@ -61,7 +61,7 @@ describe('handleRateLimitStatus', () => {
 
       const response = await handleRateLimitStatus(request, mockEnv, mockCtx);
 
-      expect(mockRateLimiter.generateKey).toHaveBeenCalledWith(request);
+      expect(mockRateLimiter.generateKey).toHaveBeenCalledWith(request, mockEnv);
       expect(mockRateLimiter.getStatus).toHaveBeenCalledWith(
         'rate_limit:192.168.1.1:session123',
         mockEnv
@@ -110,7 +110,7 @@ describe('handleRateLimitStatus', () => {
 
       const response = await handleRateLimitStatus(request, mockEnv, mockCtx);
 
-      expect(mockRateLimiter.generateKey).toHaveBeenCalledWith(request);
+      expect(mockRateLimiter.generateKey).toHaveBeenCalledWith(request, mockEnv);
       expect(mockRateLimiter.getStatus).toHaveBeenCalledWith(
         'rate_limit:10.0.0.1:session456',
         mockEnv
@@ -3,6 +3,8 @@ import { handleSubmission } from '../../../src/api/submit';
 import type { Env } from '../../../src/types/env';
 import { RateLimitError } from '../../../src/lib/rate-limiter';
 import { AIPersonaTransformerError } from '../../../src/lib/ai-persona-transformer';
+import { ModerationError } from '../../../src/lib/moderation';
+import { decryptMessage } from '../../../src/lib/message-encryption';
 
 // Mock dependencies
 vi.mock('../../../src/lib/rate-limiter', () => ({
@@ -222,7 +224,7 @@ describe('handleSubmission', () => {
 
       const response = await handleSubmission(request, mockEnv, mockCtx);
 
-      expect(mockRateLimiter.generateKey).toHaveBeenCalledWith(request);
+      expect(mockRateLimiter.generateKey).toHaveBeenCalledWith(request, mockEnv);
       expect(mockRateLimiter.checkLimit).toHaveBeenCalledWith('rate_limit:test:session', mockEnv);
       
       expect(response.status).toBe(200);
@@ -231,6 +233,7 @@ describe('handleSubmission', () => {
         success: true,
         rateLimitRemaining: 9,
         rateLimitReset: expect.any(Number),
+        receipt: expect.stringMatching(/^[0-9a-f]{32}$/),
       });
     });
 
@@ -354,6 +357,54 @@ describe('handleSubmission', () => {
       });
     });
 
+    it('should reject rather than deliver the untransformed message when the AI falls back', async () => {
+      mockPersonaTransformer.transformMessage.mockResolvedValue({
+        transformedMessage: 'Test message',
+        originalMessage: 'Test message',
+        persona: 'professional',
+        fallbackUsed: true,
+        error: 'AI transformation temporarily unavailable',
+      });
+      mockEnv.REVIEW_MODE = 'all';
+      mockEnv.MESSAGE_QUEUE = { put: vi.fn() } as any;
+
+      const request = new Request('http://localhost/api/submit', {
+        method: 'POST',
+        body: JSON.stringify({ message: 'Test message', persona: 'professional' }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      const response = await handleSubmission(request, mockEnv, mockCtx);
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toMatchObject({ success: false });
+      expect(queueMessage).not.toHaveBeenCalled();
+      expect(mockEnv.MESSAGE_QUEUE.put).not.toHaveBeenCalled();
+    });
+
+    it('should surface moderation blocks with a machine-readable code', async () => {
+      const reasons = [{ check: 'terms', action: 'block', code: 'blocked_term', match: 'i will kill' }] as const;
+      mockPersonaTransformer.transformMessage.mockRejectedValue(
+        new ModerationError('Message contains inappropriate content', 'message_blocked', { action: 'block', reasons: [...reasons] })
+      );
+
+      const request = new Request('http://localhost/api/submit', {
+        method: 'POST',
+        body: JSON.stringify({ message: 'Test message', persona: 'professional' }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      const response = await handleSubmission(request, mockEnv, mockCtx);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: 'Message contains inappropriate content',
+        code: 'message_blocked',
+        details: reasons,
+      });
+    });
+
     it('should handle generic transformation errors', async () => {
       vi.mocked(transformMessage).mockRejectedValue(new Error('Network error'));
 
@@ -391,7 +442,9 @@ describe('handleSubmission', () => {
         'Transformed message',
         mockEnv,
         mockCtx,
-        false
+        false,
+        undefined,
+        { replyThreadId: undefined, receiptId: expect.stringMatching(/^[0-9a-f]{64}$/) }
       );
     });
 
@@ -411,9 +464,95 @@ describe('handleSubmission', () => {
         'Transformed message',
         mockEnv,
         mockCtx,
-        true
+        true,
+        undefined,
+        { replyThreadId: undefined, receiptId: expect.stringMatching(/^[0-9a-f]{64}$/) }
       );
     });
+
+    it('should queue message for the requested comment box', async () => {
+      const box = {
+        id: 'product-team',
+        owner: 'Product',
+        recipientEmail: 'product@example.com',
+        title: 'Product Feedback',
+        createdAt: 1700000000000,
+      };
+      mockEnv.MESSAGE_QUEUE = { get: vi.fn().mockResolvedValue(JSON.stringify(box)) } as any;
+
+      const request = new Request('http://localhost/api/submit', {
+        method: 'POST',
+        body: JSON.stringify({ message: 'Test message', boxId: 'product-team' }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      await handleSubmission(request, mockEnv, mockCtx);
+
+      expect(mockEnv.MESSAGE_QUEUE.get).toHaveBeenCalledWith('box_product-team');
+      expect(queueMessage).toHaveBeenCalledWith('Transformed message', mockEnv, mockCtx, false, box, expect.objectContaining({ receiptId: expect.any(String) }));
+    });
+
+    it('should hold flagged messages for review instead of queueing them', async () => {
+      const moderation = { action: 'flag', reasons: [{ check: 'terms', action: 'flag', code: 'flagged_term', match: 'hate' }] };
+      mockPersonaTransformer.transformMessage.mockResolvedValue({ transformedMessage: 'Transformed message', moderation });
+      mockEnv.REVIEW_MODE = 'flagged';
+      mockEnv.MESSAGE_QUEUE = { put: vi.fn() } as any;
+
+      const request = new Request('http://localhost/api/submit', {
+        method: 'POST',
+        body: JSON.stringify({ message: 'Test message' }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      await handleSubmission(request, mockEnv, mockCtx);
+
+      expect(queueMessage).not.toHaveBeenCalled();
+      const [key, value] = vi.mocked(mockEnv.MESSAGE_QUEUE.put).mock.calls[0];
+      expect(key).toMatch(/^review_/);
+      const stored = JSON.parse(value as string);
+      expect(stored).toMatchObject({ moderation });
+      expect(stored.message).toBeUndefined();
+      expect(await decryptMessage(stored.encryptedMessage, stored.id, mockEnv)).toBe('Transformed message');
+    });
+
+    it('should reject unknown comment boxes', async () => {
+      mockEnv.MESSAGE_QUEUE = { get: vi.fn().mockResolvedValue(null) } as any;
+
+      const request = new Request('http://localhost/api/submit', {
+        method: 'POST',
+        body: JSON.stringify({ message: 'Test message', boxId: 'missing-box' }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      const response = await handleSubmission(request, mockEnv, mockCtx);
+
+      expect(response.status).toBe(404);
+      expect(queueMessage).not.toHaveBeenCalled();
+    });
+
+    it('should reject personas the box does not allow', async () => {
+      mockEnv.MESSAGE_QUEUE = {
+        get: vi.fn().mockResolvedValue(JSON.stringify({
+          id: 'hr',
+          owner: 'HR',
+          recipientEmail: 'hr@example.com',
+          title: 'HR',
+          allowedPersonas: ['extremely-serious'],
+          createdAt: 1700000000000,
+        })),
+      } as any;
+
+      const request = new Request('http://localhost/api/submit', {
+        method: 'POST',
+        body: JSON.stringify({ message: 'Test message', persona: 'internet-random', boxId: 'hr' }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      const response = await handleSubmission(request, mockEnv, mockCtx);
+
+      expect(response.status).toBe(400);
+      expect(queueMessage).not.toHaveBeenCalled();
+    });
   });
 
   describe('Error Handling', () => {
@@ -66,7 +66,7 @@ describe('Worker Main Entry Point', () => {
       expect(response.status).toBe(200);
       expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
       expect(response.headers.get('Access-Control-Allow-Methods')).toBe('POST, GET, OPTIONS');
-      expect(response.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, X-Session-ID');
+      expect(response.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, X-Session-ID, X-Reply-Token');
     });
 
     it('should add CORS headers to API responses', async () => {
@@ -85,7 +85,7 @@ describe('Worker Main Entry Point', () => {
 
       expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
       expect(response.headers.get('Access-Control-Allow-Methods')).toBe('POST, GET, OPTIONS');
-      expect(response.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, X-Session-ID');
+      expect(response.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, X-Session-ID, X-Reply-Token');
     });
   });
 
@@ -135,6 +135,7 @@ describe('Worker Main Entry Point', () => {
     it('should route POST /api/test-submit to handleSubmission with test mode', async () => {
       const mockResponse = new Response(JSON.stringify({ success: true }));
       vi.mocked(handleSubmission).mockResolvedValue(mockResponse);
+      mockEnv.ENVIRONMENT = 'development';
 
       const request = new Request('http://localhost/api/test-submit', {
         method: 'POST',
@@ -211,6 +212,68 @@ describe('Worker Main Entry Point', () => {
     });
   });
 
+  describe('Admin Routes', () => {
+    it('should reject debug routes without the admin token', async () => {
+      mockEnv.ADMIN_TOKEN = 'secret-token';
+      mockEnv.ENVIRONMENT = 'development';
+      const request = new Request('http://localhost/api/debug/queue-status');
+
+      const response = await worker.fetch(request, mockEnv, mockCtx);
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('WWW-Authenticate')).toBe('Bearer');
+      expect(mockEnv.MESSAGE_QUEUE.list).not.toHaveBeenCalled();
+    });
+
+    it('should reject queue processing with a wrong admin token', async () => {
+      mockEnv.ADMIN_TOKEN = 'secret-token';
+      const request = new Request('http://localhost/api/process-queue', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer wrong-token' },
+      });
+
+      const response = await worker.fetch(request, mockEnv, mockCtx);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should allow debug routes with the admin token', async () => {
+      mockEnv.ADMIN_TOKEN = 'secret-token';
+      mockEnv.ENVIRONMENT = 'development';
+      vi.mocked(mockEnv.MESSAGE_QUEUE.list).mockResolvedValue({ keys: [], list_complete: true } as any);
+      const request = new Request('http://localhost/api/debug/queue-status', {
+        headers: { Authorization: 'Bearer secret-token' },
+      });
+
+      const response = await worker.fetch(request, mockEnv, mockCtx);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return 404 for debug routes outside development even with the admin token', async () => {
+      mockEnv.ADMIN_TOKEN = 'secret-token';
+
+      for (const environment of ['production', 'test', undefined] as any[]) {
+        mockEnv.ENVIRONMENT = environment;
+        const request = new Request('http://localhost/api/debug/token-status', {
+          headers: { Authorization: 'Bearer secret-token' },
+        });
+
+        const response = await worker.fetch(request, mockEnv, mockCtx);
+
+        expect(response.status).toBe(404);
+      }
+    });
+
+    it('should fail closed when no admin token is configured', async () => {
+      const request = new Request('http://localhost/api/process-queue', { method: 'POST' });
+
+      const response = await worker.fetch(request, mockEnv, mockCtx);
+
+      expect(response.status).toBe(503);
+    });
+  });
+
   describe('Method Validation', () => {
     it('should allow only POST to /api/submit', async () => {
       const mockResponse = new Response('static content');
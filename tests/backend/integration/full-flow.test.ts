@@ -350,7 +350,7 @@ describe('Full Application Flow Integration Tests', () => {
 
       expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
       expect(response.headers.get('Access-Control-Allow-Methods')).toBe('POST, GET, OPTIONS');
-      expect(response.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, X-Session-ID');
+      expect(response.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, X-Session-ID, X-Reply-Token');
     });
 
     it('should handle OPTIONS preflight requests', async () => {
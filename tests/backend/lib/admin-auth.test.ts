@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AdminAuthError,
+  authorizeAdmin,
+  constantTimeEqual,
+  isAdminRoute,
+  isDebugRoute,
+} from '../../../src/lib/admin-auth';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+function requestWith(authorization?: string): Request {
+  return new Request('http://localhost/api/debug/queue-status', {
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+}
+
+describe('Admin Auth', () => {
+  describe('route classification', () => {
+    it('should treat debug, admin and queue routes as admin routes', () => {
+      expect(isAdminRoute('/api/debug/queue-status')).toBe(true);
+      expect(isAdminRoute('/api/admin/boxes')).toBe(true);
+      expect(isAdminRoute('/api/process-queue')).toBe(true);
+      expect(isAdminRoute('/api/submit')).toBe(false);
+      expect(isAdminRoute('/api/health')).toBe(false);
+    });
+
+    it('should treat debug and test routes as debug-only', () => {
+      expect(isDebugRoute('/api/debug/token-status')).toBe(true);
+      expect(isDebugRoute('/api/test-submit')).toBe(true);
+      expect(isDebugRoute('/api/process-queue')).toBe(false);
+      expect(isDebugRoute('/api/admin/boxes')).toBe(false);
+    });
+  });
+
+  describe('constantTimeEqual', () => {
+    it('should compare secrets', async () => {
+      expect(await constantTimeEqual('secret-token', 'secret-token')).toBe(true);
+      expect(await constantTimeEqual('secret-token', 'secret-tokem')).toBe(false);
+      expect(await constantTimeEqual('short', 'a-much-longer-token')).toBe(false);
+      expect(await constantTimeEqual('', 'secret-token')).toBe(false);
+    });
+  });
+
+  describe('authorizeAdmin', () => {
+    const env = createMockEnv({ ADMIN_TOKEN: 'secret-token' }) as unknown as Env;
+
+    it('should accept the configured bearer token', async () => {
+      await expect(authorizeAdmin(requestWith('Bearer secret-token'), env)).resolves.toBeUndefined();
+    });
+
+    it('should reject a missing token with 401', async () => {
+      await expect(authorizeAdmin(requestWith(), env)).rejects.toMatchObject({ status: 401 });
+      await expect(authorizeAdmin(requestWith('Basic abc'), env)).rejects.toMatchObject({ status: 401 });
+    });
+
+    it('should reject a wrong token with 403', async () => {
+      await expect(authorizeAdmin(requestWith('Bearer wrong'), env)).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('should fail closed when ADMIN_TOKEN is not configured', async () => {
+      const unconfigured = createMockEnv() as unknown as Env;
+
+      await expect(authorizeAdmin(requestWith('Bearer anything'), unconfigured))
+        .rejects.toBeInstanceOf(AdminAuthError);
+      await expect(authorizeAdmin(requestWith('Bearer anything'), unconfigured))
+        .rejects.toMatchObject({ status: 503 });
+    });
+  });
+});
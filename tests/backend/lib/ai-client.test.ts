@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AIClient, AIClientError, createAIProvider } from '../../../src/lib/ai-client';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+function completion(content: string) {
+  return new Response(JSON.stringify({
+    id: 'cmpl',
+    object: 'chat.completion',
+    created: 0,
+    model: 'm',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  }));
+}
+
+function lastRequest(): { url: string; headers: Record<string, string>; body: any } {
+  const [url, init] = vi.mocked(global.fetch).mock.calls.at(-1)!;
+  return { url: String(url), headers: init!.headers as Record<string, string>, body: JSON.parse(init!.body as string) };
+}
+
+describe('AI Providers', () => {
+  let env: Env;
+
+  beforeEach(() => {
+    env = createMockEnv() as unknown as Env;
+    vi.mocked(global.fetch).mockResolvedValue(completion('Transformed'));
+  });
+
+  it('should default to the AI worker', () => {
+    expect(createAIProvider(env).name).toBe('ai-worker');
+  });
+
+  it('should reject unknown providers', () => {
+    env.AI_PROVIDER = 'nope' as any;
+
+    expect(() => createAIProvider(env)).toThrow(AIClientError);
+  });
+
+  describe('ai-worker', () => {
+    it('should fold the system prompt into a single user message', async () => {
+      const client = new AIClient(env);
+
+      await client.complete('hello', { systemPrompt: 'Be nice', useSimpleEndpoint: false });
+
+      const request = lastRequest();
+      expect(request.url).toBe('https://ai.emilycogsdill.com/api/chat');
+      expect(request.headers.Authorization).toBe('Bearer test-ai-worker-key');
+      expect(request.body.messages).toEqual([{ role: 'user', content: 'Be nice\n\nUser input: hello' }]);
+      expect(request.body.model).toBe('@cf/meta/llama-3.1-8b-instruct');
+    });
+
+    it('should honour AI_BASE_URL and AI_MODEL', async () => {
+      env.AI_BASE_URL = 'https://ai.internal.example/';
+      env.AI_MODEL = '@cf/mistral/mistral-7b-instruct-v0.1';
+
+      await new AIClient(env).complete('hello');
+
+      expect(lastRequest().url).toBe('https://ai.internal.example/api/chat');
+      expect(lastRequest().body.model).toBe('@cf/mistral/mistral-7b-instruct-v0.1');
+    });
+  });
+
+  describe('openai', () => {
+    beforeEach(() => {
+      env.AI_PROVIDER = 'openai';
+      env.AI_BASE_URL = 'https://api.example.com/v1';
+      env.AI_API_KEY = 'sk-test';
+    });
+
+    it('should call /v1/chat/completions with proper roles', async () => {
+      const result = await new AIClient(env).complete('hello', { systemPrompt: 'Be nice' });
+
+      const request = lastRequest();
+      expect(result).toBe('Transformed');
+      expect(request.url).toBe('https://api.example.com/v1/chat/completions');
+      expect(request.headers.Authorization).toBe('Bearer sk-test');
+      expect(request.body.messages).toEqual([
+        { role: 'system', content: 'Be nice' },
+        { role: 'user', content: 'hello' },
+      ]);
+      expect(request.body.model).toBe('gpt-4o-mini');
+    });
+
+    it('should require a base URL', () => {
+      env.AI_BASE_URL = undefined;
+
+      expect(() => createAIProvider(env)).toThrow('AI_BASE_URL is required');
+    });
+
+    it('should map HTTP errors to AIClientError', async () => {
+      vi.mocked(global.fetch).mockResolvedValue(new Response('{}', { status: 429 }));
+
+      await expect(new AIClient(env).complete('hello')).rejects.toMatchObject({
+        name: 'AIClientError',
+        status: 429,
+        code: 'rate_limit_exceeded',
+      });
+    });
+  });
+
+  describe('workers-ai', () => {
+    it('should run the model through the AI binding', async () => {
+      const run = vi.fn().mockResolvedValue({ response: 'From Workers AI' });
+      env.AI_PROVIDER = 'workers-ai';
+      env.AI = { run };
+
+      const result = await new AIClient(env).complete('hello', { systemPrompt: 'Be nice', temperature: 0.2 });
+
+      expect(result).toBe('From Workers AI');
+      expect(run).toHaveBeenCalledWith('@cf/meta/llama-3.1-8b-instruct', expect.objectContaining({
+        messages: [{ role: 'system', content: 'Be nice' }, { role: 'user', content: 'hello' }],
+        temperature: 0.2,
+      }));
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should require the binding', () => {
+      env.AI_PROVIDER = 'workers-ai';
+
+      expect(() => createAIProvider(env)).toThrow('AI binding is required');
+    });
+  });
+
+  describe('echo', () => {
+    it('should tidy the user input deterministically without network access', async () => {
+      env.AI_PROVIDER = 'echo';
+      const client = new AIClient(env);
+
+      const first = await client.complete('Transform:   this  is   fine', { systemPrompt: 'Be a pirate' });
+      const second = await client.complete('Transform:   this  is   fine', { systemPrompt: 'Be a pirate' });
+
+      expect(first).toBe('This is fine.');
+      expect(second).toBe(first);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getBatchingConfig, getNextWindow, shuffle, DEFAULT_BATCHING_CONFIG } from '../../../src/lib/batching';
+import { queueMessage, processQueuedMessages } from '../../../src/lib/queue';
+import { CommentBox, saveBox } from '../../../src/lib/boxes';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+const WEBHOOK_URL = 'https://hooks.example.com/feedback';
+
+describe('Batched Delivery', () => {
+  let env: Env;
+
+  beforeEach(() => {
+    env = createMockEnv({
+      DELIVERY_CHANNEL: 'webhook',
+      DELIVERY_WEBHOOK_URL: WEBHOOK_URL,
+      DELIVERY_WEBHOOK_SECRET: 'webhook-secret',
+    }) as unknown as Env;
+  });
+
+  describe('getNextWindow', () => {
+    const config = { ...DEFAULT_BATCHING_CONFIG, windows: ['09:00', '16:00'] };
+
+    it('should pick the next window today, then tomorrow', () => {
+      expect(getNextWindow(config, Date.parse('2026-03-10T08:00:00Z'))).toBe(Date.parse('2026-03-10T09:00:00Z'));
+      expect(getNextWindow(config, Date.parse('2026-03-10T09:00:00Z'))).toBe(Date.parse('2026-03-10T16:00:00Z'));
+      expect(getNextWindow(config, Date.parse('2026-03-31T17:00:00Z'))).toBe(Date.parse('2026-04-01T09:00:00Z'));
+    });
+
+    it('should use the recipient time zone, including daylight saving', () => {
+      const newYork = { ...config, timeZone: 'America/New_York' };
+
+      // 09:00 EST is 14:00 UTC; 09:00 EDT is 13:00 UTC
+      expect(getNextWindow(newYork, Date.parse('2026-01-15T12:00:00Z'))).toBe(Date.parse('2026-01-15T14:00:00Z'));
+      expect(getNextWindow(newYork, Date.parse('2026-07-15T12:00:00Z'))).toBe(Date.parse('2026-07-15T13:00:00Z'));
+      // 18:00 EDT: the next window is 09:00 tomorrow
+      expect(getNextWindow(newYork, Date.parse('2026-07-15T22:00:00Z'))).toBe(Date.parse('2026-07-16T13:00:00Z'));
+    });
+  });
+
+  describe('getBatchingConfig', () => {
+    it('should be off unless DELIVERY_BATCHING or the box enables it', () => {
+      expect(getBatchingConfig(env)).toBeNull();
+
+      const box = { id: 'hr', batching: { timeZone: 'Europe/London' } } as CommentBox;
+      expect(getBatchingConfig(env, box)).toEqual({ ...DEFAULT_BATCHING_CONFIG, timeZone: 'Europe/London' });
+
+      env.DELIVERY_BATCHING = JSON.stringify({ minBatchSize: 5 });
+      expect(getBatchingConfig(env)).toEqual({ ...DEFAULT_BATCHING_CONFIG, minBatchSize: 5 });
+      expect(getBatchingConfig(env, box)).toMatchObject({ minBatchSize: 5, timeZone: 'Europe/London' });
+    });
+
+    it('should reject invalid settings', () => {
+      for (const config of ['nope', { windows: ['9am'] }, { windows: [] }, { timeZone: 'Mars/Olympus' }, { minBatchSize: 0 }]) {
+        env.DELIVERY_BATCHING = typeof config === 'string' ? config : JSON.stringify(config);
+        expect(() => getBatchingConfig(env)).toThrow('Invalid DELIVERY_BATCHING');
+      }
+    });
+
+    it('should validate box batching', async () => {
+      const box = { id: 'hr', owner: 'HR', title: 'HR', recipientEmail: 'hr@example.com', createdAt: 0 };
+
+      await expect(saveBox({ ...box, batching: { windows: ['25:00'] } }, env)).rejects.toThrow('Box batching');
+      await expect(saveBox({ ...box, batching: { windows: ['17:30'] } }, env)).resolves.toBeUndefined();
+    });
+  });
+
+  it('should shuffle without losing or duplicating items', () => {
+    const items = Array.from({ length: 20 }, (_, i) => i);
+    expect(shuffle(items).sort((a, b) => a - b)).toEqual(items);
+  });
+
+  describe('release', () => {
+    const ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+    let now: number;
+
+    function delivered(): string[] {
+      return vi.mocked(global.fetch).mock.calls
+        .filter(([url]) => String(url) === WEBHOOK_URL)
+        .map(([, init]) => JSON.parse(init!.body as string).message);
+    }
+
+    async function queued(): Promise<any[]> {
+      const { keys } = await env.MESSAGE_QUEUE.list({ prefix: 'msg_' });
+      return Promise.all(keys.map(async key => JSON.parse((await env.MESSAGE_QUEUE.get(key.name))!)));
+    }
+
+    beforeEach(() => {
+      env.DELIVERY_BATCHING = JSON.stringify({ windows: ['09:00'], minBatchSize: 3, maxHoldHours: 48 });
+      now = Date.parse('2026-03-10T08:00:00Z');
+      vi.spyOn(Date, 'now').mockImplementation(() => now);
+      vi.mocked(global.fetch).mockClear().mockImplementation(async () => new Response('ok'));
+      ctx.waitUntil.mockClear();
+    });
+
+    afterEach(() => {
+      vi.mocked(Date.now).mockRestore();
+    });
+
+    it('should schedule messages for the next window without a per-message delivery', async () => {
+      await queueMessage('One', env, ctx);
+
+      const [message] = await queued();
+      expect(message).toMatchObject({ batch: 'default', scheduledFor: Date.parse('2026-03-10T09:00:00Z') });
+      expect(ctx.waitUntil).not.toHaveBeenCalled();
+    });
+
+    it('should hold a small batch until enough messages are waiting', async () => {
+      await queueMessage('One', env, ctx);
+      await queueMessage('Two', env, ctx);
+
+      now = Date.parse('2026-03-10T09:05:00Z');
+      expect((await processQueuedMessages(env)).processed).toBe(0);
+      expect((await queued()).map(message => message.scheduledFor))
+        .toEqual(Array(2).fill(Date.parse('2026-03-11T09:00:00Z')));
+
+      await queueMessage('Three', env, ctx);
+      now = Date.parse('2026-03-11T09:05:00Z');
+      expect((await processQueuedMessages(env)).processed).toBe(3);
+      expect(delivered().sort()).toEqual(['One', 'Three', 'Two']);
+    });
+
+    it('should release a batch once its oldest message has been held long enough', async () => {
+      await queueMessage('Lonely', env, ctx);
+
+      now = Date.parse('2026-03-11T09:05:00Z');
+      expect((await processQueuedMessages(env)).processed).toBe(0);
+
+      now = Date.parse('2026-03-12T09:05:00Z');
+      expect((await processQueuedMessages(env)).processed).toBe(1);
+    });
+
+    it('should batch each box separately and retry failures on their own', async () => {
+      const box = { id: 'hr', owner: 'HR', title: 'HR', recipientEmail: 'hr@example.com', createdAt: 0,
+        delivery: { channel: 'webhook' as const, webhookUrl: WEBHOOK_URL, webhookSecret: 'secret' } };
+      await saveBox(box, env);
+      await queueMessage('Default', env, ctx);
+      for (const text of ['A', 'B', 'C']) {
+        await queueMessage(text, env, ctx, false, box);
+      }
+      vi.mocked(global.fetch).mockImplementation(async () => new Response('down', { status: 500 }));
+
+      now = Date.parse('2026-03-10T09:05:00Z');
+      const result = await processQueuedMessages(env);
+
+      expect(result.errors).toHaveLength(3);
+      const retries = (await queued()).filter(message => message.boxId === 'hr');
+      expect(retries.every(message => message.batch === undefined && message.attempts === 1)).toBe(true);
+      expect((await queued()).find(message => !message.boxId)).toMatchObject({ batch: 'default' });
+    });
+  });
+});
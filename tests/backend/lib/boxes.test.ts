@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  CommentBox,
+  BoxError,
+  getBox,
+  requireBox,
+  saveBox,
+  deleteBox,
+  listBoxes,
+  isPersonaAllowed,
+  isValidBoxId,
+  toBoxInfo,
+} from '../../../src/lib/boxes';
+import { queueMessage, processQueuedMessages } from '../../../src/lib/queue';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+function createBox(overrides: Partial<CommentBox> = {}): CommentBox {
+  return {
+    id: 'product-team',
+    owner: 'Product',
+    recipientEmail: 'product@example.com',
+    title: 'Product Feedback',
+    createdAt: 1700000000000,
+    ...overrides,
+  };
+}
+
+function mockGmail() {
+  vi.mocked(global.fetch).mockImplementation(async (input: any) => {
+    const url = String(input);
+    if (url.startsWith('https://oauth2.googleapis.com')) {
+      return new Response(JSON.stringify({ access_token: 'token', expires_in: 3600 }));
+    }
+    return new Response(JSON.stringify({ id: 'gmail-id' }));
+  });
+}
+
+function sentRecipients(): string[] {
+  return vi.mocked(global.fetch).mock.calls
+    .filter(([url]) => String(url).includes('/messages/send'))
+    .map(([, init]) => atob(JSON.parse(init!.body as string).raw.replace(/-/g, '+').replace(/_/g, '/')))
+    .map(raw => raw.split('\r\n')[0].replace('To: ', ''));
+}
+
+describe('Comment Boxes', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+
+  beforeEach(() => {
+    env = createMockEnv() as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+  });
+
+  describe('isValidBoxId', () => {
+    it('should accept lowercase slugs', () => {
+      expect(isValidBoxId('product-team')).toBe(true);
+      expect(isValidBoxId('hr2')).toBe(true);
+    });
+
+    it('should reject other values', () => {
+      expect(isValidBoxId('Product')).toBe(false);
+      expect(isValidBoxId('-leading')).toBe(false);
+      expect(isValidBoxId('a')).toBe(false);
+      expect(isValidBoxId('../msg_1')).toBe(false);
+      expect(isValidBoxId(42)).toBe(false);
+    });
+  });
+
+  describe('storage', () => {
+    it('should save and load a box', async () => {
+      await saveBox(createBox(), env);
+
+      expect(await getBox('product-team', env)).toEqual(createBox());
+      expect(env.MESSAGE_QUEUE.put).toHaveBeenCalledWith('box_product-team', expect.any(String));
+    });
+
+    it('should return null for unknown or invalid IDs', async () => {
+      expect(await getBox('missing', env)).toBeNull();
+      expect(await getBox('NOT VALID', env)).toBeNull();
+    });
+
+    it('should throw a 404 BoxError from requireBox', async () => {
+      await expect(requireBox('missing', env)).rejects.toMatchObject({
+        name: 'BoxError',
+        status: 404,
+      });
+    });
+
+    it('should reject invalid boxes', async () => {
+      await expect(saveBox(createBox({ recipientEmail: 'not-an-email' }), env)).rejects.toBeInstanceOf(BoxError);
+      await expect(saveBox(createBox({ id: 'Bad Id' }), env)).rejects.toBeInstanceOf(BoxError);
+      await expect(saveBox(createBox({ deliveryDelaySeconds: -1 }), env)).rejects.toBeInstanceOf(BoxError);
+    });
+
+    it('should list and delete boxes', async () => {
+      await saveBox(createBox(), env);
+      await saveBox(createBox({ id: 'hr', recipientEmail: 'hr@example.com' }), env);
+
+      expect((await listBoxes(env)).map(box => box.id).sort()).toEqual(['hr', 'product-team']);
+
+      await deleteBox('hr', env);
+      expect((await listBoxes(env)).map(box => box.id)).toEqual(['product-team']);
+    });
+  });
+
+  describe('isPersonaAllowed', () => {
+    it('should allow everything when no restriction is set', () => {
+      expect(isPersonaAllowed(createBox(), 'super-nice')).toBe(true);
+      expect(isPersonaAllowed(createBox(), undefined, 'pirate')).toBe(true);
+    });
+
+    it('should restrict presets and custom personas', () => {
+      const box = createBox({ allowedPersonas: ['super-nice'] });
+
+      expect(isPersonaAllowed(box, 'super-nice')).toBe(true);
+      expect(isPersonaAllowed(box, 'internet-random')).toBe(false);
+      expect(isPersonaAllowed(box, undefined, 'pirate')).toBe(false);
+      expect(isPersonaAllowed(box)).toBe(true);
+    });
+  });
+
+  it('should not expose the recipient in public box info', () => {
+    const info = toBoxInfo(createBox());
+
+    expect(info).toEqual({ id: 'product-team', title: 'Product Feedback', allowedPersonas: undefined });
+    expect(JSON.stringify(info)).not.toContain('product@example.com');
+  });
+
+  describe('delivery routing', () => {
+    beforeEach(() => {
+      mockGmail();
+    });
+
+    it('should deliver box messages to the box recipient', async () => {
+      const box = createBox();
+      await saveBox(box, env);
+
+      await queueMessage('For product', env, ctx, false, box);
+      await queueMessage('For default', env, ctx, false);
+
+      // Make everything due
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 7 * 60 * 60 * 1000);
+      const result = await processQueuedMessages(env);
+      vi.mocked(Date.now).mockRestore();
+
+      expect(result.processed).toBe(2);
+      expect(sentRecipients().sort()).toEqual(['default@example.com', 'product@example.com']);
+    });
+
+    it('should use the box delivery delay', async () => {
+      const box = createBox({ deliveryDelaySeconds: 60 });
+      const before = Date.now();
+
+      await queueMessage('Delayed', env, ctx, false, box);
+
+      const [key, value] = vi.mocked(env.MESSAGE_QUEUE.put).mock.calls[0];
+      const queued = JSON.parse(value as string);
+      expect(key).toMatch(/^msg_/);
+      expect(queued.boxId).toBe('product-team');
+      expect(queued.scheduledFor).toBeGreaterThanOrEqual(before + 60000);
+      expect(queued.scheduledFor).toBeLessThan(before + 62000);
+    });
+
+    it('should not fall back to the default recipient when the box was deleted', async () => {
+      const box = createBox({ deliveryDelaySeconds: 60 });
+      await saveBox(box, env);
+      await queueMessage('Orphaned', env, ctx, false, box);
+      await deleteBox(box.id, env);
+
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 120000);
+      const result = await processQueuedMessages(env);
+      vi.mocked(Date.now).mockRestore();
+
+      expect(result.processed).toBe(0);
+      expect(result.errors[0]).toContain('no longer exists');
+      expect(sentRecipients()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  ChallengeError,
+  ProofOfWorkVerifier,
+  TurnstileVerifier,
+  createChallengeVerifier,
+  getPowDifficulty,
+} from '../../../src/lib/challenge';
+import { handleSubmission } from '../../../src/api/submit';
+import { handleReplies } from '../../../src/api/replies';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+import type { ChallengeResponse } from '../../../src/types/api';
+
+// Same search the page script and widget run
+async function solve(challenge: ChallengeResponse, accept = true): Promise<string> {
+  for (let nonce = 0; ; nonce++) {
+    const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${challenge.token}:${nonce}`)));
+    let bits = 0;
+    for (const byte of hash) {
+      if (byte !== 0) {
+        bits += Math.clz32(byte) - 24;
+        break;
+      }
+      bits += 8;
+    }
+    if ((bits >= challenge.difficulty!) === accept) {
+      return String(nonce);
+    }
+  }
+}
+
+describe('Challenge', () => {
+  let env: Env;
+
+  beforeEach(() => {
+    env = createMockEnv({ CHALLENGE_MODE: 'pow', CHALLENGE_DIFFICULTY: '4' }) as unknown as Env;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pick the verifier from CHALLENGE_MODE', () => {
+    expect(createChallengeVerifier(env)).toBeInstanceOf(ProofOfWorkVerifier);
+
+    env.CHALLENGE_MODE = 'turnstile';
+    expect(() => createChallengeVerifier(env)).toThrow('TURNSTILE_SITE_KEY or TURNSTILE_SECRET_KEY is missing');
+    env.TURNSTILE_SITE_KEY = 'site';
+    env.TURNSTILE_SECRET_KEY = 'secret';
+    expect(createChallengeVerifier(env)).toBeInstanceOf(TurnstileVerifier);
+
+    env.CHALLENGE_MODE = undefined;
+    expect(createChallengeVerifier(env)).toBeNull();
+  });
+
+  describe('proof of work', () => {
+    const verifier = new ProofOfWorkVerifier();
+
+    it('should accept a solved challenge once', async () => {
+      const challenge = await verifier.issue(env);
+      const solution = { token: challenge.token!, nonce: await solve(challenge) };
+
+      await expect(verifier.verify(solution, env)).resolves.toBeUndefined();
+      await expect(verifier.verify(solution, env)).rejects.toMatchObject({ code: 'challenge_required' });
+    });
+
+    it('should reject missing, wrong and tampered solutions', async () => {
+      const challenge = await verifier.issue(env);
+
+      await expect(verifier.verify(undefined, env)).rejects.toMatchObject({ code: 'challenge_required' });
+      await expect(verifier.verify({ token: challenge.token!, nonce: await solve(challenge, false) }, env))
+        .rejects.toThrow('Proof of work does not meet the difficulty');
+
+      const easier = challenge.token!.replace(/^(\d+)\.4\./, '$1.0.');
+      await expect(verifier.verify({ token: easier, nonce: '0' }, env)).rejects.toThrow('Invalid challenge');
+    });
+
+    it('should reject expired challenges', async () => {
+      vi.useFakeTimers({ now: Date.parse('2025-03-01T12:00:00Z') });
+      const challenge = await verifier.issue(env);
+      const nonce = await solve(challenge);
+
+      vi.setSystemTime(Date.parse('2025-03-01T12:11:00Z'));
+      await expect(verifier.verify({ token: challenge.token!, nonce }, env)).rejects.toThrow('Challenge expired');
+    });
+
+    it('should raise the difficulty with recent submission volume', async () => {
+      const now = Date.parse('2025-03-01T12:30:00Z');
+      const hour = Math.floor(now / (60 * 60 * 1000));
+      expect(await getPowDifficulty(env, now)).toBe(4);
+
+      await env.MESSAGE_QUEUE.put(`challenge_volume_${hour}`, '20');
+      expect(await getPowDifficulty(env, now)).toBe(5);
+
+      // Half of last hour's 60 still counts at half past
+      await env.MESSAGE_QUEUE.put(`challenge_volume_${hour - 1}`, '60');
+      expect(await getPowDifficulty(env, now)).toBe(6);
+
+      await env.MESSAGE_QUEUE.put(`challenge_volume_${hour}`, '1000000');
+      expect(await getPowDifficulty({ ...env, CHALLENGE_DIFFICULTY: undefined }, now)).toBe(22);
+    });
+  });
+
+  describe('turnstile', () => {
+    it('should check the token with siteverify', async () => {
+      const fetchMock = vi.mocked(global.fetch).mockResolvedValueOnce(new Response(JSON.stringify({ success: true })));
+      const verifier = new TurnstileVerifier('site', 'secret');
+
+      await expect(verifier.issue()).resolves.toEqual({ mode: 'turnstile', siteKey: 'site' });
+      await verifier.verify({ token: 'widget-token' });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://challenges.cloudflare.com/turnstile/v0/siteverify');
+      expect((init!.body as FormData).get('response')).toBe('widget-token');
+      expect((init!.body as FormData).has('remoteip')).toBe(false);
+
+      fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ success: false, 'error-codes': ['invalid-input-response'] })));
+      await expect(verifier.verify({ token: 'bad' })).rejects.toBeInstanceOf(ChallengeError);
+    });
+  });
+
+  describe('handleSubmission', () => {
+    const ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+    const submit = (body: Record<string, unknown>) => handleSubmission(new Request('http://localhost/api/submit', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-ID': 'session123' },
+      body: JSON.stringify({ message: 'The new rota works well', sessionId: 'session123', ...body }),
+    }), env, ctx);
+
+    beforeEach(() => {
+      env.AI_PROVIDER = 'echo';
+    });
+
+    it('should answer an unsolved submission with a challenge and accept the solution', async () => {
+      const first = await submit({});
+      const data = await first.json() as any;
+
+      expect(first.status).toBe(400);
+      expect(data).toMatchObject({ success: false, code: 'challenge_required', challenge: { mode: 'pow', difficulty: 4 } });
+      expect(env.MESSAGE_QUEUE.put).not.toHaveBeenCalledWith(expect.stringMatching(/^msg_/), expect.anything(), expect.anything());
+
+      const second = await submit({ challenge: { token: data.challenge.token, nonce: await solve(data.challenge) } });
+      expect(second.status).toBe(200);
+    });
+
+    it('should require a solved challenge for sender responses too', async () => {
+      const first = await (await submit({})).json() as any;
+      const sent = await submit({ allowReplies: true, challenge: { token: first.challenge.token, nonce: await solve(first.challenge) } });
+      const { replyToken } = await sent.json() as any;
+
+      const reply = (body: Record<string, unknown>) => handleReplies(new Request('http://localhost/api/replies', {
+        method: 'POST',
+        body: JSON.stringify({ token: replyToken, message: 'More detail', ...body }),
+      }), env, ctx);
+
+      const unsolved = await reply({});
+      const data = await unsolved.json() as any;
+      expect(unsolved.status).toBe(400);
+      expect(data).toMatchObject({ success: false, code: 'challenge_required', challenge: { mode: 'pow' } });
+
+      const solved = await reply({ challenge: { token: data.challenge.token, nonce: await solve(data.challenge) } });
+      expect(solved.status).toBe(200);
+    });
+  });
+});
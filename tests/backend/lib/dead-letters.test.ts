@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  queueMessage,
+  processQueuedMessages,
+  listDeadLetters,
+  requeueDeadLetter,
+  purgeDeadLetters,
+  getRetryDelay,
+} from '../../../src/lib/queue';
+import { decryptMessage } from '../../../src/lib/message-encryption';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+function mockGmail(sendStatus: number) {
+  vi.mocked(global.fetch).mockImplementation(async (input: any) => {
+    const url = String(input);
+    if (url.startsWith('https://oauth2.googleapis.com')) {
+      return new Response(JSON.stringify({ access_token: 'token', expires_in: 3600 }));
+    }
+    return new Response(JSON.stringify({ id: 'gmail-id' }), { status: sendStatus });
+  });
+}
+
+describe('Delivery retries and dead letters', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+  let now: number;
+
+  async function storedMessages(prefix: string): Promise<any[]> {
+    const { keys } = await env.MESSAGE_QUEUE.list({ prefix });
+    return Promise.all(keys.map(async key => JSON.parse((await env.MESSAGE_QUEUE.get(key.name))!)));
+  }
+
+  // Advance past the message's next attempt and run the cron processor
+  async function runProcessor() {
+    const [queued] = await storedMessages('msg_');
+    now = (queued?.nextAttemptAt ?? queued?.scheduledFor ?? now) + 1;
+    return processQueuedMessages(env);
+  }
+
+  beforeEach(async () => {
+    env = createMockEnv({ QUEUE_DELAY_SECONDS: '60', QUEUE_MAX_ATTEMPTS: '3' }) as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+    now = Date.now();
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    await queueMessage('Hello', env, ctx);
+  });
+
+  afterEach(() => {
+    vi.mocked(Date.now).mockRestore();
+  });
+
+  it('should back off exponentially up to a cap', () => {
+    expect(getRetryDelay(1)).toBe(10 * 60 * 1000);
+    expect(getRetryDelay(2)).toBe(20 * 60 * 1000);
+    expect(getRetryDelay(10)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it('should keep a failed message queued with its next attempt time', async () => {
+    mockGmail(500);
+
+    const result = await runProcessor();
+
+    expect(result.processed).toBe(0);
+    expect(result.errors).toHaveLength(1);
+    const [queued] = await storedMessages('msg_');
+    expect(queued.attempts).toBe(1);
+    expect(queued.lastError).toEqual(expect.any(String));
+    expect(queued.nextAttemptAt).toBe(now + getRetryDelay(1));
+
+    // Not retried before the backoff elapses
+    vi.mocked(global.fetch).mockClear();
+    await processQueuedMessages(env);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should deliver on a later attempt', async () => {
+    mockGmail(500);
+    await runProcessor();
+
+    mockGmail(200);
+    const result = await runProcessor();
+
+    expect(result.processed).toBe(1);
+    expect(await storedMessages('msg_')).toEqual([]);
+    expect(await listDeadLetters(env)).toEqual([]);
+  });
+
+  it('should dead-letter a message after the maximum attempts', async () => {
+    mockGmail(500);
+
+    for (let i = 0; i < 3; i++) {
+      await runProcessor();
+    }
+
+    expect(await storedMessages('msg_')).toEqual([]);
+    const deadLetters = await listDeadLetters(env);
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toMatchObject({ attempts: 3, failedAt: now });
+    expect(deadLetters[0]).not.toHaveProperty('message');
+  });
+
+  it('should requeue and purge dead letters', async () => {
+    mockGmail(500);
+    for (let i = 0; i < 3; i++) {
+      await runProcessor();
+    }
+    const [deadLetter] = await listDeadLetters(env);
+
+    expect(await requeueDeadLetter(deadLetter.id, env)).toBe(true);
+    expect(await requeueDeadLetter(deadLetter.id, env)).toBe(false);
+    const [queued] = await storedMessages('msg_');
+    expect(queued).toMatchObject({ id: deadLetter.id, attempts: 0 });
+    expect(await decryptMessage(queued.encryptedMessage, queued.id, env)).toBe('Hello');
+
+    mockGmail(200);
+    expect((await runProcessor()).processed).toBe(1);
+
+    await env.MESSAGE_QUEUE.put('dlq_other', JSON.stringify({ id: 'other', failedAt: now }));
+    expect(await purgeDeadLetters(env)).toBe(1);
+    expect(await listDeadLetters(env)).toEqual([]);
+  });
+});
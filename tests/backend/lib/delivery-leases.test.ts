@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { claimDelivery, releaseDelivery, markDelivered } from '../../../src/lib/delivery-leases';
+import { queueMessage, processQueuedMessages, deliverQueuedMessage } from '../../../src/lib/queue';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+const WEBHOOK_URL = 'https://hooks.example.com/feedback';
+
+describe('Delivery leases', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+  let now: number;
+
+  async function queueDue(): Promise<string> {
+    await queueMessage('Hello', env, ctx);
+    now += 60000;
+    const { keys } = await env.MESSAGE_QUEUE.list({ prefix: 'msg_' });
+    return keys[0].name.slice('msg_'.length);
+  }
+
+  function deliveries(): RequestInit[] {
+    return vi.mocked(global.fetch).mock.calls
+      .filter(([url]) => String(url) === WEBHOOK_URL)
+      .map(([, init]) => init!);
+  }
+
+  beforeEach(() => {
+    env = createMockEnv({
+      DELIVERY_CHANNEL: 'webhook',
+      DELIVERY_WEBHOOK_URL: WEBHOOK_URL,
+      DELIVERY_WEBHOOK_SECRET: 'webhook-secret',
+      QUEUE_DELAY_SECONDS: '60',
+    }) as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+    now = Date.now();
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    vi.mocked(global.fetch).mockClear().mockImplementation(async () => new Response('ok'));
+  });
+
+  afterEach(() => {
+    vi.mocked(Date.now).mockRestore();
+  });
+
+  it('should hand a message to one worker at a time until the lease is released or expires', async () => {
+    const first = await claimDelivery('message', env);
+    expect(first.token).toEqual(expect.any(String));
+    expect(await claimDelivery('message', env)).toEqual({ token: null, expiresAt: now + 5 * 60 * 1000 });
+
+    // Only the holder can release it
+    await releaseDelivery('message', 'someone-else', env);
+    expect((await claimDelivery('message', env)).token).toBeNull();
+    await releaseDelivery('message', first.token!, env);
+    expect((await claimDelivery('message', env)).token).toEqual(expect.any(String));
+
+    now += 5 * 60 * 1000 + 1;
+    expect((await claimDelivery('message', env)).token).toEqual(expect.any(String));
+  });
+
+  it('should send once when two sweeps overlap', async () => {
+    await queueDue();
+
+    const results = await Promise.all([processQueuedMessages(env), processQueuedMessages(env)]);
+
+    expect(deliveries()).toHaveLength(1);
+    expect(results.map(result => result.processed).sort()).toEqual([0, 1]);
+  });
+
+  it('should leave a leased message for the holder', async () => {
+    const id = await queueDue();
+    await claimDelivery(id, env);
+
+    expect(await deliverQueuedMessage(id, env)).toEqual({ status: 'leased', dueAt: now + 5 * 60 * 1000 });
+    expect(deliveries()).toHaveLength(0);
+  });
+
+  it('should not resend a message that was delivered before the worker stopped', async () => {
+    const id = await queueDue();
+    await markDelivered(id, env);
+
+    expect(await deliverQueuedMessage(id, env)).toEqual({ status: 'delivered' });
+    expect(deliveries()).toHaveLength(0);
+    expect((await env.MESSAGE_QUEUE.list({ prefix: 'msg_' })).keys).toEqual([]);
+  });
+
+  it('should mark deliveries and pass the message ID as the idempotency key', async () => {
+    const id = await queueDue();
+
+    await deliverQueuedMessage(id, env);
+
+    const [init] = deliveries();
+    expect((init.headers as Record<string, string>)['Idempotency-Key']).toBe(id);
+    expect(await env.MESSAGE_QUEUE.get(`delivered_${id}`)).not.toBeNull();
+    expect(await env.MESSAGE_QUEUE.get(`lease_${id}`)).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createDeliveryChannel,
+  getDefaultDeliveryConfig,
+  validateDeliveryConfig,
+  signWebhookPayload,
+} from '../../../src/lib/delivery';
+import { saveBox, getBoxDeliveryConfig } from '../../../src/lib/boxes';
+import { queueMessage, processQueuedMessages } from '../../../src/lib/queue';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+const SLACK_URL = 'https://hooks.slack.com/services/T000/B000/XXXX';
+
+function mockWebhooks() {
+  vi.mocked(global.fetch).mockImplementation(async () => new Response('ok'));
+}
+
+function sentRequests(): { url: string; headers: Record<string, string>; body: any }[] {
+  return vi.mocked(global.fetch).mock.calls.map(([url, init]) => ({
+    url: String(url),
+    headers: init!.headers as Record<string, string>,
+    body: JSON.parse(init!.body as string),
+  }));
+}
+
+describe('Delivery Channels', () => {
+  let env: Env;
+
+  beforeEach(() => {
+    env = createMockEnv() as unknown as Env;
+    mockWebhooks();
+  });
+
+  describe('config', () => {
+    it('should default to Gmail and the deployment recipient', () => {
+      expect(getDefaultDeliveryConfig(env)).toEqual({ channel: 'gmail', recipientEmail: 'default@example.com' });
+    });
+
+    it('should read the deployment channel from env', () => {
+      env.DELIVERY_CHANNEL = 'slack';
+      env.DELIVERY_WEBHOOK_URL = SLACK_URL;
+
+      expect(createDeliveryChannel(getDefaultDeliveryConfig(env), env).type).toBe('slack');
+    });
+
+    it('should reject incomplete configs', () => {
+      expect(validateDeliveryConfig({ channel: 'slack' })).toContain('https://');
+      expect(validateDeliveryConfig({ channel: 'slack', webhookUrl: 'http://example.com' })).toContain('https://');
+      expect(validateDeliveryConfig({ channel: 'webhook', webhookUrl: 'https://example.com' })).toContain('secret');
+      expect(validateDeliveryConfig({ channel: 'gmail' })).toContain('email');
+      expect(validateDeliveryConfig({ channel: 'pager' as any })).toContain('one of');
+      expect(() => createDeliveryChannel({ channel: 'discord' }, env)).toThrow('Invalid discord delivery config');
+    });
+
+    it('should use a box channel or fall back to its recipient email', () => {
+      const box = { id: 'eng', owner: 'Eng', title: 'Eng', createdAt: 0 };
+
+      expect(getBoxDeliveryConfig({ ...box, recipientEmail: 'eng@example.com' }))
+        .toEqual({ channel: 'gmail', recipientEmail: 'eng@example.com' });
+      expect(getBoxDeliveryConfig({ ...box, delivery: { channel: 'slack', webhookUrl: SLACK_URL } }))
+        .toMatchObject({ channel: 'slack', webhookUrl: SLACK_URL });
+    });
+  });
+
+  describe('channels', () => {
+    const message = { id: 'abc', message: 'Ping <!channel> & @everyone', boxId: 'eng', title: 'Eng Feedback' };
+
+    it('should sign generic webhook payloads', async () => {
+      const channel = createDeliveryChannel(
+        { channel: 'webhook', webhookUrl: 'https://example.com/hook', webhookSecret: 'shh' },
+        env
+      );
+
+      await channel.deliver(message);
+
+      const [request] = sentRequests();
+      expect(request.body).toEqual({ id: 'abc', boxId: 'eng', title: 'Eng Feedback', message: message.message });
+      const rawBody = vi.mocked(global.fetch).mock.calls[0][1]!.body as string;
+      const timestamp = request.headers['X-Signature-Timestamp'];
+      expect(request.headers['X-Signature-256']).toBe(`sha256=${await signWebhookPayload(rawBody, timestamp, 'shh')}`);
+    });
+
+    it('should escape Slack control sequences', async () => {
+      await createDeliveryChannel({ channel: 'slack', webhookUrl: SLACK_URL }, env).deliver(message);
+
+      expect(sentRequests()[0].body.text).toBe('*Eng Feedback*\nPing &lt;!channel&gt; &amp; @everyone');
+    });
+
+    it('should disable Discord mentions', async () => {
+      await createDeliveryChannel({ channel: 'discord', webhookUrl: 'https://discord.com/api/webhooks/1/x' }, env)
+        .deliver(message);
+
+      expect(sentRequests()[0].body).toEqual({
+        content: `**Eng Feedback**\n${message.message}`,
+        allowed_mentions: { parse: [] },
+      });
+    });
+
+    it('should send a long Discord message as one post with the text attached', async () => {
+      const channel = createDeliveryChannel({ channel: 'discord', webhookUrl: 'https://discord.com/api/webhooks/1/x' }, env);
+      const long = 'a'.repeat(2500);
+
+      await channel.deliver({ ...message, message: long });
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      const form = vi.mocked(global.fetch).mock.calls[0][1]!.body as FormData;
+      const payload = JSON.parse(form.get('payload_json') as string);
+      expect(payload.allowed_mentions).toEqual({ parse: [] });
+      expect(payload.content.length).toBeLessThanOrEqual(2000);
+      const file = form.get('files[0]') as File;
+      expect(file.name).toBe('message.txt');
+      expect(file.size).toBe(long.length);
+    });
+
+    it('should send Teams message cards', async () => {
+      await createDeliveryChannel({ channel: 'teams', webhookUrl: 'https://example.webhook.office.com/x' }, env)
+        .deliver(message);
+
+      expect(sentRequests()[0].body).toMatchObject({ '@type': 'MessageCard', title: 'Eng Feedback', text: message.message });
+    });
+
+    it('should throw on webhook errors so the queue can retry', async () => {
+      vi.mocked(global.fetch).mockResolvedValue(new Response('no_service', { status: 404 }));
+
+      await expect(createDeliveryChannel({ channel: 'slack', webhookUrl: SLACK_URL }, env).deliver(message))
+        .rejects.toThrow('Slack webhook error: 404 - no_service');
+    });
+  });
+
+  it('should deliver box messages through the box channel', async () => {
+    const ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+    const box = {
+      id: 'eng',
+      owner: 'Eng',
+      title: 'Eng Feedback',
+      delivery: { channel: 'slack' as const, webhookUrl: SLACK_URL },
+      deliveryDelaySeconds: 60,
+      createdAt: 0,
+    };
+    await saveBox(box, env);
+    await queueMessage('Hello team', env, ctx, false, box);
+
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 120000);
+    const result = await processQueuedMessages(env);
+    vi.mocked(Date.now).mockRestore();
+
+    expect(result.processed).toBe(1);
+    expect(sentRequests()).toEqual([expect.objectContaining({ url: SLACK_URL })]);
+  });
+});
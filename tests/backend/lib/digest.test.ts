@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { formatDigest, getDigestConfig, getNextDigestTime, DEFAULT_DIGEST_CONFIG } from '../../../src/lib/digest';
+import { queueMessage, processQueuedMessages } from '../../../src/lib/queue';
+import { saveBox } from '../../../src/lib/boxes';
+import { AIClient } from '../../../src/lib/ai-client';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+const WEBHOOK_URL = 'https://hooks.example.com/feedback';
+
+describe('Digest Delivery', () => {
+  let env: Env;
+
+  beforeEach(() => {
+    env = createMockEnv({
+      DELIVERY_CHANNEL: 'webhook',
+      DELIVERY_WEBHOOK_URL: WEBHOOK_URL,
+      DELIVERY_WEBHOOK_SECRET: 'webhook-secret',
+    }) as unknown as Env;
+  });
+
+  describe('getNextDigestTime', () => {
+    it('should send daily digests at the next send time', () => {
+      const config = { ...DEFAULT_DIGEST_CONFIG, time: '17:30' };
+
+      expect(getNextDigestTime(config, Date.parse('2026-03-10T08:00:00Z'))).toBe(Date.parse('2026-03-10T17:30:00Z'));
+      expect(getNextDigestTime(config, Date.parse('2026-03-10T17:30:00Z'))).toBe(Date.parse('2026-03-11T17:30:00Z'));
+    });
+
+    it('should send weekly digests on the configured day in the recipient time zone', () => {
+      // Mondays at 09:00 in Berlin (UTC+1 in winter)
+      const config = { ...DEFAULT_DIGEST_CONFIG, period: 'weekly' as const, dayOfWeek: 1, timeZone: 'Europe/Berlin' };
+
+      // Wednesday 2026-03-04
+      expect(getNextDigestTime(config, Date.parse('2026-03-04T12:00:00Z'))).toBe(Date.parse('2026-03-09T08:00:00Z'));
+      // Monday 2026-03-09, just after the send time
+      expect(getNextDigestTime(config, Date.parse('2026-03-09T08:00:00Z'))).toBe(Date.parse('2026-03-16T08:00:00Z'));
+    });
+  });
+
+  describe('getDigestConfig', () => {
+    it('should merge box settings over DELIVERY_DIGEST', () => {
+      expect(getDigestConfig(env)).toBeNull();
+
+      env.DELIVERY_DIGEST = JSON.stringify({ period: 'weekly' });
+      const box = { id: 'hr', digest: { summary: true } } as any;
+      expect(getDigestConfig(env, box)).toEqual({ ...DEFAULT_DIGEST_CONFIG, period: 'weekly', summary: true });
+    });
+
+    it('should reject invalid settings', async () => {
+      for (const config of ['nope', { period: 'monthly' }, { time: '9:00' }, { dayOfWeek: 7 }, { summary: 'yes' }]) {
+        env.DELIVERY_DIGEST = typeof config === 'string' ? config : JSON.stringify(config);
+        expect(() => getDigestConfig(env)).toThrow('Invalid DELIVERY_DIGEST');
+      }
+
+      const box = { id: 'hr', owner: 'HR', title: 'HR', recipientEmail: 'hr@example.com', createdAt: 0 };
+      await expect(saveBox({ ...box, digest: { period: 'hourly' as any } }, env)).rejects.toThrow('Box digest');
+    });
+  });
+
+  it('should number entries under the summary', () => {
+    const text = formatDigest([
+      { message: 'First' },
+      { message: 'Second', replyUrl: 'https://example.com/reply/abc' },
+    ], '- Workload');
+
+    expect(text).toBe(
+      '2 anonymous messages\n\nThemes:\n- Workload\n\n1. First\n\n2. Second\nReply anonymously: https://example.com/reply/abc'
+    );
+  });
+
+  describe('sending', () => {
+    const ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+    let now: number;
+
+    function deliveries(): any[] {
+      return vi.mocked(global.fetch).mock.calls
+        .filter(([url]) => String(url) === WEBHOOK_URL)
+        .map(([, init]) => ({ ...JSON.parse(init!.body as string), headers: init!.headers }));
+    }
+
+    async function queued(): Promise<any[]> {
+      const { keys } = await env.MESSAGE_QUEUE.list({ prefix: 'msg_' });
+      return Promise.all(keys.map(async key => JSON.parse((await env.MESSAGE_QUEUE.get(key.name))!)));
+    }
+
+    async function queueAt(time: string, text: string, box?: any): Promise<void> {
+      now = Date.parse(time);
+      await queueMessage(text, env, ctx, false, box);
+    }
+
+    beforeEach(() => {
+      env.DELIVERY_DIGEST = JSON.stringify({ time: '09:00' });
+      vi.spyOn(Date, 'now').mockImplementation(() => now);
+      vi.mocked(global.fetch).mockClear().mockImplementation(async () => new Response('ok'));
+      ctx.waitUntil.mockClear();
+    });
+
+    afterEach(() => {
+      vi.mocked(Date.now).mockRestore();
+    });
+
+    it('should send everything due as one numbered delivery', async () => {
+      await queueAt('2026-03-10T10:00:00Z', 'First');
+      await queueAt('2026-03-10T15:00:00Z', 'Second');
+      await queueAt('2026-03-11T08:00:00Z', 'Third');
+      expect(ctx.waitUntil).not.toHaveBeenCalled();
+
+      now = Date.parse('2026-03-11T08:55:00Z');
+      expect((await processQueuedMessages(env)).processed).toBe(0);
+
+      now = Date.parse('2026-03-11T09:05:00Z');
+      expect((await processQueuedMessages(env)).processed).toBe(3);
+
+      const [delivery, ...others] = deliveries();
+      expect(others).toEqual([]);
+      expect(delivery.message).toBe('3 anonymous messages\n\n1. First\n\n2. Second\n\n3. Third');
+      expect(delivery.digest).toEqual({ entries: [{ message: 'First' }, { message: 'Second' }, { message: 'Third' }] });
+      expect(delivery.headers['Idempotency-Key']).toMatch(/^digest-[0-9a-f]{32}$/);
+      expect(await queued()).toEqual([]);
+    });
+
+    it('should open with an AI summary when enabled, and send without one if it fails', async () => {
+      env.DELIVERY_DIGEST = JSON.stringify({ time: '09:00', summary: true });
+      const complete = vi.spyOn(AIClient.prototype, 'complete').mockResolvedValue('- Meetings run long');
+
+      await queueAt('2026-03-10T10:00:00Z', 'Too many meetings');
+      now = Date.parse('2026-03-11T09:05:00Z');
+      await processQueuedMessages(env);
+
+      expect(complete).toHaveBeenCalledWith('1. Too many meetings', expect.objectContaining({ systemPrompt: expect.any(String) }));
+      expect(deliveries()[0].message).toContain('Themes:\n- Meetings run long\n\n1. Too many meetings');
+
+      complete.mockRejectedValue(new Error('AI down'));
+      await queueAt('2026-03-11T10:00:00Z', 'Still too many');
+      now = Date.parse('2026-03-12T09:05:00Z');
+      expect((await processQueuedMessages(env)).processed).toBe(1);
+      expect(deliveries()[1].digest.summary).toBeUndefined();
+      complete.mockRestore();
+    });
+
+    it('should send a digest per box and retry a failed digest together', async () => {
+      const box = { id: 'hr', owner: 'HR', title: 'HR Feedback', recipientEmail: 'hr@example.com', createdAt: 0,
+        delivery: { channel: 'webhook' as const, webhookUrl: WEBHOOK_URL, webhookSecret: 'secret' } };
+      await saveBox(box, env);
+      await queueAt('2026-03-10T10:00:00Z', 'Default');
+      await queueAt('2026-03-10T11:00:00Z', 'HR one', box);
+      await queueAt('2026-03-10T12:00:00Z', 'HR two', box);
+      vi.mocked(global.fetch).mockImplementation(async () => new Response('down', { status: 500 }));
+
+      now = Date.parse('2026-03-11T09:05:00Z');
+      const result = await processQueuedMessages(env);
+
+      expect(deliveries().map(delivery => delivery.title).sort()).toEqual(['Anonymous Feedback', 'HR Feedback']);
+      expect(result.errors).toHaveLength(2);
+      expect((await queued()).every(message => message.digest && message.attempts === 1)).toBe(true);
+
+      vi.mocked(global.fetch).mockClear().mockImplementation(async () => new Response('ok'));
+      now += 10 * 60 * 1000;
+      expect((await processQueuedMessages(env)).processed).toBe(3);
+      expect(deliveries().find(delivery => delivery.boxId === 'hr').message).toBe('2 anonymous messages\n\n1. HR one\n\n2. HR two');
+    });
+
+    it('should take precedence over batching', async () => {
+      env.DELIVERY_BATCHING = JSON.stringify({ windows: ['12:00'] });
+
+      await queueAt('2026-03-10T10:00:00Z', 'Hello');
+
+      const [message] = await queued();
+      expect(message).toMatchObject({ digest: 'default', scheduledFor: Date.parse('2026-03-11T09:00:00Z') });
+      expect(message.batch).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { encryptMessage, decryptMessage } from '../../../src/lib/message-encryption';
+import { queueMessage, processQueuedMessages } from '../../../src/lib/queue';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+const WEBHOOK_URL = 'https://hooks.example.com/feedback';
+
+function randomKey(): string {
+  return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))));
+}
+
+describe('Message Encryption', () => {
+  let env: Env;
+
+  beforeEach(() => {
+    env = createMockEnv({
+      DELIVERY_CHANNEL: 'webhook',
+      DELIVERY_WEBHOOK_URL: WEBHOOK_URL,
+      DELIVERY_WEBHOOK_SECRET: 'webhook-secret',
+      MESSAGE_ENCRYPTION_KEYS: JSON.stringify({ first: randomKey() }),
+    }) as unknown as Env;
+    vi.mocked(global.fetch).mockClear().mockImplementation(async () => new Response('ok'));
+  });
+
+  it('should round-trip a message under the current key', async () => {
+    const encrypted = await encryptMessage('The roadmap keeps changing 🙃', 'message-1', env);
+
+    expect(encrypted.keyId).toBe('first');
+    expect(JSON.stringify(encrypted)).not.toContain('roadmap');
+    expect(await decryptMessage(encrypted, 'message-1', env)).toBe('The roadmap keeps changing 🙃');
+  });
+
+  it('should not decrypt a body moved to another message', async () => {
+    const encrypted = await encryptMessage('Hello', 'message-1', env);
+
+    await expect(decryptMessage(encrypted, 'message-2', env)).rejects.toThrow('could not be decrypted');
+  });
+
+  it('should keep decrypting old messages after the key is rotated', async () => {
+    const old = await encryptMessage('Before', 'message-1', env);
+
+    const keyring = { ...JSON.parse(env.MESSAGE_ENCRYPTION_KEYS!), second: randomKey() };
+    env.MESSAGE_ENCRYPTION_KEYS = JSON.stringify(keyring);
+    env.MESSAGE_ENCRYPTION_KEY_ID = 'second';
+
+    expect((await encryptMessage('After', 'message-2', env)).keyId).toBe('second');
+    expect(await decryptMessage(old, 'message-1', env)).toBe('Before');
+
+    delete keyring.first;
+    env.MESSAGE_ENCRYPTION_KEYS = JSON.stringify(keyring);
+    await expect(decryptMessage(old, 'message-1', env)).rejects.toThrow('Unknown message encryption key: first');
+  });
+
+  it('should reject missing and malformed keys', async () => {
+    env.MESSAGE_ENCRYPTION_KEYS = JSON.stringify({ first: randomKey(), second: randomKey() });
+    await expect(encryptMessage('Hello', 'id', env)).rejects.toThrow('MESSAGE_ENCRYPTION_KEY_ID is required');
+
+    env.MESSAGE_ENCRYPTION_KEYS = JSON.stringify({ short: btoa('too short') });
+    await expect(encryptMessage('Hello', 'id', env)).rejects.toThrow('must be 32 bytes');
+
+    env.MESSAGE_ENCRYPTION_KEYS = undefined;
+    env.ENVIRONMENT = 'production';
+    await expect(encryptMessage('Hello', 'id', env)).rejects.toThrow('MESSAGE_ENCRYPTION_KEYS is required');
+
+    // A deploy without ENVIRONMENT must not fall back to the development key
+    env.ENVIRONMENT = undefined as any;
+    await expect(encryptMessage('Hello', 'id', env)).rejects.toThrow('MESSAGE_ENCRYPTION_KEYS is required');
+  });
+
+  describe('queued messages', () => {
+    const ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+
+    async function makeDue(): Promise<void> {
+      const { keys } = await env.MESSAGE_QUEUE.list({ prefix: 'msg_' });
+      for (const key of keys) {
+        const queued = JSON.parse((await env.MESSAGE_QUEUE.get(key.name))!);
+        await env.MESSAGE_QUEUE.put(key.name, JSON.stringify({ ...queued, scheduledFor: 0 }));
+      }
+    }
+
+    function delivered(): string[] {
+      return vi.mocked(global.fetch).mock.calls
+        .filter(([url]) => String(url) === WEBHOOK_URL)
+        .map(([, init]) => JSON.parse(init!.body as string).message);
+    }
+
+    it('should store only ciphertext and decrypt for delivery', async () => {
+      await queueMessage('The standup runs long', env, ctx);
+
+      const [stored] = Array.from((env.MESSAGE_QUEUE as any).store.values()) as { value: string }[];
+      expect(stored.value).not.toContain('standup');
+      expect(JSON.parse(stored.value)).not.toHaveProperty('message');
+
+      await makeDue();
+      await processQueuedMessages(env);
+      expect(delivered()).toEqual(['The standup runs long']);
+    });
+
+    it('should still deliver plaintext records queued before encryption', async () => {
+      await env.MESSAGE_QUEUE.put('msg_legacy', JSON.stringify({ id: 'legacy', message: 'Old message', queuedAt: 0, scheduledFor: 0 }));
+
+      await processQueuedMessages(env);
+      expect(delivered()).toEqual(['Old message']);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getModerationConfig, moderateContent, ModerationError } from '../../../src/lib/moderation';
+import { PersonaTransformer } from '../../../src/lib/ai-persona-transformer';
+import { AIClient } from '../../../src/lib/ai-client';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+function completion(content: string) {
+  return {
+    id: 'test',
+    object: 'chat.completion',
+    created: 0,
+    model: 'test',
+    choices: [{ index: 0, message: { role: 'assistant' as const, content }, finish_reason: 'stop' }],
+  };
+}
+
+describe('Moderation', () => {
+  let env: Env;
+
+  beforeEach(() => {
+    env = createMockEnv({ AI_PROVIDER: 'echo' }) as unknown as Env;
+  });
+
+  function moderate(text: string) {
+    return moderateContent(text, getModerationConfig(env));
+  }
+
+  it('should allow hyperbole that used to be rejected', async () => {
+    expect(await moderate('This deadline will kill the team')).toEqual({ action: 'allow', reasons: [] });
+    expect(await moderate('I hate to say it, but the release was late')).toEqual({ action: 'allow', reasons: [] });
+  });
+
+  it('should flag sensitive words without blocking them', async () => {
+    const verdict = await moderate('People are going to quit if we kill remote work');
+
+    expect(verdict.action).toBe('flag');
+    expect(verdict.reasons).toEqual([{ check: 'terms', action: 'flag', code: 'flagged_term', match: 'kill' }]);
+  });
+
+  it('should block explicit threats', async () => {
+    const verdict = await moderate('If this happens again I will   kill him');
+
+    expect(verdict.action).toBe('block');
+    expect(verdict.reasons[0]).toMatchObject({ action: 'block', code: 'blocked_term', match: 'I will   kill' });
+  });
+
+  it('should block threats that contain an allowlisted phrase', async () => {
+    for (const text of ['I will kill the team lead tomorrow', 'I\'m going to kill the project manager']) {
+      const verdict = await moderate(text);
+
+      expect(verdict.action).toBe('block');
+      expect(verdict.reasons[0]).toMatchObject({ action: 'block', code: 'blocked_term' });
+    }
+  });
+
+  it('should apply custom terms and allowlist phrases', async () => {
+    env.MODERATION_TERMS = JSON.stringify({ block: ['useless idiot*'], flag: ['lawsuit'] });
+    env.MODERATION_ALLOWLIST = JSON.stringify(['kill the build']);
+
+    expect((await moderate('You useless idiots')).action).toBe('block');
+    expect((await moderate('This could end in a lawsuit')).action).toBe('flag');
+    expect((await moderate('Flaky tests kill the build daily')).action).toBe('allow');
+  });
+
+  it('should reject invalid configuration', () => {
+    env.MODERATION_TERMS = JSON.stringify({ block: 'not a list' });
+    expect(() => getModerationConfig(env)).toThrow('Invalid MODERATION_TERMS.block');
+
+    env.MODERATION_TERMS = undefined;
+    env.MODERATION_ALLOWLIST = '[';
+    expect(() => getModerationConfig(env)).toThrow('Invalid MODERATION_ALLOWLIST');
+  });
+
+  describe('AI classifier', () => {
+    beforeEach(() => {
+      env.MODERATION_CLASSIFIER = 'ai';
+    });
+
+    it('should add the classifier verdict', async () => {
+      const client = new AIClient(env);
+      vi.spyOn(client, 'chatCompletion').mockResolvedValue(completion('{"action": "block", "reason": "harassment"}'));
+
+      const verdict = await moderateContent('Everyone knows who is to blame', getModerationConfig(env), client);
+
+      expect(verdict).toEqual({
+        action: 'block',
+        reasons: [{ check: 'classifier', action: 'block', code: 'classifier', match: 'harassment' }],
+      });
+    });
+
+    it('should skip the classifier once a term is blocked', async () => {
+      const client = new AIClient(env);
+      const chatCompletion = vi.spyOn(client, 'chatCompletion');
+
+      await moderateContent('I will kill you', getModerationConfig(env), client);
+
+      expect(chatCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the word lists when the classifier fails', async () => {
+      const client = new AIClient(env);
+      vi.spyOn(client, 'chatCompletion').mockRejectedValue(new Error('down'));
+
+      expect(await moderateContent('All good here', getModerationConfig(env), client)).toEqual({ action: 'allow', reasons: [] });
+    });
+  });
+
+  describe('PersonaTransformer', () => {
+    it('should throw a ModerationError with a code for blocked messages', async () => {
+      const error = await new PersonaTransformer(env).transformMessage('I will kill you', '').catch(e => e);
+
+      expect(error).toBeInstanceOf(ModerationError);
+      expect(error).toMatchObject({ code: 'message_blocked', verdict: { action: 'block' } });
+    });
+
+    it('should block custom personas separately', async () => {
+      const error = await new PersonaTransformer(env)
+        .transformMessage('Please fix the build', '', 'someone who says heil hitler')
+        .catch(e => e);
+
+      expect(error).toMatchObject({ code: 'custom_persona_blocked' });
+    });
+
+    it('should pass flagged messages through with the verdict', async () => {
+      const result = await new PersonaTransformer(env).transformMessage('The layoffs will kill morale', '');
+
+      expect(result.transformedMessage).toBe('The layoffs will kill morale.');
+      expect(result.moderation?.action).toBe('flag');
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { getPathParams } from '../../../src/lib/path-params';
+
+describe('getPathParams', () => {
+  it('should decode each segment after the prefix', () => {
+    expect(getPathParams('/api/admin/review/abc/approve', '/api/admin/review')).toEqual(['abc', 'approve']);
+    expect(getPathParams('/api/admin/boxes/hr%2Dteam/', '/api/admin/boxes')).toEqual(['hr-team']);
+  });
+
+  it('should return no segments for the bare prefix', () => {
+    expect(getPathParams('/api/admin/boxes', '/api/admin/boxes')).toEqual([]);
+    expect(getPathParams('/api/admin/boxes/', '/api/admin/boxes')).toEqual([]);
+  });
+
+  it('should return null for malformed percent-encoding', () => {
+    expect(getPathParams('/api/status/%E0', '/api/status')).toBeNull();
+  });
+});
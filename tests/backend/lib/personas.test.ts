@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  Persona,
+  PersonaError,
+  DEFAULT_PERSONAS,
+  getPersona,
+  requirePersona,
+  savePersona,
+  listPersonas,
+  listEnabledPersonas,
+  isValidPersonaKey,
+} from '../../../src/lib/personas';
+import { PersonaTransformer, buildPersonaMessages, ANONYMIZE_PERSONA } from '../../../src/lib/ai-persona-transformer';
+import { AIClient } from '../../../src/lib/ai-client';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+function createPersona(overrides: Partial<Persona> = {}): Persona {
+  return {
+    key: 'neutral-corporate',
+    name: 'Neutral Corporate',
+    description: 'Plain, neutral workplace language',
+    systemPrompt: 'Rewrite in neutral corporate language. Output only the rewritten message.',
+    temperature: 0.4,
+    examples: [],
+    enabled: true,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('Persona Registry', () => {
+  let env: Env;
+
+  beforeEach(() => {
+    env = createMockEnv() as unknown as Env;
+  });
+
+  it('should seed the presets on first use', async () => {
+    const personas = await listPersonas(env);
+
+    expect(personas.map(persona => persona.key)).toEqual(DEFAULT_PERSONAS.map(preset => preset.key));
+    expect(env.MESSAGE_QUEUE.put).toHaveBeenCalledWith('persona_super-nice', expect.any(String));
+  });
+
+  it('should not overwrite edited presets when seeding', async () => {
+    await env.MESSAGE_QUEUE.put('persona_super-nice', JSON.stringify(createPersona({ key: 'super-nice', name: 'Edited' })));
+
+    expect((await getPersona('super-nice', env))?.name).toBe('Edited');
+  });
+
+  it('should keep a disabled preset disabled', async () => {
+    const preset = await requirePersona('barely-literate', env);
+    await savePersona({ ...preset, enabled: false }, env);
+
+    expect((await listEnabledPersonas(env)).map(persona => persona.key)).not.toContain('barely-literate');
+    await expect(requirePersona('barely-literate', env)).rejects.toBeInstanceOf(PersonaError);
+    expect(await getPersona('barely-literate', env)).toMatchObject({ enabled: false });
+  });
+
+  it('should add new personas after the presets', async () => {
+    await listPersonas(env);
+    await savePersona(createPersona(), env);
+
+    const keys = (await listPersonas(env)).map(persona => persona.key);
+    expect(keys[keys.length - 1]).toBe('neutral-corporate');
+  });
+
+  it('should validate personas', async () => {
+    expect(isValidPersonaKey('custom')).toBe(false);
+    expect(isValidPersonaKey('Neutral')).toBe(false);
+    await expect(savePersona(createPersona({ temperature: 2 }), env)).rejects.toBeInstanceOf(PersonaError);
+    await expect(savePersona(createPersona({ systemPrompt: '' }), env)).rejects.toBeInstanceOf(PersonaError);
+    await expect(savePersona(createPersona({ examples: [{ input: 'a' }] as any }), env)).rejects.toBeInstanceOf(PersonaError);
+  });
+
+  describe('buildPersonaMessages', () => {
+    const examples = Array.from({ length: 5 }, (_, i) => ({ input: `in ${i}`, output: `out ${i}` }));
+
+    it('should cap examples at the default', () => {
+      const messages = buildPersonaMessages({ systemPrompt: 'Prompt', examples, temperature: 0.5 }, 'msg');
+
+      expect(messages).toHaveLength(1 + 3 * 2 + 1);
+      expect(messages[messages.length - 1]).toEqual({ role: 'user', content: 'msg' });
+    });
+
+    it('should honour the persona cap', () => {
+      const none = buildPersonaMessages({ systemPrompt: 'Prompt', examples, temperature: 0.5, maxExamples: 0 }, 'msg');
+      const one = buildPersonaMessages({ systemPrompt: 'Prompt', examples, temperature: 0.5, maxExamples: 1 }, 'msg');
+
+      expect(none.map(m => m.role)).toEqual(['system', 'user']);
+      expect(one.map(m => m.content)).toEqual(['Prompt', 'in 0', 'out 0', 'msg']);
+    });
+
+    it('should reject an invalid cap', async () => {
+      await expect(savePersona(createPersona({ maxExamples: 11 }), env)).rejects.toBeInstanceOf(PersonaError);
+      await expect(savePersona(createPersona({ maxExamples: 1.5 }), env)).rejects.toBeInstanceOf(PersonaError);
+    });
+  });
+
+  describe('PersonaTransformer', () => {
+    beforeEach(() => {
+      env.AI_PROVIDER = 'echo';
+    });
+
+    it('should transform with a persona added to the registry', async () => {
+      await savePersona(createPersona(), env);
+
+      const result = await new PersonaTransformer(env).transformMessage('hello there', 'neutral-corporate');
+
+      expect(result).toMatchObject({ persona: 'neutral-corporate', transformedMessage: 'Hello there.' });
+      expect(result.fallbackUsed).toBeUndefined();
+    });
+
+    it('should send persona examples as few-shot turns', async () => {
+      const examples = [
+        { input: 'this is bad', output: 'This needs work.' },
+        { input: 'love it', output: 'This is appreciated.' },
+      ];
+      await savePersona(createPersona({ examples }), env);
+      const chatCompletion = vi.spyOn(AIClient.prototype, 'chatCompletion');
+
+      await new PersonaTransformer(env).transformMessage('hello there', 'neutral-corporate');
+
+      expect(chatCompletion.mock.calls[0][0].messages).toEqual([
+        { role: 'system', content: createPersona().systemPrompt },
+        { role: 'user', content: 'this is bad' },
+        { role: 'assistant', content: 'This needs work.' },
+        { role: 'user', content: 'love it' },
+        { role: 'assistant', content: 'This is appreciated.' },
+        { role: 'user', content: 'hello there' },
+      ]);
+      chatCompletion.mockRestore();
+    });
+
+    it('should anonymize when no persona is chosen', async () => {
+      const chatCompletion = vi.spyOn(AIClient.prototype, 'chatCompletion');
+
+      const result = await new PersonaTransformer(env).transformMessage('this is SOOOO broken!!! 😡', '');
+
+      expect(result).toMatchObject({ persona: 'anonymize', transformedMessage: 'This is soooo broken!' });
+      expect(chatCompletion.mock.calls[0][0].messages[0]).toEqual({ role: 'system', content: ANONYMIZE_PERSONA.systemPrompt });
+      chatCompletion.mockRestore();
+    });
+
+    it('should still normalise style when the AI is unavailable', async () => {
+      const chatCompletion = vi.spyOn(AIClient.prototype, 'chatCompletion').mockRejectedValue(new Error('down'));
+
+      const result = await new PersonaTransformer(env).transformMessage('omg 🙄 no...', '');
+
+      expect(result).toMatchObject({ persona: 'anonymize', transformedMessage: 'Omg no.', fallbackUsed: true });
+      chatCompletion.mockRestore();
+    });
+
+    it('should fall back rather than return the input when the AI output is blocked', async () => {
+      const chatCompletion = vi.spyOn(AIClient.prototype, 'chatCompletion').mockResolvedValue({
+        id: 'test',
+        object: 'chat.completion',
+        created: 0,
+        model: 'echo',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'I will kill the release.' }, finish_reason: 'stop' }],
+      });
+
+      const result = await new PersonaTransformer(env).transformMessage('the release plan is rushed', '');
+
+      expect(result.fallbackUsed).toBe(true);
+      chatCompletion.mockRestore();
+    });
+
+    it('should reject disabled personas', async () => {
+      await savePersona(createPersona({ enabled: false }), env);
+
+      await expect(new PersonaTransformer(env).transformMessage('hello', 'neutral-corporate'))
+        .rejects.toThrow('Unknown persona: neutral-corporate');
+    });
+  });
+});
@@ -331,7 +331,11 @@ describe('Queue Service', () => {
     });
 
     it('should use 1-6 hour delay in production environment', async () => {
-      const prodEnv = { ...mockEnv, ENVIRONMENT: 'production' as const };
+      const prodEnv = {
+        ...mockEnv,
+        ENVIRONMENT: 'production' as const,
+        MESSAGE_ENCRYPTION_KEYS: JSON.stringify({ test: btoa('k'.repeat(32)) }),
+      };
       await queueMessage('Test message', prodEnv, mockCtx, false);
 
       // Should queue for delayed delivery
@@ -349,7 +353,11 @@ describe('Queue Service', () => {
     });
 
     it('should default to production delay for unknown environments', async () => {
-      const unknownEnv = { ...mockEnv, ENVIRONMENT: 'staging' as any };
+      const unknownEnv = {
+        ...mockEnv,
+        ENVIRONMENT: 'staging' as any,
+        MESSAGE_ENCRYPTION_KEYS: JSON.stringify({ test: btoa('k'.repeat(32)) }),
+      };
       await queueMessage('Test message', unknownEnv, mockCtx, false);
 
       // Should queue for delayed delivery
@@ -363,7 +371,7 @@ describe('Queue Service', () => {
       expect(mockEnv.MESSAGE_QUEUE.put).toHaveBeenCalledWith(
         expect.stringMatching(/^msg_/),
         expect.any(String),
-        { expirationTtl: 24 * 60 * 60 }
+        { expirationTtl: 24 * 60 * 60, metadata: { dueAt: expect.any(Number) } }
       );
     });
   });
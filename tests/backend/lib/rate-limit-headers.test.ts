@@ -0,0 +1,57 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { rateLimitHeaders, rateLimitExceededHeaders } from '../../../src/lib/rate-limit-headers';
+import { getRateLimiter } from '../../../src/lib/rate-limit-policies';
+import { handleSubmission } from '../../../src/api/submit';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+describe('Rate limit headers', () => {
+  const now = 1_700_000_000_000;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should give the reset as seconds from now', () => {
+    vi.useFakeTimers({ now });
+
+    expect(rateLimitHeaders({ limit: 10, remaining: 7, reset: now + 42_500 })).toEqual({
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '7',
+      'RateLimit-Reset': '43',
+    });
+  });
+
+  it('should add Retry-After when the limit is exceeded', () => {
+    vi.useFakeTimers({ now });
+
+    expect(rateLimitExceededHeaders(3, now + 3_600_000)).toEqual({
+      'RateLimit-Limit': '3',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '3600',
+      'Retry-After': '3600',
+    });
+    expect(rateLimitExceededHeaders(3, now - 1000)['Retry-After']).toBe('1');
+  });
+
+  it('should send them on a rate-limited submission', async () => {
+    const env = createMockEnv() as unknown as Env;
+    const request = () => new Request('http://localhost/api/submit', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'CF-Connecting-IP': '10.0.0.1', 'X-Session-ID': 'session123' },
+      body: JSON.stringify({ message: 'Hello', sessionId: 'session123' }),
+    });
+
+    const submit = getRateLimiter('submit', env);
+    for (let i = 0; i < 3; i++) {
+      await submit.checkLimit(await submit.generateKey(request(), env), env);
+    }
+
+    const response = await handleSubmission(request(), env, { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('RateLimit-Limit')).toBe('3');
+    expect(response.headers.get('RateLimit-Remaining')).toBe('0');
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(3500);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getRateLimitPolicies, getRateLimiter, DEFAULT_RATE_LIMIT_POLICIES } from '../../../src/lib/rate-limit-policies';
+import { RateLimitError } from '../../../src/lib/rate-limiter';
+import { handleRateLimitStatus } from '../../../src/api/rate-limit-status';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+describe('Rate limit policies', () => {
+  let env: Env;
+
+  const request = () => new Request('http://localhost/api/preview', {
+    headers: { 'CF-Connecting-IP': '10.0.0.1', 'X-Session-ID': 'session123' },
+  });
+
+  beforeEach(() => {
+    env = createMockEnv() as unknown as Env;
+  });
+
+  it('should use the defaults when RATE_LIMIT_POLICIES is unset', () => {
+    expect(getRateLimitPolicies(env)).toEqual(DEFAULT_RATE_LIMIT_POLICIES);
+    expect(getRateLimitPolicies(env).submit).toEqual({ windowMs: 3600000, maxRequests: 3 });
+  });
+
+  it('should override individual fields from RATE_LIMIT_POLICIES', () => {
+    env.RATE_LIMIT_POLICIES = JSON.stringify({ submit: { maxRequests: 5 } });
+
+    expect(getRateLimitPolicies(env).submit).toEqual({ windowMs: 3600000, maxRequests: 5 });
+    expect(getRateLimitPolicies(env).preview).toEqual(DEFAULT_RATE_LIMIT_POLICIES.preview);
+  });
+
+  it('should reject invalid policies', () => {
+    env.RATE_LIMIT_POLICIES = 'not json';
+    expect(() => getRateLimitPolicies(env)).toThrow('Invalid RATE_LIMIT_POLICIES');
+
+    env.RATE_LIMIT_POLICIES = JSON.stringify({ upload: { maxRequests: 1 } });
+    expect(() => getRateLimitPolicies(env)).toThrow('unknown policy "upload"');
+
+    env.RATE_LIMIT_POLICIES = JSON.stringify({ chat: { maxRequests: 0 } });
+    expect(() => getRateLimitPolicies(env)).toThrow('"chat" needs a whole maxRequests');
+  });
+
+  it('should reject windows shorter than the KV minimum expiration', () => {
+    env.RATE_LIMIT_POLICIES = JSON.stringify({ preview: { windowMs: 10000 } });
+    expect(() => getRateLimitPolicies(env)).toThrow('windowMs of at least 60000');
+
+    env.RATE_LIMIT_POLICIES = JSON.stringify({ preview: { windowMs: 60000 } });
+    expect(getRateLimitPolicies(env).preview.windowMs).toBe(60000);
+  });
+
+  it('should count each endpoint in its own bucket', async () => {
+    const preview = getRateLimiter('preview', env);
+    const submit = getRateLimiter('submit', env);
+    expect(await preview.generateKey(request(), env)).toMatch(/^rate_limit:preview:[0-9a-f]{32}$/);
+
+    for (let i = 0; i < 10; i++) {
+      await preview.checkLimit(await preview.generateKey(request(), env), env);
+    }
+
+    await expect(preview.checkLimit(await preview.generateKey(request(), env), env)).rejects.toThrow(RateLimitError);
+    await expect(submit.checkLimit(await submit.generateKey(request(), env), env)).resolves.toMatchObject({ remaining: 2, limit: 3 });
+  });
+
+  it('should report every bucket from /api/rate-limit-status', async () => {
+    const submit = getRateLimiter('submit', env);
+    await submit.checkLimit(await submit.generateKey(request(), env), env);
+
+    const response = await handleRateLimitStatus(request(), env, { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any);
+    const data = await response.json() as any;
+
+    expect(data.buckets).toEqual({
+      preview: { remaining: 10, limit: 10, windowMs: 60000, reset: expect.any(Number) },
+      submit: { remaining: 2, limit: 3, windowMs: 3600000, reset: expect.any(Number) },
+      chat: { remaining: 20, limit: 20, windowMs: 60000, reset: expect.any(Number) },
+    });
+    expect(data).toMatchObject({ remaining: 10, limit: 10 });
+  });
+});
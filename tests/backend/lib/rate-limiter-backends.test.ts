@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  RateLimiter,
+  RateLimitError,
+  createRateLimitBackend,
+  DurableObjectRateLimitBackend,
+  KVRateLimitBackend,
+  NativeRateLimitBackend,
+} from '../../../src/lib/rate-limiter';
+import { RateLimiterDurableObject } from '../../../src/lib/rate-limiter-object';
+import { rateLimitHeaders } from '../../../src/lib/rate-limit-headers';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+// In-memory stand-ins for a Durable Object namespace, one object per name
+function createMockDurableObjectNamespace() {
+  const objects = new Map<string, RateLimiterDurableObject>();
+
+  const createState = () => {
+    const storage = new Map<string, unknown>();
+    return {
+      blockConcurrencyWhile: (callback: () => Promise<void>) => callback(),
+      storage: {
+        get: async (key: string) => storage.get(key),
+        put: async (key: string, value: unknown) => { storage.set(key, value); },
+        deleteAll: async () => { storage.clear(); },
+        setAlarm: vi.fn(),
+      },
+    };
+  };
+
+  return {
+    idFromName: (name: string) => name,
+    get: (id: string) => {
+      if (!objects.has(id)) {
+        objects.set(id, new RateLimiterDurableObject(createState() as unknown as DurableObjectState));
+      }
+      const object = objects.get(id)!;
+      return { fetch: (url: string, init: RequestInit) => object.fetch(new Request(url, init)) };
+    },
+  };
+}
+
+describe('Rate limit backends', () => {
+  let env: Env;
+
+  beforeEach(() => {
+    env = createMockEnv() as unknown as Env;
+  });
+
+  describe('createRateLimitBackend', () => {
+    it('should use KV when no Durable Object is bound', () => {
+      expect(createRateLimitBackend(env)).toBeInstanceOf(KVRateLimitBackend);
+    });
+
+    it('should prefer the Durable Object when it is bound', () => {
+      env.RATE_LIMITER_DO = createMockDurableObjectNamespace() as unknown as DurableObjectNamespace;
+      expect(createRateLimitBackend(env)).toBeInstanceOf(DurableObjectRateLimitBackend);
+    });
+
+    it('should honour RATE_LIMIT_BACKEND', () => {
+      env.RATE_LIMIT_BACKEND = 'native';
+      expect(createRateLimitBackend(env)).toBeInstanceOf(NativeRateLimitBackend);
+    });
+
+    it('should reject a backend whose binding is missing', () => {
+      env.RATE_LIMIT_BACKEND = 'durable-object';
+      expect(() => createRateLimitBackend(env)).toThrow('RATE_LIMITER_DO binding is missing');
+    });
+  });
+
+  describe('Durable Object', () => {
+    const config = { windowMs: 60000, maxRequests: 10 };
+
+    beforeEach(() => {
+      env.RATE_LIMITER_DO = createMockDurableObjectNamespace() as unknown as DurableObjectNamespace;
+    });
+
+    it('should not let a concurrent burst exceed the limit', async () => {
+      const limiter = new RateLimiter(config);
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 15 }, () => limiter.checkLimit('rate_limit:1.2.3.4:burst', env))
+      );
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(10);
+      const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      expect(rejected).toHaveLength(5);
+      expect(rejected.every(result => result.reason instanceof RateLimitError)).toBe(true);
+    });
+
+    it('should slide the window instead of resetting it all at once', async () => {
+      const backend = createRateLimitBackend(env);
+      const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      await backend.hit('key', { windowMs: 1000, maxRequests: 2 });
+      now.mockReturnValue(1_000_600);
+      await backend.hit('key', { windowMs: 1000, maxRequests: 2 });
+
+      expect(await backend.hit('key', { windowMs: 1000, maxRequests: 2 }))
+        .toEqual({ allowed: false, count: 2, reset: 1_001_000 });
+
+      // The first request has left the window, the second has not
+      now.mockReturnValue(1_001_100);
+      expect(await backend.hit('key', { windowMs: 1000, maxRequests: 2 }))
+        .toEqual({ allowed: true, count: 2, reset: 1_001_600 });
+    });
+
+    it('should report status without counting and keep keys separate', async () => {
+      const limiter = new RateLimiter(config);
+      await limiter.checkLimit('a', env);
+      await limiter.checkLimit('a', env);
+
+      expect((await limiter.getStatus('a', env)).remaining).toBe(8);
+      expect((await limiter.getStatus('a', env)).remaining).toBe(8);
+      expect((await limiter.getStatus('b', env)).remaining).toBe(10);
+
+      await limiter.resetLimit('a', env);
+      expect((await limiter.getStatus('a', env)).remaining).toBe(10);
+    });
+  });
+
+  describe('native binding', () => {
+    it('should count requests with the RATE_LIMITER binding', async () => {
+      env.RATE_LIMIT_BACKEND = 'native';
+      env.RATE_LIMITER.limit = vi.fn()
+        .mockResolvedValueOnce({ success: true })
+        .mockResolvedValueOnce({ success: false });
+      const limiter = new RateLimiter();
+
+      await expect(limiter.checkLimit('rate_limit:1.2.3.4:s', env)).resolves.toMatchObject({ limit: 10 });
+      await expect(limiter.checkLimit('rate_limit:1.2.3.4:s', env)).rejects.toThrow(RateLimitError);
+      expect(env.RATE_LIMITER.limit).toHaveBeenCalledWith({ key: 'rate_limit:1.2.3.4:s' });
+    });
+
+    it('should not report a remaining count it cannot know', async () => {
+      env.RATE_LIMIT_BACKEND = 'native';
+      env.RATE_LIMITER.limit = vi.fn().mockResolvedValue({ success: true });
+      const limiter = new RateLimiter();
+
+      expect((await limiter.checkLimit('rate_limit:1.2.3.4:s', env)).remaining).toBeUndefined();
+      expect((await limiter.getStatus('rate_limit:1.2.3.4:s', env)).remaining).toBeUndefined();
+      expect(rateLimitHeaders(await limiter.checkLimit('rate_limit:1.2.3.4:s', env))).not.toHaveProperty('RateLimit-Remaining');
+    });
+  });
+});
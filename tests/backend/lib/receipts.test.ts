@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createReceipt, getReceiptStatus, setReceiptStatus } from '../../../src/lib/receipts';
+import { queueMessage, processQueuedMessages, requeueDeadLetter, DEAD_LETTER_KEY_PREFIX } from '../../../src/lib/queue';
+import { holdForReview, approveReviewMessage, rejectReviewMessage } from '../../../src/lib/review';
+import { handleSubmission } from '../../../src/api/submit';
+import { handleGetStatus } from '../../../src/api/status';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+const WEBHOOK_URL = 'https://hooks.example.com/feedback';
+
+describe('Submission Receipts', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+
+  beforeEach(() => {
+    env = createMockEnv({
+      DELIVERY_CHANNEL: 'webhook',
+      DELIVERY_WEBHOOK_URL: WEBHOOK_URL,
+      DELIVERY_WEBHOOK_SECRET: 'webhook-secret',
+      QUEUE_MAX_ATTEMPTS: '1',
+    }) as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+    vi.mocked(global.fetch).mockClear().mockImplementation(async () => new Response('ok'));
+  });
+
+  async function makeDue(): Promise<void> {
+    const { keys } = await env.MESSAGE_QUEUE.list({ prefix: 'msg_' });
+    for (const key of keys) {
+      const queued = JSON.parse((await env.MESSAGE_QUEUE.get(key.name))!);
+      await env.MESSAGE_QUEUE.put(key.name, JSON.stringify({ ...queued, scheduledFor: 0 }));
+    }
+  }
+
+  it('should issue unguessable codes stored only as a hash', async () => {
+    const first = await createReceipt();
+    const second = await createReceipt();
+
+    expect(first.code).toMatch(/^[0-9a-f]{32}$/);
+    expect(first.code).not.toBe(second.code);
+    expect(first.receiptId).not.toContain(first.code);
+
+    await setReceiptStatus(first.receiptId, 'queued', env);
+    expect(await getReceiptStatus(first.code.toUpperCase(), env)).toBe('queued');
+    expect(await getReceiptStatus(first.receiptId, env)).toBeNull();
+    expect(await getReceiptStatus('not-a-code', env)).toBeNull();
+  });
+
+  it('should follow a message from queued to delivered', async () => {
+    const { code, receiptId } = await createReceipt();
+    await queueMessage('Hello', env, ctx, false, undefined, { receiptId });
+    expect(await getReceiptStatus(code, env)).toBe('queued');
+
+    await makeDue();
+    await processQueuedMessages(env);
+    expect(await getReceiptStatus(code, env)).toBe('delivered');
+  });
+
+  it('should report dead letters as failed until requeued', async () => {
+    vi.mocked(global.fetch).mockImplementation(async () => new Response('down', { status: 500 }));
+    const { code, receiptId } = await createReceipt();
+    await queueMessage('Hello', env, ctx, false, undefined, { receiptId });
+
+    await makeDue();
+    await processQueuedMessages(env);
+    expect(await getReceiptStatus(code, env)).toBe('failed');
+
+    const { keys } = await env.MESSAGE_QUEUE.list({ prefix: DEAD_LETTER_KEY_PREFIX });
+    await requeueDeadLetter(keys[0].name.slice(DEAD_LETTER_KEY_PREFIX.length), env);
+    expect(await getReceiptStatus(code, env)).toBe('queued');
+  });
+
+  it('should report held messages and the reviewer decision', async () => {
+    const approved = await createReceipt();
+    const rejected = await createReceipt();
+    const approvedId = await holdForReview('One', undefined, env, undefined, { receiptId: approved.receiptId });
+    const rejectedId = await holdForReview('Two', undefined, env, undefined, { receiptId: rejected.receiptId });
+    expect(await getReceiptStatus(approved.code, env)).toBe('held');
+
+    await approveReviewMessage(approvedId, env, ctx);
+    await rejectReviewMessage(rejectedId, env);
+
+    expect(await getReceiptStatus(approved.code, env)).toBe('queued');
+    expect(await getReceiptStatus(rejected.code, env)).toBe('failed');
+  });
+
+  describe('GET /api/status/:receipt', () => {
+    function getStatus(receipt: string): Promise<Response> {
+      return handleGetStatus(new Request(`http://localhost/api/status/${receipt}`), env, ctx);
+    }
+
+    it('should return the status of a submission without timestamps', async () => {
+      env.AI_PROVIDER = 'echo';
+      const submitted = await handleSubmission(new Request('http://localhost/api/submit', {
+        method: 'POST',
+        body: JSON.stringify({ message: 'The standup runs long', sessionId: 'test' }),
+      }), env, ctx);
+      const { receipt } = await submitted.json() as any;
+
+      const response = await getStatus(receipt);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Cache-Control')).toBe('no-store');
+      expect(await response.json()).toEqual({ status: 'queued' });
+    });
+
+    it('should 404 unknown receipts', async () => {
+      expect((await getStatus((await createReceipt()).code)).status).toBe(404);
+      expect((await getStatus('nope')).status).toBe(404);
+    });
+
+    it('should reject malformed percent-encoding with 400', async () => {
+      expect((await getStatus('%E0')).status).toBe(400);
+    });
+  });
+});
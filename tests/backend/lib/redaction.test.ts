@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getRedactionPatterns, redactPII, mergeRedactions } from '../../../src/lib/redaction';
+import { PersonaTransformer } from '../../../src/lib/ai-persona-transformer';
+import { AIClient } from '../../../src/lib/ai-client';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+describe('Redaction', () => {
+  let env: Env;
+
+  beforeEach(() => {
+    env = createMockEnv() as unknown as Env;
+  });
+
+  function redact(text: string) {
+    return redactPII(text, getRedactionPatterns(env));
+  }
+
+  it('should redact emails, links and IP addresses', () => {
+    const result = redact('Mail jane.doe@example.com or see https://intranet.example.com/u/jdoe. From 10.0.0.12');
+
+    expect(result.text).toBe('Mail [email] or see [link]. From [ip address]');
+    expect(result.redactions).toEqual([
+      { type: 'email', text: 'jane.doe@example.com' },
+      { type: 'url', text: 'https://intranet.example.com/u/jdoe' },
+      { type: 'ip-address', text: '10.0.0.12' },
+    ]);
+  });
+
+  it('should redact phone numbers', () => {
+    expect(redact('Call me on +1 (555) 123-4567 or 07700 900123').text).toBe('Call me on [phone] or [phone]');
+  });
+
+  it('should only redact card numbers that pass the Luhn check', () => {
+    expect(redact('Card 4111 1111 1111 1111').text).toBe('Card [card number]');
+    expect(redact('Order 1234 5678 9012 3456').redactions.map(r => r.type)).not.toContain('credit-card');
+  });
+
+  it('should leave plain large numbers alone', () => {
+    const text = 'We reached 1000000 users and 25000000 page views.';
+    expect(redact(text)).toEqual({ text, redactions: [] });
+    expect(redact('Text +44 7700900123 or (020)79460000').text).toBe('Text [phone] or [phone]');
+  });
+
+  it('should leave short numbers and years alone', () => {
+    const text = 'We shipped 3 releases in 2024 and closed 150 tickets.';
+    expect(redact(text)).toEqual({ text, redactions: [] });
+  });
+
+  it('should redact a sign-off name at the end of the message', () => {
+    expect(redact('The rota is unfair.\n\nThanks,\nJane Doe').text).toBe('The rota is unfair.\n\nThanks,\n[name]');
+    expect(redact('Please fix the build\n- JD').text).toBe('Please fix the build\n- [name]');
+    expect(redact('Ship the plan - Q3').redactions).toEqual([]);
+    expect(redact('Thanks for listening').redactions).toEqual([]);
+  });
+
+  it('should apply custom patterns from REDACTION_PATTERNS', () => {
+    env.REDACTION_PATTERNS = JSON.stringify({ 'employee ID': '\\bEMP-\\d{6}\\b' });
+
+    expect(redact('I am emp-123456 on team 4').text).toBe('I am [employee ID] on team 4');
+  });
+
+  it('should reject invalid custom patterns', () => {
+    env.REDACTION_PATTERNS = 'not json';
+    expect(() => getRedactionPatterns(env)).toThrow('Invalid REDACTION_PATTERNS');
+
+    env.REDACTION_PATTERNS = JSON.stringify({ broken: '(' });
+    expect(() => getRedactionPatterns(env)).toThrow('"broken" is not a valid regular expression');
+  });
+
+  it('should merge duplicate redactions', () => {
+    const email = { type: 'email', text: 'a@example.com' };
+    expect(mergeRedactions([email], [email, { type: 'phone', text: '555 1234' }])).toHaveLength(2);
+  });
+
+  describe('PersonaTransformer', () => {
+    beforeEach(() => {
+      env.AI_PROVIDER = 'echo';
+    });
+
+    it('should redact before the AI provider sees the message', async () => {
+      const chatCompletion = vi.spyOn(AIClient.prototype, 'chatCompletion');
+
+      const result = await new PersonaTransformer(env).transformMessage('reach me at jane@example.com', '');
+
+      const sent = JSON.stringify(chatCompletion.mock.calls[0][0].messages);
+      expect(sent).not.toContain('jane@example.com');
+      expect(result.transformedMessage).toBe('Reach me at [email].');
+      expect(result.redactions).toEqual([{ type: 'email', text: 'jane@example.com' }]);
+      chatCompletion.mockRestore();
+    });
+
+    it('should redact details the AI adds to its output', async () => {
+      const chatCompletion = vi.spyOn(AIClient.prototype, 'chatCompletion').mockResolvedValue({
+        id: 'test',
+        object: 'chat.completion',
+        created: 0,
+        model: 'echo',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Contact hr@example.com.' }, finish_reason: 'stop' }],
+      });
+
+      const result = await new PersonaTransformer(env).transformMessage('who do I contact', '');
+
+      expect(result.transformedMessage).toBe('Contact [email].');
+      expect(result.redactions).toEqual([{ type: 'email', text: 'hr@example.com' }]);
+      chatCompletion.mockRestore();
+    });
+
+    it('should keep the redaction when the AI is unavailable', async () => {
+      const chatCompletion = vi.spyOn(AIClient.prototype, 'chatCompletion').mockRejectedValue(new Error('down'));
+
+      const result = await new PersonaTransformer(env).transformMessage('call 555-123-4567', 'super-nice');
+
+      expect(result).toMatchObject({ transformedMessage: 'call [phone]', fallbackUsed: true });
+      chatCompletion.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createReplyThread,
+  openReplyThread,
+  addReplyEntry,
+  getReplyThread,
+  getReplyUrl,
+} from '../../../src/lib/replies';
+import { processQueuedMessages } from '../../../src/lib/queue';
+import { handleSubmission } from '../../../src/api/submit';
+import { handleReplies } from '../../../src/api/replies';
+import { PersonaTransformer } from '../../../src/lib/ai-persona-transformer';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+const WEBHOOK_URL = 'https://hooks.example.com/feedback';
+
+describe('Reply Threads', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+
+  beforeEach(() => {
+    env = createMockEnv({
+      DELIVERY_CHANNEL: 'webhook',
+      DELIVERY_WEBHOOK_URL: WEBHOOK_URL,
+      DELIVERY_WEBHOOK_SECRET: 'webhook-secret',
+    }) as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+    vi.mocked(global.fetch).mockClear().mockImplementation(async () => new Response('ok'));
+  });
+
+  async function recipientToken(threadId: string): Promise<string> {
+    const url = await getReplyUrl(threadId, env);
+    return url!.split('#')[1];
+  }
+
+  it('should tell the sender and recipient tokens apart', async () => {
+    const { threadId, token } = await createReplyThread(env, { origin: 'https://feedback.example.com' });
+
+    expect(await openReplyThread(token, env)).toMatchObject({ role: 'sender', thread: { id: threadId } });
+    expect(await openReplyThread(await recipientToken(threadId), env)).toMatchObject({ role: 'recipient' });
+    expect(await getReplyUrl(threadId, env)).toMatch(new RegExp(`^https://feedback\\.example\\.com/replies#${threadId}\\.`));
+  });
+
+  it('should store only a hash of the sender token', async () => {
+    const { threadId, token } = await createReplyThread(env, { origin: 'https://feedback.example.com' });
+
+    const stored = JSON.stringify(await getReplyThread(threadId, env));
+    expect(stored).not.toContain(token.split('.')[1]);
+  });
+
+  it('should store thread entries encrypted', async () => {
+    const { threadId, token } = await createReplyThread(env, { origin: 'https://feedback.example.com' });
+    const { thread } = await openReplyThread(token, env);
+    await addReplyEntry(thread, 'recipient', 'Can you say more?', env);
+
+    const stored = (await env.MESSAGE_QUEUE.get(`reply_thread_${threadId}`))!;
+    expect(stored).not.toContain('Can you say more?');
+    expect(JSON.parse(stored)).not.toHaveProperty('entries');
+    expect((await getReplyThread(threadId, env))!.entries).toMatchObject([{ from: 'recipient', message: 'Can you say more?' }]);
+  });
+
+  it('should reject forged and unknown tokens alike', async () => {
+    const { threadId, token } = await createReplyThread(env, { origin: 'https://feedback.example.com' });
+
+    for (const forged of [`${threadId}.${'0'.repeat(64)}`, `missing.${token.split('.')[1]}`, threadId, 42, undefined]) {
+      await expect(openReplyThread(forged, env)).rejects.toMatchObject({ status: 404, message: 'Conversation not found' });
+    }
+  });
+
+  it('should round entry times to the hour and validate messages', async () => {
+    const { token } = await createReplyThread(env, { origin: 'https://feedback.example.com' });
+    const { thread } = await openReplyThread(token, env);
+
+    const entry = await addReplyEntry(thread, 'recipient', '  Can you say more?  ', env);
+    expect(entry).toMatchObject({ from: 'recipient', message: 'Can you say more?' });
+    expect(entry.sentAt % (60 * 60 * 1000)).toBe(0);
+
+    await expect(addReplyEntry(thread, 'recipient', '   ', env)).rejects.toMatchObject({ status: 400 });
+    await expect(addReplyEntry(thread, 'recipient', 'a'.repeat(2001), env)).rejects.toMatchObject({ status: 400 });
+  });
+
+  describe('conversation flow', () => {
+    beforeEach(() => {
+      env.AI_PROVIDER = 'echo';
+    });
+
+    // Test mode delivers in waitUntil, so wait for it
+    async function submit(allowReplies?: boolean): Promise<Response> {
+      const response = await handleSubmission(new Request('https://feedback.example.com/api/submit', {
+        method: 'POST',
+        body: JSON.stringify({ message: 'The deploy process is confusing', sessionId: 'test', allowReplies }),
+      }), env, ctx, true);
+      await Promise.all(vi.mocked(ctx.waitUntil).mock.calls.map(([promise]) => promise));
+      return response;
+    }
+
+    function getThread(token: string): Promise<Response> {
+      return handleReplies(new Request('https://feedback.example.com/api/replies', {
+        headers: { 'X-Reply-Token': token },
+      }), env, ctx);
+    }
+
+    function postReply(token: string, message: string): Promise<Response> {
+      return handleReplies(new Request('https://feedback.example.com/api/replies', {
+        method: 'POST',
+        body: JSON.stringify({ token, message }),
+      }), env, ctx);
+    }
+
+    function deliveredBodies(): any[] {
+      return vi.mocked(global.fetch).mock.calls
+        .filter(([url]) => String(url) === WEBHOOK_URL)
+        .map(([, init]) => JSON.parse(init!.body as string));
+    }
+
+    it('should only issue a reply token when asked', async () => {
+      expect(await (await submit()).json()).not.toHaveProperty('replyToken');
+      expect(await (await submit(true)).json()).toHaveProperty('replyToken');
+    });
+
+    it('should link the thread in the delivery and carry replies both ways', async () => {
+      const { replyToken } = await (await submit(true)).json() as any;
+
+      const [delivered] = deliveredBodies();
+      expect(delivered.replyUrl).toMatch(/^https:\/\/feedback\.example\.com\/replies#/);
+      const recipient = delivered.replyUrl.split('#')[1];
+
+      // The delivered message joins the thread
+      const senderView = await (await getThread(replyToken)).json() as any;
+      expect(senderView.role).toBe('sender');
+      expect(senderView.messages).toEqual([expect.objectContaining({ from: 'sender' })]);
+
+      expect((await postReply(recipient, 'What part is confusing?')).status).toBe(200);
+      expect((await (await getThread(replyToken)).json() as any).messages[1])
+        .toMatchObject({ from: 'recipient', message: 'What part is confusing?' });
+
+      // Sender responses are queued like any submission and appear once delivered
+      expect((await postReply(replyToken, 'The rollback step')).status).toBe(200);
+      expect((await (await getThread(recipient)).json() as any).messages).toHaveLength(2);
+
+      const { keys } = await env.MESSAGE_QUEUE.list({ prefix: 'msg_' });
+      for (const key of keys) {
+        const queued = JSON.parse((await env.MESSAGE_QUEUE.get(key.name))!);
+        expect(queued.replyThreadId).toBe(replyToken.split('.')[0]);
+        await env.MESSAGE_QUEUE.put(key.name, JSON.stringify({ ...queued, scheduledFor: 0 }));
+      }
+      await processQueuedMessages(env);
+
+      expect(deliveredBodies()).toHaveLength(2);
+      expect((await (await getThread(recipient)).json() as any).messages[2]).toMatchObject({ from: 'sender' });
+    });
+
+    it('should not deliver a sender response the AI could not transform', async () => {
+      const { replyToken } = await (await submit(true)).json() as any;
+      const transform = vi.spyOn(PersonaTransformer.prototype, 'transformMessage').mockResolvedValue({
+        transformedMessage: 'The rollback step',
+        originalMessage: 'The rollback step',
+        persona: 'anonymize',
+        redactions: [],
+        fallbackUsed: true,
+      });
+
+      expect((await postReply(replyToken, 'The rollback step')).status).toBe(503);
+      expect((await env.MESSAGE_QUEUE.list({ prefix: 'msg_' })).keys).toEqual([]);
+      transform.mockRestore();
+    });
+
+    it('should reject unknown tokens', async () => {
+      expect((await getThread('nope.nope')).status).toBe(404);
+      expect((await postReply('nope.nope', 'Hello')).status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  getReviewMode,
+  shouldHoldForReview,
+  holdForReview,
+  listReviewMessages,
+  approveReviewMessage,
+  rejectReviewMessage,
+  editReviewMessage,
+} from '../../../src/lib/review';
+import { CommentBox, saveBox, deleteBox } from '../../../src/lib/boxes';
+import { decryptMessage } from '../../../src/lib/message-encryption';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+import type { ModerationVerdict } from '../../../src/types/api';
+
+const flagged: ModerationVerdict = {
+  action: 'flag',
+  reasons: [{ check: 'terms', action: 'flag', code: 'flagged_term', match: 'hate' }],
+};
+
+const box: CommentBox = {
+  id: 'hr',
+  owner: 'HR',
+  recipientEmail: 'hr@example.com',
+  title: 'HR Feedback',
+  reviewMode: 'all',
+  createdAt: 1700000000000,
+};
+
+describe('Review Queue', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+
+  async function storedKeys(prefix: string): Promise<string[]> {
+    const { keys } = await env.MESSAGE_QUEUE.list({ prefix });
+    return keys.map(key => key.name);
+  }
+
+  beforeEach(() => {
+    env = createMockEnv() as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+  });
+
+  describe('shouldHoldForReview', () => {
+    it('should hold nothing by default', () => {
+      expect(getReviewMode(env)).toBe('off');
+      expect(shouldHoldForReview(flagged, env)).toBe(false);
+    });
+
+    it('should hold only flagged messages in flagged mode', () => {
+      env.REVIEW_MODE = 'flagged';
+
+      expect(shouldHoldForReview(flagged, env)).toBe(true);
+      expect(shouldHoldForReview({ action: 'allow', reasons: [] }, env)).toBe(false);
+      expect(shouldHoldForReview(undefined, env)).toBe(false);
+    });
+
+    it('should let a box override the deployment setting', () => {
+      expect(shouldHoldForReview({ action: 'allow', reasons: [] }, env, box)).toBe(true);
+
+      env.REVIEW_MODE = 'all';
+      expect(shouldHoldForReview(flagged, env, { ...box, reviewMode: 'off' })).toBe(false);
+    });
+  });
+
+  it('should hold messages with a coarse timestamp', async () => {
+    const id = await holdForReview('Held message', flagged, env, box);
+
+    const [held] = await listReviewMessages(env);
+    expect(held).toMatchObject({ id, message: 'Held message', boxId: 'hr', moderation: flagged });
+    expect(held.heldAt % (60 * 60 * 1000)).toBe(0);
+    expect(await storedKeys('msg_')).toEqual([]);
+  });
+
+  it('should store held and edited messages encrypted', async () => {
+    const id = await holdForReview('Held message', flagged, env, box);
+    await editReviewMessage(id, 'Edited message', env);
+
+    const stored = (await env.MESSAGE_QUEUE.get(`review_${id}`))!;
+    expect(stored).not.toContain('Held message');
+    expect(stored).not.toContain('Edited message');
+    expect(JSON.parse(stored)).toHaveProperty('encryptedMessage');
+  });
+
+  it('should approve into the delivery queue with a fresh delay', async () => {
+    await saveBox(box, env);
+    const id = await holdForReview('Held message', flagged, env, box);
+    const before = Date.now();
+
+    await approveReviewMessage(id, env, ctx);
+
+    expect(await storedKeys('review_')).toEqual([]);
+    const [queuedKey] = await storedKeys('msg_');
+    const queued = JSON.parse((await env.MESSAGE_QUEUE.get(queuedKey))!);
+    expect(queued).toMatchObject({ boxId: 'hr' });
+    expect(await decryptMessage(queued.encryptedMessage, queued.id, env)).toBe('Held message');
+    expect(queued.scheduledFor).toBeGreaterThanOrEqual(before + 60 * 60 * 1000);
+  });
+
+  it('should keep messages held when their box was deleted', async () => {
+    const id = await holdForReview('Held message', flagged, env, box);
+    await deleteBox(box.id, env);
+
+    await expect(approveReviewMessage(id, env, ctx)).rejects.toMatchObject({ name: 'ReviewError', status: 409 });
+    expect(await storedKeys('review_')).toEqual([`review_${id}`]);
+    expect(await storedKeys('msg_')).toEqual([]);
+  });
+
+  it('should reject and edit held messages', async () => {
+    const id = await holdForReview('Held message', flagged, env);
+
+    const edited = await editReviewMessage(id, '  Edited message ', env);
+    expect(edited).toMatchObject({ message: 'Edited message', editedAt: expect.any(Number) });
+    await expect(editReviewMessage(id, '', env)).rejects.toMatchObject({ status: 400 });
+
+    await rejectReviewMessage(id, env);
+    expect(await storedKeys('review_')).toEqual([]);
+    await expect(rejectReviewMessage(id, env)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createDeliveryScheduler,
+  handleDeliveryBatch,
+  DurableObjectDeliveryScheduler,
+  KVDeliveryScheduler,
+  QueuesDeliveryScheduler,
+} from '../../../src/lib/scheduler';
+import { DeliverySchedulerDurableObject } from '../../../src/lib/delivery-scheduler-object';
+import { queueMessage, processQueuedMessages, getRetryDelay } from '../../../src/lib/queue';
+import { createMockEnv } from '../../utils/test-helpers';
+import type { Env } from '../../../src/types/env';
+
+const WEBHOOK_URL = 'https://hooks.example.com/feedback';
+
+// In-memory stand-ins for a Durable Object namespace, one object per name, with the alarm time exposed
+function createMockDurableObjectNamespace(env: () => Env) {
+  const objects = new Map<string, { object: DeliverySchedulerDurableObject; alarm: { at: number | null } }>();
+
+  const create = () => {
+    const storage = new Map<string, unknown>();
+    const alarm = { at: null as number | null };
+    const state = {
+      blockConcurrencyWhile: (callback: () => Promise<void>) => callback(),
+      storage: {
+        get: async (key: string) => storage.get(key),
+        put: async (key: string, value: unknown) => { storage.set(key, value); },
+        deleteAll: async () => { storage.clear(); },
+        setAlarm: async (time: number) => { alarm.at = time; },
+      },
+    };
+    return { object: new DeliverySchedulerDurableObject(state as unknown as DurableObjectState, env()), alarm };
+  };
+
+  return {
+    objects,
+    idFromName: (name: string) => name,
+    get: (id: string) => {
+      if (!objects.has(id)) {
+        objects.set(id, create());
+      }
+      const { object } = objects.get(id)!;
+      return { fetch: (url: string, init: RequestInit) => object.fetch(new Request(url, init)) };
+    },
+  };
+}
+
+function createMockQueue() {
+  return { send: vi.fn(async () => {}) };
+}
+
+function createBatch(messageIds: string[]) {
+  const messages = messageIds.map(messageId => ({ body: { messageId }, ack: vi.fn(), retry: vi.fn() }));
+  return { messages, queue: 'comment-box-delivery' } as any;
+}
+
+describe('Delivery schedulers', () => {
+  let env: Env;
+  let ctx: ExecutionContext;
+  let now: number;
+
+  async function queuedIds(): Promise<string[]> {
+    const { keys } = await env.MESSAGE_QUEUE.list({ prefix: 'msg_' });
+    return keys.map(key => key.name.slice('msg_'.length));
+  }
+
+  function deliveries(): number {
+    return vi.mocked(global.fetch).mock.calls.filter(([url]) => String(url) === WEBHOOK_URL).length;
+  }
+
+  beforeEach(() => {
+    env = createMockEnv({
+      DELIVERY_CHANNEL: 'webhook',
+      DELIVERY_WEBHOOK_URL: WEBHOOK_URL,
+      DELIVERY_WEBHOOK_SECRET: 'webhook-secret',
+      QUEUE_DELAY_SECONDS: '60',
+    }) as unknown as Env;
+    ctx = { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any;
+    now = Date.now();
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    vi.mocked(global.fetch).mockClear().mockImplementation(async () => new Response('ok'));
+  });
+
+  afterEach(() => {
+    vi.mocked(Date.now).mockRestore();
+  });
+
+  describe('createDeliveryScheduler', () => {
+    it('should fall back to KV when nothing is bound', () => {
+      expect(createDeliveryScheduler(env)).toBeInstanceOf(KVDeliveryScheduler);
+    });
+
+    it('should prefer the Durable Object, then Queues', () => {
+      env.DELIVERY_QUEUE = createMockQueue() as any;
+      expect(createDeliveryScheduler(env)).toBeInstanceOf(QueuesDeliveryScheduler);
+
+      env.DELIVERY_SCHEDULER_DO = createMockDurableObjectNamespace(() => env) as unknown as DurableObjectNamespace;
+      expect(createDeliveryScheduler(env)).toBeInstanceOf(DurableObjectDeliveryScheduler);
+    });
+
+    it('should honour DELIVERY_SCHEDULER and reject a missing binding', () => {
+      env.DELIVERY_SCHEDULER = 'kv';
+      env.DELIVERY_QUEUE = createMockQueue() as any;
+      expect(createDeliveryScheduler(env)).toBeInstanceOf(KVDeliveryScheduler);
+
+      env.DELIVERY_SCHEDULER = 'durable-object';
+      expect(() => createDeliveryScheduler(env)).toThrow('DELIVERY_SCHEDULER_DO binding is missing');
+
+      env.DELIVERY_SCHEDULER = 'cron' as any;
+      expect(() => createDeliveryScheduler(env)).toThrow('Invalid DELIVERY_SCHEDULER');
+    });
+  });
+
+  describe('Durable Object', () => {
+    let namespace: ReturnType<typeof createMockDurableObjectNamespace>;
+
+    beforeEach(() => {
+      namespace = createMockDurableObjectNamespace(() => env);
+      env.DELIVERY_SCHEDULER_DO = namespace as unknown as DurableObjectNamespace;
+    });
+
+    async function queueOne(): Promise<{ object: DeliverySchedulerDurableObject; alarm: { at: number | null } }> {
+      await queueMessage('Hello', env, ctx);
+      await Promise.all(vi.mocked(ctx.waitUntil).mock.calls.map(([promise]) => promise));
+      const [id] = await queuedIds();
+      return namespace.objects.get(id)!;
+    }
+
+    it('should set an alarm for the exact delivery time and deliver when it fires', async () => {
+      const { object, alarm } = await queueOne();
+      expect(alarm.at).toBe(now + 60000);
+
+      now = alarm.at!;
+      await object.alarm();
+
+      expect(deliveries()).toBe(1);
+      expect(await queuedIds()).toEqual([]);
+    });
+
+    it('should move the alarm to the retry time after a failed attempt', async () => {
+      vi.mocked(global.fetch).mockImplementation(async () => new Response('down', { status: 500 }));
+      const { object, alarm } = await queueOne();
+
+      now = alarm.at!;
+      await object.alarm();
+
+      expect(alarm.at).toBe(now + getRetryDelay(1));
+      expect(await queuedIds()).toHaveLength(1);
+    });
+
+    it('should leave messages to their alarms in the cron sweep', async () => {
+      await queueOne();
+
+      now += 60000 + 1;
+      expect((await processQueuedMessages(env)).processed).toBe(0);
+
+      // Unless the alarm is well overdue
+      now += 60 * 60 * 1000;
+      expect((await processQueuedMessages(env)).processed).toBe(1);
+    });
+  });
+
+  describe('Queues', () => {
+    let queue: ReturnType<typeof createMockQueue>;
+
+    beforeEach(() => {
+      queue = createMockQueue();
+      env.DELIVERY_QUEUE = queue as any;
+    });
+
+    it('should send the message ID with its delay and deliver it from the consumer', async () => {
+      await queueMessage('Hello', env, ctx);
+      await Promise.all(vi.mocked(ctx.waitUntil).mock.calls.map(([promise]) => promise));
+      const [id] = await queuedIds();
+      expect(queue.send).toHaveBeenCalledWith({ messageId: id }, { delaySeconds: 60 });
+
+      now += 60000;
+      const batch = createBatch([id]);
+      await handleDeliveryBatch(batch, env);
+
+      expect(deliveries()).toBe(1);
+      expect(batch.messages[0].ack).toHaveBeenCalled();
+    });
+
+    it('should send early and failed messages on again', async () => {
+      await queueMessage('Hello', env, ctx);
+      const [id] = await queuedIds();
+      queue.send.mockClear();
+
+      await handleDeliveryBatch(createBatch([id]), env);
+      expect(deliveries()).toBe(0);
+      expect(queue.send).toHaveBeenLastCalledWith({ messageId: id }, { delaySeconds: 60 });
+
+      vi.mocked(global.fetch).mockImplementation(async () => new Response('down', { status: 500 }));
+      now += 60000;
+      await handleDeliveryBatch(createBatch([id]), env);
+      expect(queue.send).toHaveBeenLastCalledWith({ messageId: id }, { delaySeconds: getRetryDelay(1) / 1000 });
+    });
+
+    it('should ack messages that were already delivered', async () => {
+      const batch = createBatch(['gone']);
+      await handleDeliveryBatch(batch, env);
+
+      expect(batch.messages[0].ack).toHaveBeenCalled();
+      expect(queue.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('KV cron sweep', () => {
+    it('should page through every queued message but read only the due ones', async () => {
+      for (let i = 0; i < 1000; i++) {
+        await queueMessage(`Later ${i}`, env, ctx);
+      }
+      await env.MESSAGE_QUEUE.put('msg_due', JSON.stringify({ id: 'due', message: 'Now', queuedAt: now, scheduledFor: now }), {
+        metadata: { dueAt: now },
+      });
+      vi.mocked(env.MESSAGE_QUEUE.get).mockClear();
+
+      const result = await processQueuedMessages(env);
+
+      expect(result.processed).toBe(1);
+      expect(vi.mocked(env.MESSAGE_QUEUE.list)).toHaveBeenCalledTimes(2);
+      const reads = vi.mocked(env.MESSAGE_QUEUE.get).mock.calls.map(([key]) => String(key));
+      expect(reads.filter(key => key.startsWith('msg_'))).toEqual(['msg_due']);
+    });
+  });
+});
@@ -112,6 +112,34 @@ describe('Static Assets Handler', () => {
     });
   });
 
+  describe('Widget Routes', () => {
+    it('should serve the embeddable widget script', async () => {
+      const request = new Request('http://localhost/widget.js', { method: 'GET' });
+      const url = new URL(request.url);
+
+      const response = await handleStaticAssets(request, url);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('application/javascript; charset=utf-8');
+
+      const content = await response.text();
+      expect(content).toContain('attachShadow');
+      expect(content).toContain('/api/submit');
+      expect(content).not.toContain('TODO');
+    });
+
+    it('should serve the widget demo page', async () => {
+      const request = new Request('http://localhost/widget-demo.html', { method: 'GET' });
+      const url = new URL(request.url);
+
+      const response = await handleStaticAssets(request, url);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+      expect(await response.text()).toContain('data-position');
+    });
+  });
+
   describe('Caching Headers', () => {
     it('should set cache headers for static assets', async () => {
       const request = new Request('http://localhost/styles.css', { method: 'GET' });
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { countWords, truncateToWords, exceedsWordLimit } from '../../../src/lib/text-utils';
+import { countWords, truncateToWords, exceedsWordLimit, normalizeWritingStyle } from '../../../src/lib/text-utils';
 
 describe('text-utils', () => {
   describe('countWords', () => {
@@ -79,4 +79,22 @@ describe('text-utils', () => {
       expect(countWords(truncated)).toBe(1000);
     });
   });
-});
\ No newline at end of file
+
+  describe('normalizeWritingStyle', () => {
+    it('should remove emoji and repeated punctuation', () => {
+      expect(normalizeWritingStyle('this is broken!!! 😡😡 why?!?')).toBe('This is broken! Why?');
+      expect(normalizeWritingStyle('well... ok 👍🏽')).toBe('Well. Ok');
+    });
+
+    it('should normalise capitalisation without touching acronyms', () => {
+      expect(normalizeWritingStyle('the HR process is SOOOO slow and i hate waiting')).toBe(
+        'The HR process is soooo slow and I hate waiting'
+      );
+    });
+
+    it('should tidy whitespace', () => {
+      expect(normalizeWritingStyle('  one , two\n\n\n\nthree  ')).toBe('One, two\n\nthree');
+      expect(normalizeWritingStyle('')).toBe('');
+    });
+  });
+});
@@ -156,6 +156,26 @@ describe('Basic Frontend Functionality Tests', () => {
       
       expect(personaDescription?.innerHTML).toContain('Casual internet slang');
     });
+
+    it('should replace the built-in options with the server persona list', async () => {
+      const personaSelect = document.getElementById('personaSelect') as unknown as HTMLSelectElement;
+      const personaDescription = document.getElementById('personaDescription');
+      vi.mocked(window.fetch).mockImplementation(async (input: any) => ({
+        ok: String(input) === '/api/personas',
+        json: async () => [
+          { key: 'neutral-corporate', name: 'Neutral Corporate', description: 'Plain <b>workplace</b> language' },
+        ],
+      }) as any);
+
+      document.dispatchEvent(new window.Event('DOMContentLoaded'));
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(Array.from(personaSelect.options).map(opt => opt.value)).toEqual(['', 'neutral-corporate', 'custom']);
+
+      personaSelect.value = 'neutral-corporate';
+      personaSelect.dispatchEvent(new Event('change'));
+      expect(personaDescription?.textContent).toBe('Plain <b>workplace</b> language');
+    });
   });
 
   describe('Preview Functionality', () => {
@@ -234,6 +254,32 @@ describe('Basic Frontend Functionality Tests', () => {
       expect(previewBtn.classList.contains('loading')).toBe(false);
       expect(previewBtn.textContent).toBe('Preview Transformation');
     });
+
+    it('should list what was redacted from the message', async () => {
+      const messageTextarea = document.getElementById('message') as HTMLTextAreaElement;
+      const previewBtn = document.getElementById('previewBtn') as HTMLButtonElement;
+      const previewRedactions = document.getElementById('previewRedactions') as HTMLElement;
+
+      messageTextarea.value = 'Mail me at jane@example.com';
+
+      (window.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          originalMessage: 'Mail me at jane@example.com',
+          transformedMessage: 'Mail me at [email].',
+          redactions: [{ type: 'email', text: 'jane@example.com' }],
+          rateLimitRemaining: 9,
+          rateLimitReset: Date.now() + 60000
+        })
+      });
+
+      previewBtn.click();
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(previewRedactions.classList.contains('hidden')).toBe(false);
+      expect(previewRedactions.querySelector('li')?.textContent).toBe('email: jane@example.com');
+    });
   });
 
   describe('Form Submission', () => {
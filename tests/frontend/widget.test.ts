@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+import fs from 'fs';
+import path from 'path';
+
+const widgetSource = fs.readFileSync(
+  path.resolve(__dirname, '../../src/static/widget.js'),
+  'utf-8'
+);
+
+describe('Embeddable Widget', () => {
+  let dom: JSDOM;
+  let window: Window & typeof globalThis;
+  let document: Document;
+  let postedMessages: any[];
+
+  function mountWidget(attributes: Record<string, string> = {}): ShadowRoot {
+    const script = document.createElement('script');
+    Object.entries(attributes).forEach(([name, value]) => script.setAttribute(name, value));
+    script.textContent = widgetSource;
+    document.getElementById('mount')!.appendChild(script);
+
+    const host = document.querySelector('.anonymous-comment-box-widget') as HTMLElement;
+    return host.shadowRoot!;
+  }
+
+  function flush(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  const personas = [
+    { key: 'internet-random', name: 'Internet Random', description: 'Casual internet slang' },
+    { key: 'neutral-corporate', name: 'Neutral Corporate', description: 'Plain workplace language' },
+  ];
+
+  // Route fetch calls by path; /api/personas always answers with the persona list
+  function mockApi(responses: Record<string, { status?: number; body: unknown; headers?: Record<string, string> }> = {}) {
+    vi.mocked(window.fetch).mockImplementation(async (input: any) => {
+      const { pathname } = new URL(String(input));
+      const response = pathname === '/api/personas' ? { body: personas } : responses[pathname];
+      return new Response(JSON.stringify(response?.body ?? {}), {
+        status: response?.status ?? 200,
+        headers: response?.headers,
+      });
+    });
+  }
+
+  function apiCalls(path: string) {
+    return vi.mocked(window.fetch).mock.calls.filter(([url]) => String(url).includes(path));
+  }
+
+  beforeEach(() => {
+    dom = new JSDOM('<!DOCTYPE html><html><body><div id="mount"></div></body></html>', {
+      url: 'http://localhost:8787/host-page',
+      runScripts: 'dangerously',
+    });
+    window = dom.window as unknown as Window & typeof globalThis;
+    document = window.document;
+
+    postedMessages = [];
+    window.postMessage = vi.fn((data: any) => {
+      postedMessages.push(data);
+    }) as any;
+    window.fetch = vi.fn();
+    mockApi();
+  });
+
+  describe('Rendering', () => {
+    it('should render an inline form inside a shadow root', () => {
+      const shadow = mountWidget({ 'data-recipient': 'team@example.com' });
+
+      expect(shadow).toBeTruthy();
+      expect(shadow.querySelector('form')).toBeTruthy();
+      expect(shadow.querySelector('.acb-launcher')).toBeNull();
+    });
+
+    it('should honour data-title without claiming data-recipient as the destination', () => {
+      const shadow = mountWidget({
+        'data-recipient': 'team@example.com',
+        'data-title': 'Product Feedback',
+      });
+
+      expect(shadow.querySelector('.acb-title')?.textContent).toBe('Product Feedback');
+      expect(shadow.querySelector('.acb-subtitle')?.textContent).not.toContain('team@example.com');
+    });
+
+    it('should name the box from /api/boxes', async () => {
+      mockApi({ '/api/boxes/product-team': { body: { id: 'product-team', title: 'Product Team' } } });
+      const shadow = mountWidget({ 'data-box': 'product-team', 'data-recipient': 'team@example.com' });
+      await flush();
+
+      expect(shadow.querySelector('.acb-subtitle')?.textContent).toBe('Delivered anonymously to Product Team');
+    });
+
+    it('should escape attribute values rendered as HTML', () => {
+      const shadow = mountWidget({ 'data-title': '<img src=x onerror=alert(1)>' });
+
+      expect(shadow.querySelector('img')).toBeNull();
+      expect(shadow.querySelector('.acb-title')?.textContent).toBe('<img src=x onerror=alert(1)>');
+    });
+
+    it('should apply the dark theme', () => {
+      const shadow = mountWidget({ 'data-theme': 'dark' });
+
+      expect(shadow.querySelector('.acb-root')?.classList.contains('acb-dark')).toBe(true);
+    });
+
+    it('should render a launcher and hidden dialog in modal position', () => {
+      const shadow = mountWidget({ 'data-position': 'modal', 'data-title': 'Feedback' });
+
+      const launcher = shadow.querySelector('.acb-launcher') as HTMLButtonElement;
+      const overlay = shadow.querySelector('.acb-overlay') as HTMLElement;
+      expect(launcher.textContent).toBe('Feedback');
+      expect(overlay.classList.contains('acb-hidden')).toBe(true);
+
+      launcher.click();
+      expect(overlay.classList.contains('acb-hidden')).toBe(false);
+      expect(postedMessages.some(m => m.type === 'open')).toBe(true);
+
+      (shadow.querySelector('[data-acb="close"]') as HTMLButtonElement).click();
+      expect(overlay.classList.contains('acb-hidden')).toBe(true);
+    });
+
+    it('should post a ready event with its configuration', () => {
+      mountWidget({ 'data-recipient': 'team@example.com', 'data-position': 'modal' });
+
+      expect(postedMessages[0]).toMatchObject({
+        source: 'anonymous-comment-box',
+        type: 'ready',
+        recipient: 'team@example.com',
+        position: 'modal',
+        theme: 'light',
+      });
+    });
+  });
+
+  describe('Personas', () => {
+    it('should render the persona picker from /api/personas', async () => {
+      const shadow = mountWidget();
+      await flush();
+
+      const select = shadow.querySelector('[data-acb="persona"]') as unknown as HTMLSelectElement;
+      expect(Array.from(select.options).map(option => option.value))
+        .toEqual(['', 'internet-random', 'neutral-corporate', 'custom']);
+      expect(apiCalls('/api/personas')[0][0]).toBe('http://localhost:8787/api/personas');
+    });
+
+    it('should request only the personas allowed by the box', async () => {
+      mountWidget({ 'data-box': 'product-team' });
+      await flush();
+
+      expect(apiCalls('/api/personas')[0][0]).toBe('http://localhost:8787/api/personas?box=product-team');
+    });
+  });
+
+  describe('API communication', () => {
+    it('should request a preview and display the transformed message', async () => {
+      mockApi({
+        '/api/preview': {
+          body: {
+            transformedMessage: 'ngl this slaps',
+            originalMessage: 'This is great',
+            persona: 'internet-random',
+            rateLimitRemaining: 9,
+          },
+        },
+      });
+
+      const shadow = mountWidget();
+      await flush();
+      (shadow.querySelector('[data-acb="message"]') as HTMLTextAreaElement).value = 'This is great';
+      (shadow.querySelector('[data-acb="persona"]') as unknown as HTMLSelectElement).value = 'internet-random';
+      (shadow.querySelector('[data-acb="preview-btn"]') as HTMLButtonElement).click();
+      await flush();
+
+      const [url, init] = apiCalls('/api/preview')[0];
+      expect(url).toBe('http://localhost:8787/api/preview');
+      expect(JSON.parse(init!.body as string)).toMatchObject({
+        message: 'This is great',
+        persona: 'internet-random',
+      });
+      expect(shadow.querySelector('[data-acb="preview"]')?.textContent).toBe('ngl this slaps');
+      expect(postedMessages.some(m => m.type === 'preview' && m.persona === 'internet-random')).toBe(true);
+    });
+
+    it('should submit and report success to the host page', async () => {
+      mockApi({ '/api/submit': { body: { success: true } } });
+
+      const shadow = mountWidget({ 'data-recipient': 'team@example.com' });
+      (shadow.querySelector('[data-acb="message"]') as HTMLTextAreaElement).value = 'Hello';
+      (shadow.querySelector('form') as HTMLFormElement).dispatchEvent(
+        new window.Event('submit', { cancelable: true })
+      );
+      await flush();
+
+      expect(apiCalls('/api/submit')[0][0]).toBe('http://localhost:8787/api/submit');
+      expect(shadow.querySelector('[data-acb="success"]')?.classList.contains('acb-hidden')).toBe(false);
+      expect(postedMessages.find(m => m.type === 'submitted')).toMatchObject({
+        recipient: 'team@example.com',
+        persona: 'none',
+      });
+    });
+
+    it('should show the receipt code without passing it to the host page', async () => {
+      mockApi({ '/api/submit': { body: { success: true, receipt: '0123456789abcdef0123456789abcdef' } } });
+
+      const shadow = mountWidget();
+      (shadow.querySelector('[data-acb="message"]') as HTMLTextAreaElement).value = 'Hello';
+      (shadow.querySelector('form') as HTMLFormElement).dispatchEvent(
+        new window.Event('submit', { cancelable: true })
+      );
+      await flush();
+
+      const receipt = shadow.querySelector('[data-acb="receipt"]')!;
+      expect(receipt.textContent).toContain('0123456789abcdef0123456789abcdef');
+      expect(receipt.querySelector('a')?.getAttribute('href'))
+        .toBe('http://localhost:8787/#receipt=0123456789abcdef0123456789abcdef');
+      expect(JSON.stringify(postedMessages)).not.toContain('0123456789abcdef');
+    });
+
+    it('should report submission failures to the host page', async () => {
+      mockApi({ '/api/submit': { status: 429, body: { error: 'Rate limit exceeded' } } });
+
+      const shadow = mountWidget();
+      (shadow.querySelector('[data-acb="message"]') as HTMLTextAreaElement).value = 'Hello';
+      (shadow.querySelector('form') as HTMLFormElement).dispatchEvent(
+        new window.Event('submit', { cancelable: true })
+      );
+      await flush();
+
+      expect(shadow.querySelector('[data-acb="notice"]')?.textContent).toContain('Rate limit exceeded');
+      expect(postedMessages.find(m => m.type === 'error')).toMatchObject({
+        stage: 'submit',
+        status: 429,
+      });
+    });
+
+    it('should say how long to wait when Retry-After is sent', async () => {
+      mockApi({ '/api/submit': { status: 429, body: {}, headers: { 'Retry-After': '1800' } } });
+
+      const shadow = mountWidget();
+      (shadow.querySelector('[data-acb="message"]') as HTMLTextAreaElement).value = 'Hello';
+      (shadow.querySelector('form') as HTMLFormElement).dispatchEvent(
+        new window.Event('submit', { cancelable: true })
+      );
+      await flush();
+
+      expect(shadow.querySelector('[data-acb="notice"]')?.textContent).toBe('Rate limit exceeded. Please try again in 30 minutes.');
+    });
+
+    it('should solve a proof-of-work challenge and resend', async () => {
+      // jsdom has neither, so lend the widget Node's
+      Object.defineProperty(window.crypto, 'subtle', { value: globalThis.crypto.subtle });
+      (window as any).TextEncoder = TextEncoder;
+      let attempts = 0;
+      vi.mocked(window.fetch).mockImplementation(async (input: any) => {
+        const { pathname } = new URL(String(input));
+        if (pathname === '/api/personas') {
+          return new Response(JSON.stringify(personas));
+        }
+        attempts++;
+        return attempts === 1
+          ? new Response(JSON.stringify({ code: 'challenge_required', challenge: { mode: 'pow', token: 'abc', difficulty: 4 } }), { status: 400 })
+          : new Response(JSON.stringify({ success: true }));
+      });
+
+      const shadow = mountWidget();
+      (shadow.querySelector('[data-acb="message"]') as HTMLTextAreaElement).value = 'Hello';
+      (shadow.querySelector('form') as HTMLFormElement).dispatchEvent(
+        new window.Event('submit', { cancelable: true })
+      );
+      await vi.waitFor(() => expect(apiCalls('/api/submit')).toHaveLength(2));
+      await flush();
+
+      const { challenge } = JSON.parse(apiCalls('/api/submit')[1][1]!.body as string);
+      const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`abc:${challenge.nonce}`)));
+      expect(challenge.token).toBe('abc');
+      expect(hash[0] >> 4).toBe(0);
+      expect(shadow.querySelector('[data-acb="success"]')?.classList.contains('acb-hidden')).toBe(false);
+    });
+
+    it('should not call the API for an empty message', async () => {
+      const shadow = mountWidget();
+      (shadow.querySelector('form') as HTMLFormElement).dispatchEvent(
+        new window.Event('submit', { cancelable: true })
+      );
+      await flush();
+
+      expect(apiCalls('/api/submit')).toHaveLength(0);
+      expect(shadow.querySelector('[data-acb="notice"]')?.textContent).toBe('Please enter a message');
+    });
+  });
+});
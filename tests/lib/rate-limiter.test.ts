@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { RateLimiter, RateLimitError } from '../../src/lib/rate-limiter';
+import { RateLimiter, RateLimitError, hashClientId } from '../../src/lib/rate-limiter';
 import type { Env } from '../../src/types/env';
 
 describe('RateLimiter', () => {
@@ -34,39 +34,49 @@ describe('RateLimiter', () => {
   });
 
   describe('generateKey', () => {
-    it('should generate key from CF-Connecting-IP and session ID', () => {
-      const request = new Request('http://localhost/test', {
-        headers: {
-          'CF-Connecting-IP': '192.168.1.1',
-          'X-Session-ID': 'session123'
-        }
-      });
+    const keyFor = (headers: Record<string, string>, env: Env = mockEnv) =>
+      rateLimiter.generateKey(new Request('http://localhost/test', { headers }), env);
+
+    it('should generate an HMAC key from CF-Connecting-IP and session ID', async () => {
+      const key = await keyFor({ 'CF-Connecting-IP': '192.168.1.1', 'X-Session-ID': 'session123' });
 
-      const key = rateLimiter.generateKey(request);
-      expect(key).toBe('rate_limit:192.168.1.1:session123');
+      expect(key).toMatch(/^rate_limit:[0-9a-f]{32}$/);
+      expect(key).not.toContain('192.168.1.1');
+      expect(key).not.toContain('session123');
+      expect(await keyFor({ 'CF-Connecting-IP': '192.168.1.1', 'X-Session-ID': 'session123' })).toBe(key);
     });
 
-    it('should use X-Forwarded-For as fallback', () => {
-      const request = new Request('http://localhost/test', {
-        headers: {
-          'X-Forwarded-For': '10.0.0.1',
-          'X-Session-ID': 'session456'
-        }
-      });
+    it('should use X-Forwarded-For as fallback', async () => {
+      const forwarded = await keyFor({ 'X-Forwarded-For': '10.0.0.1, 172.16.0.1', 'X-Session-ID': 'session456' });
 
-      const key = rateLimiter.generateKey(request);
-      expect(key).toBe('rate_limit:10.0.0.1:session456');
+      expect(forwarded).toBe(await keyFor({ 'CF-Connecting-IP': '10.0.0.1', 'X-Session-ID': 'session456' }));
+      expect(forwarded).not.toBe(await keyFor({ 'CF-Connecting-IP': '10.0.0.2', 'X-Session-ID': 'session456' }));
     });
 
-    it('should use "unknown" for missing IP', () => {
-      const request = new Request('http://localhost/test', {
-        headers: {
-          'X-Session-ID': 'session789'
-        }
-      });
+    it('should use "unknown" for missing IP', async () => {
+      expect(await keyFor({ 'X-Session-ID': 'session789' }))
+        .toBe(await keyFor({ 'CF-Connecting-IP': 'unknown', 'X-Session-ID': 'session789' }));
+    });
+
+    it('should depend on RATE_LIMIT_SECRET and the day', async () => {
+      const headers = { 'CF-Connecting-IP': '192.168.1.1', 'X-Session-ID': 'session123' };
+      const key = await keyFor(headers, { ...mockEnv, RATE_LIMIT_SECRET: 'secret-a' });
+
+      expect(await keyFor(headers, { ...mockEnv, RATE_LIMIT_SECRET: 'secret-b' })).not.toBe(key);
+
+      const today = Date.parse('2025-03-01T12:00:00Z');
+      const env = { ...mockEnv, RATE_LIMIT_SECRET: 'secret-a' };
+      expect(await hashClientId('192.168.1.1:session123', env, today))
+        .toBe(await hashClientId('192.168.1.1:session123', env, today + 60 * 60 * 1000));
+      expect(await hashClientId('192.168.1.1:session123', env, today + 24 * 60 * 60 * 1000))
+        .not.toBe(await hashClientId('192.168.1.1:session123', env, today));
+    });
 
-      const key = rateLimiter.generateKey(request);
-      expect(key).toBe('rate_limit:unknown:session789');
+    it('should require RATE_LIMIT_SECRET outside development and test', async () => {
+      for (const ENVIRONMENT of ['production', 'staging', undefined] as any[]) {
+        await expect(keyFor({ 'CF-Connecting-IP': '192.168.1.1' }, { ...mockEnv, ENVIRONMENT }))
+          .rejects.toThrow('RATE_LIMIT_SECRET is required');
+      }
     });
   });
 
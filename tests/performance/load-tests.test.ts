@@ -165,6 +165,7 @@ describe('Performance and Load Tests', () => {
       // Mock rate limiter to track requests and enforce limit
       const { RateLimiter } = await import('../../src/lib/rate-limiter');
       const mockRateLimiter = vi.mocked(RateLimiter);
+      const defaultImplementation = mockRateLimiter.getMockImplementation();
       
       // Override the checkLimit method for this specific test
       mockRateLimiter.mockImplementation(() => ({
@@ -210,7 +211,13 @@ describe('Performance and Load Tests', () => {
         return handlePreview(request, mockEnv, mockCtx);
       });
 
-      const responses = await Promise.all(requests);
+      let responses: Response[];
+      try {
+        responses = await Promise.all(requests);
+      } finally {
+        // A limiter is created per request, so later tests must get the default mock back
+        mockRateLimiter.mockImplementation(defaultImplementation!);
+      }
 
       // First 10 should succeed, next 5 should be rate limited
       const successful = responses.filter(r => r.status === 200);
@@ -268,4 +268,47 @@ export const simulateRateLimitError = () => {
 };
 
 // Wait for async operations in tests
-export const waitFor = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
\ No newline at end of file
+export const waitFor = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// In-memory KV namespace supporting the subset of the KV API the worker uses
+export const createMockKVNamespace = () => {
+  const store = new Map<string, { value: string; metadata?: unknown }>();
+
+  return {
+    store,
+    get: vi.fn(async (key: string) => store.get(key)?.value ?? null),
+    getWithMetadata: vi.fn(async (key: string) => {
+      const entry = store.get(key);
+      return { value: entry?.value ?? null, metadata: entry?.metadata ?? null };
+    }),
+    put: vi.fn(async (key: string, value: string, options?: { metadata?: unknown }) => {
+      store.set(key, { value, metadata: options?.metadata });
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    list: vi.fn(async (options: { prefix?: string; limit?: number; cursor?: string } = {}) => {
+      const names = Array.from(store.keys())
+        .filter(name => !options.prefix || name.startsWith(options.prefix));
+      const start = options.cursor ? parseInt(options.cursor) : 0;
+      const end = start + (options.limit ?? 1000);
+      return {
+        keys: names.slice(start, end).map(name => ({ name, metadata: store.get(name)!.metadata })),
+        list_complete: end >= names.length,
+        cursor: end >= names.length ? undefined : String(end),
+      };
+    }),
+  };
+};
+
+// Worker environment backed by an in-memory KV namespace
+export const createMockEnv = (overrides: Record<string, unknown> = {}) => ({
+  MESSAGE_QUEUE: createMockKVNamespace() as any,
+  RATE_LIMITER: { limit: vi.fn().mockResolvedValue({ success: true }) },
+  AI_WORKER_API_SECRET_KEY: 'test-ai-worker-key',
+  GMAIL_CLIENT_ID: 'test-client-id',
+  GMAIL_CLIENT_SECRET: 'test-client-secret',
+  GMAIL_REFRESH_TOKEN: 'test-refresh-token',
+  RECIPIENT_EMAIL: 'default@example.com',
+  ENVIRONMENT: 'test' as const,
+  ...overrides,
+});